@@ -0,0 +1,390 @@
+import * as vscode from 'vscode';
+import { createServer, Server, Socket } from 'net';
+import { mkdir, writeFile, unlink, lstat } from 'fs/promises';
+import { unlinkSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TerminalSessions } from './terminals';
+
+// Must match BRIDGE_DIR in the vscode-helper CLI (src/editor-bridge.ts)
+const BRIDGE_DIR = join(process.env.XDG_RUNTIME_DIR || tmpdir(), 'vscode-helper');
+
+type Handler = (params: any) => unknown | Promise<unknown>;
+
+// Lines and columns are 1-based on the wire, matching `code --goto`
+interface WireRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn?: number;
+}
+
+const REVEAL_TYPES: Record<string, vscode.TextEditorRevealType> = {
+  center: vscode.TextEditorRevealType.InCenter,
+  top: vscode.TextEditorRevealType.AtTop,
+  inView: vscode.TextEditorRevealType.Default
+};
+
+let server: Server | null = null;
+let socketPath = '';
+let registryFile = '';
+let lastFocused = Date.now();
+const terminals = new TerminalSessions();
+
+function toRange(document: vscode.TextDocument, range: WireRange): vscode.Range {
+  const start = document.validatePosition(new vscode.Position(range.startLine - 1, range.startColumn - 1));
+  const end = range.endColumn === undefined
+    ? document.lineAt(Math.min(range.endLine, document.lineCount) - 1).range.end
+    : document.validatePosition(new vscode.Position(range.endLine - 1, range.endColumn - 1));
+  return new vscode.Range(start, end);
+}
+
+function describeSelections(editor: vscode.TextEditor) {
+  return {
+    uri: editor.document.uri.toString(),
+    fileName: editor.document.fileName,
+    selections: editor.selections.map(selection => ({
+      startLine: selection.start.line + 1,
+      startColumn: selection.start.character + 1,
+      endLine: selection.end.line + 1,
+      endColumn: selection.end.character + 1,
+      isEmpty: selection.isEmpty,
+      isReversed: selection.isReversed,
+      text: editor.document.getText(selection)
+    }))
+  };
+}
+
+interface WireFileEdit {
+  fileName: string;
+  version: number | null;
+  create: boolean;
+  edits: Array<{ start: number; end: number; newText: string }>;
+}
+
+function findOpenDocument(fileName: string): vscode.TextDocument | undefined {
+  return vscode.workspace.textDocuments.find(document => document.uri.scheme === 'file' && document.fileName === fileName);
+}
+
+async function showFile(fileName: string): Promise<vscode.TextEditor> {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(fileName));
+  return vscode.window.showTextDocument(document, { preview: false });
+}
+
+function fromRange(range: vscode.Range) {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1
+  };
+}
+
+// Definition providers answer with Locations or LocationLinks; only files on disk can be opened by path
+function toLocations(results: Array<vscode.Location | vscode.LocationLink> | undefined) {
+  return (results ?? []).flatMap(result => {
+    const [uri, range] = 'targetUri' in result
+      ? [result.targetUri, result.targetSelectionRange ?? result.targetRange]
+      : [result.uri, result.range];
+    return uri.scheme === 'file' ? [{ fileName: uri.fsPath, range: fromRange(range) }] : [];
+  });
+}
+
+function symbolKind(kind: vscode.SymbolKind): string {
+  return vscode.SymbolKind[kind].toLowerCase();
+}
+
+// Nested document symbols become a flat list, each naming its parent
+function flattenSymbols(uri: vscode.Uri, symbols: vscode.DocumentSymbol[], containerName: string | null): unknown[] {
+  return symbols.flatMap(symbol => [
+    {
+      name: symbol.name,
+      kind: symbolKind(symbol.kind),
+      containerName,
+      detail: symbol.detail || null,
+      location: { fileName: uri.fsPath, range: fromRange(symbol.selectionRange) }
+    },
+    ...flattenSymbols(uri, symbol.children, symbol.name)
+  ]);
+}
+
+function toPosition(params: { line: number; column: number }): vscode.Position {
+  return new vscode.Position(params.line - 1, params.column - 1);
+}
+
+const handlers: Record<string, Handler> = {
+  'editor.getActive': () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return null;
+    }
+
+    const document = editor.document;
+    return {
+      uri: document.uri.toString(),
+      fileName: document.fileName,
+      languageId: document.languageId,
+      isDirty: document.isDirty,
+      isUntitled: document.isUntitled,
+      lineCount: document.lineCount,
+      text: document.getText()
+    };
+  },
+
+  'editor.getSelections': () => {
+    const editor = vscode.window.activeTextEditor;
+    return editor ? describeSelections(editor) : null;
+  },
+
+  'editor.setSelections': async (params: { fileName: string; selections: WireRange[]; reveal: string }) => {
+    const editor = await showFile(params.fileName);
+    const selections = params.selections.map(range => {
+      const target = toRange(editor.document, range);
+      return new vscode.Selection(target.start, target.end);
+    });
+    if (selections.length === 0) {
+      throw new Error('At least one selection is required');
+    }
+
+    editor.selections = selections;
+    editor.revealRange(selections[0], REVEAL_TYPES[params.reveal] ?? vscode.TextEditorRevealType.InCenter);
+    return describeSelections(editor);
+  },
+
+  'editor.revealRange': async (params: { fileName: string; range: WireRange; reveal: string }) => {
+    const editor = await showFile(params.fileName);
+    editor.revealRange(toRange(editor.document, params.range), REVEAL_TYPES[params.reveal] ?? vscode.TextEditorRevealType.InCenter);
+    return null;
+  },
+
+  'workspace.readDocument': (params: { fileName: string }) => {
+    const document = findOpenDocument(params.fileName);
+    return document ? { text: document.getText(), version: document.version, isDirty: document.isDirty } : null;
+  },
+
+  'workspace.applyEdit': async (params: { files: WireFileEdit[]; save: boolean }) => {
+    const edit = new vscode.WorkspaceEdit();
+
+    // Validate every file before touching anything, so the batch stays atomic
+    for (const file of params.files) {
+      const uri = vscode.Uri.file(file.fileName);
+      if (file.create) {
+        if (findOpenDocument(file.fileName)) {
+          throw new Error(`Conflict: ${file.fileName} is already open`);
+        }
+        edit.createFile(uri, { ignoreIfExists: false });
+        edit.insert(uri, new vscode.Position(0, 0), file.edits.map(e => e.newText).join(''));
+        continue;
+      }
+
+      const openDocument = findOpenDocument(file.fileName);
+      if (file.version === null && openDocument?.isDirty) {
+        throw new Error(`Conflict: ${file.fileName} has unsaved changes that the edits were not computed against`);
+      }
+      if (file.version !== null && openDocument?.version !== file.version) {
+        throw new Error(`Conflict: ${file.fileName} changed while the edits were being prepared`);
+      }
+
+      const document = openDocument ?? await vscode.workspace.openTextDocument(uri);
+      for (const change of file.edits) {
+        edit.replace(uri, new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)), change.newText);
+      }
+    }
+
+    if (!await vscode.workspace.applyEdit(edit)) {
+      throw new Error('VSCode rejected the workspace edit');
+    }
+
+    if (params.save) {
+      for (const file of params.files) {
+        const document = findOpenDocument(file.fileName) ?? await vscode.workspace.openTextDocument(vscode.Uri.file(file.fileName));
+        await document.save();
+      }
+    }
+    return null;
+  },
+
+  'workspace.getDiagnostics': () => {
+    const severities = ['error', 'warning', 'info', 'hint'];
+    return vscode.languages.getDiagnostics()
+      .filter(([uri]) => uri.scheme === 'file')
+      .flatMap(([uri, diagnostics]) => diagnostics.map(diagnostic => ({
+        fileName: uri.fsPath,
+        range: fromRange(diagnostic.range),
+        severity: severities[diagnostic.severity],
+        source: diagnostic.source ?? null,
+        code: diagnostic.code === undefined ? null : String(typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code),
+        message: diagnostic.message
+      })));
+  },
+
+  'language.definition': async (params: { fileName: string; line: number; column: number }) => {
+    return toLocations(await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+      'vscode.executeDefinitionProvider', vscode.Uri.file(params.fileName), toPosition(params)
+    ));
+  },
+
+  'language.references': async (params: { fileName: string; line: number; column: number; includeDeclaration: boolean }) => {
+    const locations = toLocations(await vscode.commands.executeCommand<vscode.Location[]>(
+      'vscode.executeReferenceProvider', vscode.Uri.file(params.fileName), toPosition(params)
+    ));
+    if (params.includeDeclaration) {
+      return locations;
+    }
+    // The reference provider command always includes the declaration, so drop what the definition provider points at
+    const definitions = toLocations(await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+      'vscode.executeDefinitionProvider', vscode.Uri.file(params.fileName), toPosition(params)
+    ));
+    return locations.filter(location => !definitions.some(definition =>
+      definition.fileName === location.fileName && JSON.stringify(definition.range) === JSON.stringify(location.range)
+    ));
+  },
+
+  'language.documentSymbols': async (params: { fileName: string }) => {
+    const uri = vscode.Uri.file(params.fileName);
+    const symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+      'vscode.executeDocumentSymbolProvider', uri
+    );
+    return (symbols ?? []).flatMap(symbol => 'children' in symbol
+      ? flattenSymbols(uri, [symbol], null)
+      : [{
+          name: symbol.name,
+          kind: symbolKind(symbol.kind),
+          containerName: symbol.containerName || null,
+          detail: null,
+          location: { fileName: symbol.location.uri.fsPath, range: fromRange(symbol.location.range) }
+        }]);
+  },
+
+  'language.workspaceSymbols': async (params: { query: string }) => {
+    const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', params.query);
+    return (symbols ?? [])
+      .filter(symbol => symbol.location.uri.scheme === 'file')
+      .map(symbol => ({
+        name: symbol.name,
+        kind: symbolKind(symbol.kind),
+        containerName: symbol.containerName || null,
+        detail: null,
+        location: { fileName: symbol.location.uri.fsPath, range: fromRange(symbol.location.range) }
+      }));
+  },
+
+  'window.confirm': async (params: { message: string; detail: string }) => {
+    const choice = await vscode.window.showWarningMessage(params.message, { modal: true, detail: params.detail }, 'Allow', 'Deny');
+    return choice === 'Allow';
+  },
+
+  'terminal.create': (params: { name: string; cwd: string; command?: string; shell?: string }) => terminals.create(params),
+  'terminal.send': (params: { name: string; input: string; newline?: boolean }) => terminals.send(params),
+  'terminal.read': (params: { name: string; since?: number; wait?: number }) => terminals.read(params),
+  'terminal.kill': (params: { name: string; signal?: NodeJS.Signals }) => terminals.kill(params.name, params.signal),
+  'terminal.list': () => terminals.list()
+};
+
+async function writeRegistry() {
+  const entry = {
+    pid: process.pid,
+    socketPath,
+    workspaceFolders: (vscode.workspace.workspaceFolders || [])
+      .filter(folder => folder.uri.scheme === 'file')
+      .map(folder => folder.uri.fsPath),
+    focused: vscode.window.state.focused,
+    lastFocused
+  };
+  await writeFile(registryFile, JSON.stringify(entry, null, 2), 'utf8');
+}
+
+function handleConnection(socket: Socket) {
+  let buffer = '';
+  socket.setEncoding('utf8');
+
+  socket.on('data', async (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+
+      let id: unknown = null;
+      try {
+        const request = JSON.parse(line);
+        id = request.id;
+        const handler = handlers[request.method];
+        if (!handler) {
+          throw new Error(`Unknown method: ${request.method}`);
+        }
+        const result = await handler(request.params || {});
+        socket.write(JSON.stringify({ id, result: result ?? null }) + '\n');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        socket.write(JSON.stringify({ id, error: { message } }) + '\n');
+      }
+    }
+  });
+  socket.on('error', () => {
+    // Client went away mid-request
+  });
+}
+
+// On a shared temp directory another user could create the directory first and plant registry files or sockets,
+// so it must be a real directory owned by us that nobody else can enter. mkdir does not fix an existing one.
+async function ensurePrivateDir(dir: string): Promise<void> {
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+  const stats = await lstat(dir);
+  const uid = process.getuid?.();
+  if (stats.isSymbolicLink() || !stats.isDirectory()) {
+    throw new Error(`${dir} is not a directory`);
+  }
+  if (uid !== undefined && stats.uid !== uid) {
+    throw new Error(`${dir} is owned by another user (uid ${stats.uid})`);
+  }
+  if (process.platform !== 'win32' && (stats.mode & 0o777) !== 0o700) {
+    throw new Error(`${dir} must have mode 0700, not ${(stats.mode & 0o777).toString(8)}`);
+  }
+}
+
+export async function activate(context: vscode.ExtensionContext) {
+  try {
+    await ensurePrivateDir(BRIDGE_DIR);
+  } catch (error) {
+    const message = `vscode-helper bridge disabled: ${error instanceof Error ? error.message : String(error)}`;
+    vscode.window.showErrorMessage(message);
+    throw new Error(message);
+  }
+  socketPath = join(BRIDGE_DIR, `${process.pid}.sock`);
+  registryFile = join(BRIDGE_DIR, `${process.pid}.json`);
+
+  await unlink(socketPath).catch(() => {});
+  server = createServer(handleConnection);
+  await new Promise<void>((resolve, reject) => {
+    server!.once('error', reject);
+    server!.listen(socketPath, () => resolve());
+  });
+  await writeRegistry();
+
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState(state => {
+      if (state.focused) {
+        lastFocused = Date.now();
+      }
+      writeRegistry().catch(() => {});
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      writeRegistry().catch(() => {});
+    })
+  );
+}
+
+export function deactivate() {
+  terminals.disposeAll();
+  server?.close();
+  server = null;
+  // Synchronous cleanup, the extension host may exit right after deactivate returns
+  for (const file of [registryFile, socketPath]) {
+    try {
+      unlinkSync(file);
+    } catch {
+      // Already removed
+    }
+  }
+}
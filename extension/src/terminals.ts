@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+
+// Oldest output is dropped once a session has buffered this many characters
+const MAX_BUFFERED_OUTPUT = 1024 * 1024;
+// Exited sessions are forgotten once read, or unread after this long or beyond this many
+const EXITED_SESSION_TTL = 10 * 60 * 1000;
+const MAX_EXITED_SESSIONS = 10;
+
+interface TerminalSession {
+  name: string;
+  terminal: vscode.Terminal;
+  child: ChildProcess;
+  output: string;
+  // Absolute offset of output[0] in everything the session has produced
+  outputBase: number;
+  exitCode: number | null;
+  signal: string | null;
+  exitedAt: number | null;
+  exited: Promise<void>;
+}
+
+export interface TerminalSnapshot {
+  name: string;
+  pid: number | undefined;
+  running: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  output: string;
+  offset: number;
+  truncated: boolean;
+}
+
+// Named integrated terminals backed by a shell process whose output is captured
+export class TerminalSessions {
+  private sessions = new Map<string, TerminalSession>();
+
+  create(params: { name: string; cwd: string; command?: string; shell?: string }): TerminalSnapshot {
+    this.evictExited();
+    const existing = this.sessions.get(params.name);
+    if (existing && existing.exitCode === null && existing.signal === null) {
+      throw new Error(`Terminal '${params.name}' is already running`);
+    }
+    existing?.terminal.dispose();
+
+    const shell = params.shell || process.env.SHELL || '/bin/bash';
+    const args = params.command ? ['-c', params.command] : [];
+    const child = spawn(shell, args, { cwd: params.cwd, env: process.env, stdio: 'pipe' });
+    const writeEmitter = new vscode.EventEmitter<string>();
+
+    const session: TerminalSession = {
+      name: params.name,
+      terminal: undefined as unknown as vscode.Terminal,
+      child,
+      output: '',
+      outputBase: 0,
+      exitCode: null,
+      signal: null,
+      exitedAt: null,
+      exited: new Promise<void>(resolve => {
+        child.on('close', (code, signal) => {
+          session.exitCode = code;
+          session.signal = signal;
+          session.exitedAt = Date.now();
+          writeEmitter.fire(`\r\n[Process exited${signal ? ` with signal ${signal}` : ` with code ${code}`}]\r\n`);
+          resolve();
+        });
+      })
+    };
+
+    const append = (data: Buffer) => {
+      const text = data.toString('utf8');
+      session.output += text;
+      if (session.output.length > MAX_BUFFERED_OUTPUT) {
+        const overflow = session.output.length - MAX_BUFFERED_OUTPUT;
+        session.output = session.output.slice(overflow);
+        session.outputBase += overflow;
+      }
+      writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+    child.on('error', error => append(Buffer.from(`${error.message}\n`)));
+
+    // Without a real pty the shell does not echo, so typed input is echoed locally
+    let pendingLine = '';
+    const pty: vscode.Pseudoterminal = {
+      onDidWrite: writeEmitter.event,
+      open: () => {
+        if (params.command) {
+          writeEmitter.fire(`$ ${params.command}\r\n`);
+        }
+      },
+      // Closing the panel of a replaced or forgotten session must not kill whatever now runs under its name
+      close: () => {
+        if (this.sessions.get(params.name) === session) {
+          this.kill(params.name);
+        }
+      },
+      handleInput: data => {
+        for (const char of data) {
+          if (char === '\r') {
+            writeEmitter.fire('\r\n');
+            child.stdin?.write(pendingLine + '\n');
+            pendingLine = '';
+          } else if (char === '\x7f') {
+            if (pendingLine.length > 0) {
+              pendingLine = pendingLine.slice(0, -1);
+              writeEmitter.fire('\b \b');
+            }
+          } else if (char === '\x03') {
+            child.kill('SIGINT');
+          } else {
+            pendingLine += char;
+            writeEmitter.fire(char);
+          }
+        }
+      }
+    };
+
+    session.terminal = vscode.window.createTerminal({ name: params.name, pty });
+    session.terminal.show(true);
+    this.sessions.set(params.name, session);
+    return this.snapshot(session, session.outputBase);
+  }
+
+  send(params: { name: string; input: string; newline?: boolean }): TerminalSnapshot {
+    const session = this.get(params.name);
+    if (session.exitCode !== null || session.signal !== null || !session.child.stdin?.writable) {
+      throw new Error(`Terminal '${params.name}' is no longer running`);
+    }
+    session.child.stdin.write(params.input + (params.newline === false ? '' : '\n'));
+    return this.snapshot(session, session.outputBase + session.output.length);
+  }
+
+  async read(params: { name: string; since?: number; wait?: number }): Promise<TerminalSnapshot> {
+    const session = this.get(params.name);
+    if (params.wait && params.wait > 0) {
+      await Promise.race([session.exited, new Promise(resolve => setTimeout(resolve, params.wait))]);
+    }
+    const snapshot = this.snapshot(session, params.since ?? session.outputBase);
+    // The read that reports the exit hands over the rest of the output, so the session is done
+    if (!snapshot.running && this.sessions.get(params.name) === session) {
+      this.sessions.delete(params.name);
+    }
+    return snapshot;
+  }
+
+  kill(name: string, signal: NodeJS.Signals = 'SIGTERM'): TerminalSnapshot {
+    const session = this.get(name);
+    if (session.exitCode === null && session.signal === null) {
+      session.child.kill(signal);
+    }
+    return this.snapshot(session, session.outputBase + session.output.length);
+  }
+
+  list(): TerminalSnapshot[] {
+    this.evictExited();
+    return [...this.sessions.values()].map(session => ({
+      ...this.snapshot(session, session.outputBase + session.output.length),
+      output: ''
+    }));
+  }
+
+  disposeAll() {
+    for (const session of this.sessions.values()) {
+      session.child.kill();
+      session.terminal.dispose();
+    }
+    this.sessions.clear();
+  }
+
+  // The panel of an evicted session stays open; only its captured output is released
+  private evictExited(now: number = Date.now()) {
+    const exited = [...this.sessions.values()]
+      .filter(session => session.exitedAt !== null)
+      .sort((a, b) => b.exitedAt! - a.exitedAt!);
+    exited.forEach((session, index) => {
+      if (index >= MAX_EXITED_SESSIONS || now - session.exitedAt! > EXITED_SESSION_TTL) {
+        this.sessions.delete(session.name);
+      }
+    });
+  }
+
+  private get(name: string): TerminalSession {
+    const session = this.sessions.get(name);
+    if (!session) {
+      throw new Error(`Unknown terminal: ${name}`);
+    }
+    return session;
+  }
+
+  private snapshot(session: TerminalSession, since: number): TerminalSnapshot {
+    const start = Math.max(since, session.outputBase) - session.outputBase;
+    return {
+      name: session.name,
+      pid: session.child.pid,
+      running: session.exitCode === null && session.signal === null,
+      exitCode: session.exitCode,
+      signal: session.signal,
+      output: session.output.slice(start),
+      offset: session.outputBase + session.output.length,
+      truncated: since < session.outputBase
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApprovalPolicy, PolicyFile, POLICY_FILE, simpleCommands } from './approval-policy';
+
+const root = '/work/proj';
+const noPolicies = { user: {}, workspace: {} };
+
+function createPolicy(resolvePath?: (path: string) => Promise<string>): ApprovalPolicy {
+  return new ApprovalPolicy(async () => true, resolvePath);
+}
+
+async function actionFor(command: string, policies: { user: PolicyFile; workspace: PolicyFile } = noPolicies): Promise<string> {
+  return (await createPolicy().classify('run_terminal_command', { command }, root, policies)).action;
+}
+
+describe('simpleCommands', () => {
+  it('splits command lists and pipelines and removes quotes', () => {
+    expect(simpleCommands(`echo 'a; b' && rm -rf "my dir" | tee log; ls`).map(({ words }) => words)).toEqual([
+      ['echo', 'a; b'],
+      ['rm', '-rf', 'my dir'],
+      ['tee', 'log'],
+      ['ls']
+    ]);
+  });
+
+  it('unwraps sudo, env and assignments', () => {
+    expect(simpleCommands('FOO=1 sudo -u root env -i BAR=2 rm x')).toEqual([{ words: ['rm', 'x'], wrappers: ['sudo', 'env'] }]);
+  });
+});
+
+describe('built-in rules', () => {
+  it.each([
+    'rm -rf /',
+    'rm -r -f /',
+    'rm -f -R /',
+    'rm --recursive --force /',
+    'rm   -fr   /',
+    '/bin/rm -rf /',
+    'echo done && rm -rf /',
+    'true; rm -rf /',
+    'false || rm -rf /',
+    'echo $(rm -rf /)',
+    'echo "`rm -rf /`"',
+    'bash -c "rm -rf /"',
+    'env FOO=1 rm -rf /',
+    'timeout 5 rm -rf /',
+    'find . -name x -exec rm -rf {} \\;',
+    'sudo  rm x',
+    'ls | sudo tee /etc/hosts',
+    'git push --force',
+    'git push -f origin main',
+    'git -C repo push --force-with-lease',
+    'git push origin +main',
+    'git reset --hard HEAD~1',
+    'git clean -fdx',
+    'git clean --force',
+    'mkfs.ext4 /dev/sda1',
+    'dd if=/dev/zero of=/dev/sda'
+  ])('asks before %s', async command => {
+    expect(await actionFor(command)).toBe('ask');
+  });
+
+  it.each([
+    'rm -r build',
+    'rm -f file',
+    'echo "rm -rf /"',
+    'grep -rf patterns .',
+    'git push origin main',
+    'git reset HEAD file',
+    'git clean -n',
+    'npm test -- --force'
+  ])('allows %s', async command => {
+    expect(await actionFor(command)).toBe('allow');
+  });
+
+  it('does not apply to tools that run no command', async () => {
+    const decision = await createPolicy().classify('create_file', { path: 'a.txt', content: 'rm -rf /' }, root, noPolicies);
+    expect(decision.action).toBe('allow');
+  });
+});
+
+describe('policy layers', () => {
+  const allowRm: PolicyFile = { rules: [{ tool: 'run_terminal_command', command: '^rm ', action: 'allow' }] };
+
+  it('lets the user policy allow what a built-in rule asks about', async () => {
+    expect(await actionFor('rm -rf build', { user: allowRm, workspace: {} })).toBe('allow');
+  });
+
+  it('does not let the workspace policy loosen a built-in rule or the user default', async () => {
+    expect(await actionFor('rm -rf build', { user: {}, workspace: { ...allowRm, default: 'allow' } })).toBe('ask');
+    expect(await actionFor('ls', { user: { default: 'ask' }, workspace: { default: 'allow' } })).toBe('ask');
+  });
+
+  it('lets the workspace policy make decisions stricter', async () => {
+    const workspace: PolicyFile = { rules: [{ tool: 'run_terminal_command', command: 'rm', action: 'deny', reason: 'no deletes here' }] };
+    const decision = await createPolicy().classify('run_terminal_command', { command: 'rm -rf build' }, root, { user: allowRm, workspace });
+    expect(decision).toMatchObject({ action: 'deny', reason: 'no deletes here' });
+    expect(await actionFor('ls', { user: {}, workspace: { default: 'ask' } })).toBe('ask');
+  });
+
+  describe('loadWorkspacePolicy', () => {
+    let workspace: string;
+
+    beforeAll(async () => {
+      workspace = await mkdtemp(join(tmpdir(), 'vscode-helper-policy-'));
+      await mkdir(join(workspace, '.vscode'));
+      await writeFile(join(workspace, POLICY_FILE), JSON.stringify({
+        default: 'allow',
+        rules: [
+          { tool: 'run_terminal_command', action: 'allow' },
+          { path: 'secrets/**', action: 'deny' }
+        ]
+      }));
+    });
+
+    afterAll(async () => {
+      await rm(workspace, { recursive: true, force: true });
+    });
+
+    it('drops allow rules and an allow default', async () => {
+      expect(await createPolicy().loadWorkspacePolicy(workspace)).toEqual({ default: undefined, rules: [{ path: 'secrets/**', action: 'deny' }] });
+    });
+  });
+
+  describe('malformed policy files', () => {
+    let workspace: string;
+
+    beforeEach(async () => {
+      workspace = await mkdtemp(join(tmpdir(), 'vscode-helper-policy-'));
+      await mkdir(join(workspace, '.vscode'));
+    });
+
+    afterEach(async () => {
+      await rm(workspace, { recursive: true, force: true });
+    });
+
+    it.each([
+      ['broken JSON', '{"rules": [', 'Unexpected end of JSON input'],
+      ['a list instead of an object', '[]', 'expected a JSON object'],
+      ['rules that are not an array', '{"rules": {}}', 'rules must be an array'],
+      ['an invalid command pattern', '{"rules": [{"command": "(", "action": "deny"}]}', 'rules[0].command is not a valid regular expression'],
+      ['a rule posing as a built-in one', '{"rules": [{"matches": true, "action": "deny"}]}', "rules[0] has unknown field 'matches'"],
+      ['a rule without an action', '{"rules": [{"tool": "create_file"}]}', 'rules[0] needs an action'],
+      ['an unknown action', '{"rules": [{"action": "maybe"}]}', 'rules[0].action must be allow, deny or ask'],
+      ['a tool that is not a name', '{"rules": [{"tool": 1, "action": "deny"}]}', 'rules[0].tool must be a tool name or an array of them'],
+      ['an unknown default', '{"default": "never"}', 'default must be allow, deny or ask'],
+      ['an unknown setting', '{"rule": []}', "unknown setting 'rule'"]
+    ])('rejects %s as invalid configuration', async (_label, text, problem) => {
+      await writeFile(join(workspace, POLICY_FILE), text);
+      const error = await createPolicy().loadWorkspacePolicy(workspace).catch(error => error);
+      expect(error).toMatchObject({ code: 'invalid_config', details: { source: join(workspace, POLICY_FILE) } });
+      expect(error.message).toContain(problem);
+    });
+  });
+});
+
+describe('paths', () => {
+  const rule: PolicyFile = { rules: [{ path: 'packages/**', action: 'deny' }] };
+
+  it('matches rules against the paths the tool resolver returns', async () => {
+    // A multi-root workspace addresses "<root name>/path"; only the tools' resolver knows where that is
+    const policy = createPolicy(async path => join(root, 'packages', path));
+    const decision = await policy.classify('create_file', { path: 'api/index.ts' }, root, { user: {}, workspace: rule });
+    expect(decision.action).toBe('deny');
+  });
+
+  it('falls back to the path itself when the resolver rejects it', async () => {
+    const policy = createPolicy(async () => {
+      throw new Error('outside the workspace');
+    });
+    const decision = await policy.classify('create_file', { path: 'packages/api/index.ts' }, root, { user: {}, workspace: rule });
+    expect(decision.action).toBe('deny');
+  });
+});
@@ -0,0 +1,521 @@
+import { readFile, appendFile, mkdir } from 'fs/promises';
+import { basename, dirname, join, relative, resolve, isAbsolute } from 'path';
+import { homedir } from 'os';
+import { parseUnifiedDiff } from './text-edits.js';
+import { userConfigFile, ConfigError } from './config.js';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PolicyRule {
+  // Tool name or list of names; omitted matches every tool
+  tool?: string | string[];
+  // Regular expression tested against the command a tool would run
+  command?: string;
+  // Glob (`*`, `**`, `?`) tested against every workspace-relative path a tool would touch
+  path?: string;
+  action: PolicyAction;
+  reason?: string;
+}
+
+export interface PolicyFile {
+  default?: PolicyAction;
+  rules?: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: PolicyRule | null;
+  reason: string;
+}
+
+// Workspace policy lives next to the other VSCode settings of a project; a cloned repository controls it, so it can
+// only make decisions stricter. Rules that allow more come from the user's policy next to the user config.
+export const POLICY_FILE = join('.vscode', 'vscode-helper-policy.json');
+export const AUDIT_LOG = join(process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state'), 'vscode-helper', 'audit.jsonl');
+
+export function userPolicyFile(env: NodeJS.ProcessEnv = process.env): string {
+  return join(dirname(userConfigFile(env)), 'policy.json');
+}
+
+const COMMAND_TOOLS = ['run_terminal_command', 'terminal_create', 'terminal_send'];
+
+// A built-in rule looks at each simple command of a command line, with wrappers like sudo or env removed
+interface BuiltinRule extends PolicyRule {
+  matches: (words: string[], wrappers: string[]) => boolean;
+}
+
+// Short option clusters count letter by letter, so `-rf`, `-r -f` and `-fR` are the same
+function hasFlag(args: string[], short: string[], long: string[]): boolean {
+  const options = args.slice(0, args.includes('--') ? args.indexOf('--') : args.length);
+  return options.some(arg => arg.startsWith('--')
+    ? long.includes(arg.split('=')[0])
+    : arg.startsWith('-') && [...arg.slice(1)].some(letter => short.includes(letter)));
+}
+
+// The git subcommand and its arguments, past global options such as `-C dir` or `-c key=value`
+function gitSubcommand(words: string[]): { name: string; args: string[] } | null {
+  if (basename(words[0]) !== 'git') return null;
+  for (let i = 1; i < words.length; i++) {
+    if (['-C', '-c', '--git-dir', '--work-tree', '--namespace'].includes(words[i])) {
+      i++;
+    } else if (!words[i].startsWith('-')) {
+      return { name: words[i], args: words.slice(i + 1) };
+    }
+  }
+  return null;
+}
+
+const PRIVILEGE_WRAPPERS = ['sudo', 'doas', 'su', 'pkexec'];
+
+export const BUILTIN_RULES: BuiltinRule[] = [
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'recursive forced delete',
+    matches: words => basename(words[0]) === 'rm' && hasFlag(words.slice(1), ['r', 'R'], ['--recursive']) && hasFlag(words.slice(1), ['f'], ['--force'])
+  },
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'force push',
+    matches: words => {
+      const git = gitSubcommand(words);
+      return git?.name === 'push' && (hasFlag(git.args, ['f'], ['--force', '--force-with-lease', '--force-if-includes']) || git.args.some(arg => arg.startsWith('+')));
+    }
+  },
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'hard reset discards changes',
+    matches: words => {
+      const git = gitSubcommand(words);
+      return git?.name === 'reset' && hasFlag(git.args, [], ['--hard']);
+    }
+  },
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'git clean deletes untracked files',
+    matches: words => {
+      const git = gitSubcommand(words);
+      return git?.name === 'clean' && hasFlag(git.args, ['f'], ['--force']);
+    }
+  },
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'command runs as root',
+    matches: (words, wrappers) => wrappers.some(wrapper => PRIVILEGE_WRAPPERS.includes(wrapper)) || PRIVILEGE_WRAPPERS.includes(basename(words[0]))
+  },
+  {
+    tool: COMMAND_TOOLS, action: 'ask', reason: 'raw disk write',
+    matches: words => /^mkfs(\.\w+)?$/.test(basename(words[0])) || (basename(words[0]) === 'dd' && words.some(word => word.startsWith('of=')))
+  }
+];
+
+// Commands that run the rest of their arguments as a command, with those of their options that take a value
+const WRAPPER_OPTIONS_WITH_VALUE: Record<string, string[]> = {
+  sudo: ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U'],
+  doas: ['-u', '-C'],
+  pkexec: ['--user'],
+  env: ['-u', '-C', '-S'],
+  nice: ['-n'],
+  ionice: ['-c', '-n', '-p'],
+  timeout: ['-s', '-k'],
+  stdbuf: ['-i', '-o', '-e'],
+  nohup: [],
+  time: [],
+  command: [],
+  exec: [],
+  builtin: [],
+  xargs: ['-I', '-L', '-n', '-P', '-s', '-d', '-E', '-a']
+};
+const SHELL_KEYWORDS = ['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}'];
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh'];
+
+// Split a shell command line into words, one list per simple command: quotes are removed, and `;`, `&`, `|`, `&&`,
+// `||`, newlines, parentheses, `$(` and backticks separate commands. Expansions are not evaluated.
+export function splitCommandLine(commandLine: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word: string | null = null;
+  const endWord = () => {
+    if (word !== null) words.push(word);
+    word = null;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) commands.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (char === '\\' && i + 1 < commandLine.length) {
+      word = (word ?? '') + (commandLine[i + 1] === '\n' ? '' : commandLine[i + 1]);
+      i++;
+    } else if (char === "'") {
+      const end = commandLine.indexOf("'", i + 1);
+      word = (word ?? '') + commandLine.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? commandLine.length : end;
+    } else if (char === '"') {
+      // Command substitutions inside double quotes still run
+      let text = '';
+      for (i++; i < commandLine.length && commandLine[i] !== '"'; i++) {
+        if (commandLine[i] === '\\' && i + 1 < commandLine.length) {
+          text += commandLine[++i];
+        } else {
+          text += commandLine[i];
+        }
+      }
+      word = (word ?? '') + text;
+      for (const substitution of text.matchAll(/\$\(([^)]*)\)|`([^`]*)`/g)) {
+        commands.push(...splitCommandLine(substitution[1] ?? substitution[2]));
+      }
+    } else if (/\s/.test(char) && char !== '\n') {
+      endWord();
+    } else if (';&|\n()`'.includes(char)) {
+      endCommand();
+    } else if (char === '$' && commandLine[i + 1] === '(') {
+      endCommand();
+      i++;
+    } else if (char === '#' && word === null) {
+      // A comment runs to the end of the line
+      const end = commandLine.indexOf('\n', i);
+      i = end === -1 ? commandLine.length : end - 1;
+    } else {
+      word = (word ?? '') + char;
+    }
+  }
+  endCommand();
+  return commands;
+}
+
+// The command a simple command really runs, with assignments, keywords and wrappers such as `sudo -u root env` taken
+// off the front; `sh -c`, `eval` and `find -exec` contribute the commands they run
+function unwrapCommand(words: string[]): Array<{ words: string[]; wrappers: string[] }> {
+  const wrappers: string[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    const name = basename(word);
+    if (SHELL_KEYWORDS.includes(word) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+    } else if (name in WRAPPER_OPTIONS_WITH_VALUE) {
+      wrappers.push(name);
+      const withValue = WRAPPER_OPTIONS_WITH_VALUE[name];
+      for (i++; i < words.length && words[i].startsWith('-'); i++) {
+        if (words[i] === '--') {
+          i++;
+          break;
+        }
+        if (withValue.includes(words[i])) i++;
+      }
+      // timeout's duration comes before the command
+      if (name === 'timeout' && i < words.length) i++;
+    } else {
+      break;
+    }
+  }
+
+  const command = words.slice(i);
+  const found = command.length > 0 ? [{ words: command, wrappers }] : [];
+  const name = command.length > 0 ? basename(command[0]) : '';
+  const nested: string[][] = [];
+  if (SHELLS.includes(name)) {
+    const script = command.findIndex(word => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(word));
+    if (script !== -1 && script + 1 < command.length) {
+      nested.push(...splitCommandLine(command[script + 1]));
+    }
+  } else if (name === 'eval') {
+    nested.push(...splitCommandLine(command.slice(1).join(' ')));
+  } else if (name === 'find') {
+    command.forEach((word, index) => {
+      if (['-exec', '-execdir', '-ok', '-okdir'].includes(word)) {
+        const rest = command.slice(index + 1);
+        const end = rest.findIndex(arg => arg === ';' || arg === '+');
+        nested.push(rest.slice(0, end === -1 ? undefined : end));
+      }
+    });
+  }
+  for (const inner of nested.filter(inner => inner.length > 0)) {
+    for (const unwrapped of unwrapCommand(inner)) {
+      found.push({ words: unwrapped.words, wrappers: [...wrappers, ...unwrapped.wrappers] });
+    }
+  }
+  return found;
+}
+
+export function simpleCommands(commandLine: string): Array<{ words: string[]; wrappers: string[] }> {
+  return splitCommandLine(commandLine).flatMap(unwrapCommand);
+}
+
+const STRICTNESS: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+const POLICY_ACTIONS: PolicyAction[] = ['allow', 'deny', 'ask'];
+const POLICY_RULE_FIELDS = ['tool', 'command', 'path', 'action', 'reason'];
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value !== '';
+}
+
+// Problems with a parsed policy file, collected so one run reports them all
+function checkPolicy(policy: unknown): string[] {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return ['expected a JSON object'];
+  }
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(policy)) {
+    if (key === 'default') {
+      if (!POLICY_ACTIONS.includes(value)) problems.push('default must be allow, deny or ask');
+    } else if (key === 'rules') {
+      if (Array.isArray(value)) {
+        value.forEach((rule, index) => problems.push(...checkRule(rule, index)));
+      } else {
+        problems.push('rules must be an array');
+      }
+    } else {
+      problems.push(`unknown setting '${key}' (known settings: default, rules)`);
+    }
+  }
+  return problems;
+}
+
+function checkRule(rule: unknown, index: number): string[] {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return [`rules[${index}] must be an object`];
+  }
+  const problems: string[] = [];
+  for (const [field, value] of Object.entries(rule)) {
+    if (!POLICY_RULE_FIELDS.includes(field)) {
+      problems.push(`rules[${index}] has unknown field '${field}' (known fields: ${POLICY_RULE_FIELDS.join(', ')})`);
+    } else if (field === 'tool' && !(isNonEmptyString(value) || Array.isArray(value) && value.every(isNonEmptyString))) {
+      problems.push(`rules[${index}].tool must be a tool name or an array of them`);
+    } else if (field === 'action' && !POLICY_ACTIONS.includes(value)) {
+      problems.push(`rules[${index}].action must be allow, deny or ask`);
+    } else if (field === 'command' || field === 'path' || field === 'reason') {
+      if (!isNonEmptyString(value)) {
+        problems.push(`rules[${index}].${field} must be a non-empty string`);
+      } else if (field === 'command') {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          problems.push(`rules[${index}].command is not a valid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+  }
+  if (!('action' in rule)) {
+    problems.push(`rules[${index}] needs an action`);
+  }
+  return problems;
+}
+
+// A rule's command and path patterns, compiled the first time the rule is matched
+const rulePatterns = new WeakMap<PolicyRule, { command: RegExp | null; path: RegExp | null }>();
+
+function patternsFor(rule: PolicyRule): { command: RegExp | null; path: RegExp | null } {
+  let patterns = rulePatterns.get(rule);
+  if (!patterns) {
+    patterns = {
+      command: rule.command === undefined ? null : new RegExp(rule.command),
+      path: rule.path === undefined ? null : globToRegExp(rule.path)
+    };
+    rulePatterns.set(rule, patterns);
+  }
+  return patterns;
+}
+
+// Pull the command and paths a tool call would act on out of its arguments
+export function describeToolCall(tool: string, args: Record<string, unknown>): { command: string | null; paths: string[] } {
+  const paths: string[] = [];
+  // Diff and merge views name their files left/right and result/ours/theirs/base, code navigation and diagnostics `file`
+  for (const key of ['path', 'cwd', 'file', 'left', 'right', 'result', 'ours', 'theirs', 'base']) {
+    if (typeof args[key] === 'string') {
+      paths.push(args[key] as string);
+    }
+  }
+  if (Array.isArray(args.files)) {
+    for (const file of args.files as Array<{ path?: unknown }>) {
+      if (typeof file?.path === 'string') {
+        paths.push(file.path);
+      }
+    }
+  }
+  if (typeof args.patch === 'string') {
+    for (const patch of parseUnifiedDiff(args.patch)) {
+      if (patch.path) {
+        paths.push(patch.path);
+      }
+    }
+  }
+
+  let command: string | null = null;
+  if (typeof args.command === 'string') {
+    command = args.command;
+  } else if (tool === 'terminal_send' && typeof args.input === 'string') {
+    command = args.input;
+  }
+
+  return { command, paths };
+}
+
+export class ApprovalPolicy {
+  constructor(
+    // Shows the question to the user and resolves with their answer
+    private confirm: (message: string, detail: string) => Promise<boolean>,
+    // The resolver the tools use, so rules see the files a call really touches
+    private resolvePath: (path: string) => Promise<string> = async path => path,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  private async loadPolicy(policyPath: string): Promise<PolicyFile> {
+    let raw: string;
+    try {
+      raw = await readFile(policyPath, 'utf8');
+    } catch {
+      return {};
+    }
+
+    let policy: unknown;
+    try {
+      policy = JSON.parse(raw);
+    } catch (error) {
+      throw new ConfigError(policyPath, [error instanceof Error ? error.message : 'Unknown error']);
+    }
+
+    const problems = checkPolicy(policy);
+    if (problems.length > 0) {
+      throw new ConfigError(policyPath, problems);
+    }
+    return policy as PolicyFile;
+  }
+
+  loadUserPolicy(): Promise<PolicyFile> {
+    return this.loadPolicy(userPolicyFile());
+  }
+
+  async loadWorkspacePolicy(workspacePath: string): Promise<PolicyFile> {
+    const policy = await this.loadPolicy(join(workspacePath, POLICY_FILE));
+    const ignored = (policy.rules ?? []).filter(rule => rule.action === 'allow');
+    if (ignored.length > 0) {
+      this.log(`Ignoring ${ignored.length} allow rule(s) in ${join(workspacePath, POLICY_FILE)}; allow rules belong in ${userPolicyFile()}`);
+    }
+    return {
+      default: policy.default === 'allow' ? undefined : policy.default,
+      rules: (policy.rules ?? []).filter(rule => rule.action !== 'allow')
+    };
+  }
+
+  // Workspace-relative paths for the rules, or absolute ones outside the workspace
+  private async policyPaths(paths: string[], workspacePath: string): Promise<string[]> {
+    return Promise.all(paths.map(async path => {
+      let absolutePath: string;
+      try {
+        absolutePath = await this.resolvePath(path);
+      } catch {
+        // The tool rejects such a path itself
+        absolutePath = path;
+      }
+      absolutePath = resolve(workspacePath, absolutePath);
+      const relativePath = relative(workspacePath, absolutePath);
+      return relativePath.startsWith('..') || isAbsolute(relativePath) ? absolutePath : relativePath;
+    }));
+  }
+
+  private matchRule(rules: PolicyRule[], tool: string, command: string | null, relativePaths: string[]): PolicyDecision | null {
+    for (const rule of rules) {
+      const tools = rule.tool === undefined ? null : Array.isArray(rule.tool) ? rule.tool : [rule.tool];
+      if (tools && !tools.includes(tool)) continue;
+      // Built-in rules are told apart by identity, not by their keys
+      if (BUILTIN_RULES.includes(rule as BuiltinRule)) {
+        const { matches } = rule as BuiltinRule;
+        if (command === null || !simpleCommands(command).some(({ words, wrappers }) => matches(words, wrappers))) continue;
+      }
+      const { command: commandPattern, path: pathPattern } = patternsFor(rule);
+      if (commandPattern && (command === null || !commandPattern.test(command))) continue;
+      if (pathPattern && !relativePaths.some(path => pathPattern.test(path))) continue;
+
+      return { action: rule.action, rule, reason: rule.reason ?? `matched rule for ${tools?.join(', ') ?? 'all tools'}` };
+    }
+    return null;
+  }
+
+  // The user's rules, then the built-in ones, then the user's default decide; the workspace's rules and default can
+  // only turn that into ask or deny. Within each, the first matching rule wins.
+  async classify(tool: string, args: Record<string, unknown>, workspacePath: string, policies: { user: PolicyFile; workspace: PolicyFile }): Promise<PolicyDecision> {
+    const { command, paths } = describeToolCall(tool, args);
+    const relativePaths = await this.policyPaths(paths, workspacePath);
+
+    const trusted = this.matchRule([...(policies.user.rules ?? []), ...BUILTIN_RULES], tool, command, relativePaths)
+      ?? { action: policies.user.default ?? 'allow', rule: null, reason: 'default policy' };
+    const workspace = this.matchRule(policies.workspace.rules ?? [], tool, command, relativePaths)
+      ?? (policies.workspace.default ? { action: policies.workspace.default, rule: null, reason: 'workspace default policy' } : null);
+
+    return workspace && STRICTNESS[workspace.action] > STRICTNESS[trusted.action] ? workspace : trusted;
+  }
+
+  // Decide whether a tool call may run, asking the user when the policy says so
+  async evaluate(tool: string, args: Record<string, unknown>, workspacePath: string): Promise<PolicyDecision & { answeredByUser: boolean }> {
+    const policies = { user: await this.loadUserPolicy(), workspace: await this.loadWorkspacePolicy(workspacePath) };
+    const decision = await this.classify(tool, args, workspacePath, policies);
+    this.log(`Policy for ${tool}: ${decision.action} (${decision.reason})`);
+
+    let result = { ...decision, answeredByUser: false };
+    if (decision.action === 'ask') {
+      const { command, paths } = describeToolCall(tool, args);
+      const detail = [
+        `Reason: ${decision.reason}`,
+        command !== null ? `Command: ${command}` : null,
+        paths.length > 0 ? `Paths: ${paths.join(', ')}` : null,
+        `Workspace: ${workspacePath}`
+      ].filter(Boolean).join('\n');
+
+      let approved = false;
+      let answeredByUser = false;
+      let reason = decision.reason;
+      try {
+        approved = await this.confirm(`An AI agent wants to run '${tool}'. Allow it?`, detail);
+        answeredByUser = true;
+      } catch (error) {
+        // No way to ask means no approval
+        this.log(`Could not ask for approval: ${error}`);
+        reason = `${decision.reason}; approval could not be requested: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+      result = { ...decision, action: approved ? 'allow' : 'deny', reason, answeredByUser };
+    }
+
+    await this.audit(tool, args, workspacePath, result);
+    return result;
+  }
+
+  private async audit(tool: string, args: Record<string, unknown>, workspacePath: string, decision: PolicyDecision & { answeredByUser: boolean }) {
+    const { command, paths } = describeToolCall(tool, args);
+    const entry = {
+      timestamp: new Date().toISOString(),
+      tool,
+      decision: decision.action,
+      answeredByUser: decision.answeredByUser,
+      reason: decision.reason,
+      workspace: workspacePath,
+      command,
+      paths
+    };
+
+    try {
+      await mkdir(dirname(AUDIT_LOG), { recursive: true });
+      await appendFile(AUDIT_LOG, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      this.log(`Failed to write audit log: ${error}`);
+    }
+  }
+}
@@ -1,32 +1,143 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import os from 'os';
+import { createInterface } from 'readline/promises';
 import { VSCodeController } from './vscode-controller.js';
+import { EDITOR_IDS } from './editor-profiles.js';
+import { describeError, exitCodeFor } from './errors.js';
+import { HelperConfig, ConfigKey, CONFIG_KEYS, loadConfig, parseConfigValue, writeConfigSetting, userConfigFile, findWorkspaceConfigFile, WORKSPACE_CONFIG_FILE } from './config.js';
+import { RemoteAuthority, describeRemote } from './workspaces.js';
+import { DEFAULT_COMMAND_TIMEOUT } from './command-runner.js';
+import { DirectorySummary, TreeNode, encodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, DEFAULT_TREE_DEPTH } from './workspace-files.js';
 
 const program = new Command();
 
-// Enable debug mode via environment variable or --debug flag
-const isDebug = process.env.VSCODE_MCP_DEBUG === 'true' || process.argv.includes('--debug');
-const vscode = new VSCodeController(isDebug);
+// Global flags are the top configuration layer; they are needed before commander runs, so they are read from argv directly
+const flags: Partial<HelperConfig> = {};
+if (process.argv.includes('--debug')) {
+  flags.debug = true;
+}
+const editorIndex = process.argv.findIndex(arg => arg === '--editor' || arg.startsWith('--editor='));
+if (editorIndex !== -1) {
+  const arg = process.argv[editorIndex];
+  flags.editor = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : process.argv[editorIndex + 1];
+}
+
+// Errors are reported as "Error: message", or as {"error": {code, message, ...}} on stdout with --json,
+// and exit with a status that depends on the error code
+function fail(error: unknown, json?: boolean): never {
+  if (json) {
+    console.log(JSON.stringify({ error: describeError(error) }, null, 2));
+  } else {
+    console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+  }
+  process.exit(exitCodeFor(error));
+}
+
+// Created on first use, so an invalid config file is reported by the command that needs it
+// and `config set` can still repair it
+let controller: VSCodeController | null = null;
+function vscode(): VSCodeController {
+  controller ??= new VSCodeController(loadConfig({ flags }).config);
+  return controller;
+}
+
+// Parse a range like "12", "12:5", "12-14" or "12:5-14:3" (1-based lines and columns)
+function parseRangeSpec(spec: string): { startLine: number; startColumn?: number; endLine?: number; endColumn?: number } {
+  const match = spec.match(/^(\d+)(?::(\d+))?(?:-(\d+)(?::(\d+))?)?$/);
+  if (!match) {
+    throw new Error(`Invalid range "${spec}". Expected LINE[:COL][-LINE[:COL]]`);
+  }
+  const [, startLine, startColumn, endLine, endColumn] = match;
+  return {
+    startLine: parseInt(startLine),
+    startColumn: startColumn ? parseInt(startColumn) : undefined,
+    endLine: endLine ? parseInt(endLine) : undefined,
+    endColumn: endColumn ? parseInt(endColumn) : undefined
+  };
+}
+
+// Read a file argument, with "-" meaning stdin
+async function readInput(path: string): Promise<string> {
+  if (path !== '-') {
+    return readFile(path, 'utf8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Counts are parsed strictly, so "1.5" or "10abc" fail instead of being cut short
+function parsePositiveInteger(value: string, name: string): number {
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseRevealMode(mode: string): 'center' | 'top' | 'inView' {
+  if (!['center', 'top', 'inView'].includes(mode)) {
+    throw new Error('Reveal mode must be "center", "top" or "inView"');
+  }
+  return mode as 'center' | 'top' | 'inView';
+}
+
+// Map --no-ignore / --no-exclude-settings onto the ignore engine's overrides
+function ignoreOverrides(options: { ignore?: boolean; excludeSettings?: boolean }): { useIgnoreFiles?: boolean; useExcludeSettings?: boolean } {
+  return { useIgnoreFiles: options.ignore, useExcludeSettings: options.excludeSettings };
+}
+
+function formatSize(size: number | null | undefined): string {
+  if (size === null || size === undefined) return '?';
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatSummary(summary: DirectorySummary): string {
+  const languages = summary.languages.map(entry => `${entry.language} ${entry.files}`).join(', ');
+  return `${summary.files} files${languages ? `: ${languages}` : ''}`;
+}
+
+function formatTree(node: TreeNode, indent: string = ''): string[] {
+  if (node.type === 'file') {
+    return [`${indent}${node.name}  ${formatSize(node.size)}`];
+  }
+  const lines = [`${indent}${node.name}/  (${formatSummary(node.summary!)})`];
+  for (const child of node.children ?? []) {
+    lines.push(...formatTree(child, indent + '  '));
+  }
+  return lines;
+}
 
 program
   .name('vscode-helper')
   .description('CLI helper for controlling VSCode from command line')
   .version('1.0.0')
-  .option('--debug', 'Enable debug output');
+  .option('--debug', 'Enable debug output')
+  .option('--editor <profile>', `Editor to control: ${EDITOR_IDS.join(', ')} or an id from editorProfiles (default: most recently used)`);
 
 program
   .command('open')
   .description('Open a file in VSCode')
   .argument('<file>', 'File path to open')
   .option('-l, --line <number>', 'Line number to jump to', parseInt)
+  .option('-c, --column <number>', 'Column on that line', parseInt)
+  .option('-d, --diff [ref]', 'Open the diff view against a git ref (default: HEAD)')
   .action(async (file, options) => {
     try {
-      const result = await vscode.openFile(file, options.line);
+      const result = await vscode().openFile(file, options.line, {
+        column: options.column,
+        diffAgainst: options.diff === true ? 'HEAD' : options.diff
+      });
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
     }
   });
 
@@ -37,26 +148,180 @@ program
   .option('-c, --content <content>', 'File content', '')
   .action(async (file, options) => {
     try {
-      const result = await vscode.createFile(file, options.content);
+      const result = await vscode().createFile(file, options.content);
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
+    }
+  });
+
+program
+  .command('edit')
+  .description('Apply edits atomically through VSCode buffers (or disk without the bridge extension)')
+  .argument('[file]', 'File to edit with --range/--text')
+  .option('--range <range>', 'Range to replace, LINE:COL[-LINE:COL] (end exclusive; omit it to insert)')
+  .option('--text <text>', 'Replacement text', '')
+  .option('--expect <text>', 'Fail unless the range currently contains this text')
+  .option('--patch <file>', 'Unified diff to apply ("-" for stdin)')
+  .option('--edits <file>', 'JSON list of {path, edits, diff} objects ("-" for stdin)')
+  .option('--save', 'Save edited buffers afterwards')
+  .option('--json', 'Output as JSON')
+  .action(async (file, options) => {
+    try {
+      const files = options.edits ? JSON.parse(await readInput(options.edits)) : [];
+      if (file) {
+        if (!options.range) {
+          throw new Error('Editing a single file requires --range');
+        }
+        const range = parseRangeSpec(options.range);
+        if (range.startColumn === undefined || (range.endLine !== undefined && range.endColumn === undefined)) {
+          throw new Error('Edit ranges need explicit columns, e.g. 12:5-14:1');
+        }
+        files.push({
+          path: file,
+          edits: [{
+            startLine: range.startLine,
+            startColumn: range.startColumn,
+            endLine: range.endLine ?? range.startLine,
+            endColumn: range.endColumn ?? range.startColumn,
+            newText: options.text,
+            expectedText: options.expect
+          }]
+        });
+      }
+
+      const patch = options.patch ? await readInput(options.patch) : undefined;
+      const result = await vscode().applyEdit(files, { patch, save: options.save });
+      if (options.json) {
+        console.log(JSON.stringify(result.applied, null, 2));
+      } else {
+        console.log(result.content[0].text);
+      }
+    } catch (error) {
+      fail(error, options.json);
     }
   });
 
 program
   .command('run')
-  .description('Run a command in terminal')
+  .description('Run a command, streaming its output and exiting with its status')
   .argument('<command>', 'Command to execute')
   .option('--cwd <dir>', 'Working directory')
+  .option('--timeout <ms>', 'Kill the command after this many milliseconds (0 disables)', parseInt)
+  .option('--max-output <chars>', 'Characters kept per stream in --json output', parseInt)
+  .option('--json', 'Output the result as JSON instead of streaming')
   .action(async (command, options) => {
     try {
-      const result = await vscode.runTerminalCommand(command, options.cwd);
+      const abort = new AbortController();
+      process.on('SIGINT', () => abort.abort());
+
+      const result = await vscode().runTerminalCommand(command, options.cwd, {
+        timeout: options.timeout,
+        maxOutput: options.maxOutput,
+        signal: abort.signal,
+        onOutput: options.json
+          ? undefined
+          : (stream, chunk) => (stream === 'stdout' ? process.stdout : process.stderr).write(chunk)
+      });
+
+      const { exitCode, signal, timedOut } = result.result;
+      if (options.json) {
+        console.log(JSON.stringify(result.result, null, 2));
+      } else if (timedOut) {
+        console.error(`Command timed out after ${options.timeout ?? DEFAULT_COMMAND_TIMEOUT}ms`);
+      } else if (signal) {
+        console.error(`Command killed by ${signal}`);
+      }
+      // Shells report signal deaths as 128 + signal number
+      process.exitCode = timedOut ? 124 : exitCode ?? 128 + (signal ? (os.constants.signals as Record<string, number>)[signal] ?? 0 : 0);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+const terminal = program
+  .command('terminal')
+  .description('Manage persistent VSCode terminal sessions (requires the bridge extension)');
+
+terminal
+  .command('create')
+  .description('Create a named terminal session')
+  .argument('<name>', 'Terminal name')
+  .option('--cwd <dir>', 'Working directory, relative to the active workspace')
+  .option('-c, --command <command>', 'Command to run instead of an interactive shell')
+  .option('--shell <shell>', 'Shell executable')
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    try {
+      const result = await vscode().terminalCreate(name, { cwd: options.cwd, command: options.command, shell: options.shell });
+      console.log(options.json ? JSON.stringify(result.terminal, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+terminal
+  .command('send')
+  .description('Send input to a terminal session')
+  .argument('<name>', 'Terminal name')
+  .argument('<input>', 'Text to send')
+  .option('--no-newline', 'Do not append a newline')
+  .action(async (name, input, options) => {
+    try {
+      const result = await vscode().terminalSend(name, input, options.newline);
+      console.log(result.content[0].text);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+terminal
+  .command('read')
+  .description('Print output of a terminal session')
+  .argument('<name>', 'Terminal name')
+  .option('--since <offset>', 'Only output after this offset', parseInt)
+  .option('--wait <ms>', 'Wait up to this long for the process to exit', parseInt)
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    try {
+      const result = await vscode().terminalRead(name, options.since, options.wait);
+      if (options.json) {
+        console.log(JSON.stringify(result.terminal, null, 2));
+      } else {
+        process.stdout.write(result.terminal.output);
+        if (!result.terminal.running && result.terminal.exitCode !== null) {
+          process.exitCode = result.terminal.exitCode;
+        }
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+terminal
+  .command('kill')
+  .description('Stop the process of a terminal session')
+  .argument('<name>', 'Terminal name')
+  .option('-s, --signal <signal>', 'Signal to send', 'SIGTERM')
+  .action(async (name, options) => {
+    try {
+      const result = await vscode().terminalKill(name, options.signal);
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
+    }
+  });
+
+terminal
+  .command('list')
+  .description('List terminal sessions')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const result = await vscode().terminalList();
+      console.log(options.json ? JSON.stringify(result.terminals, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
     }
   });
 
@@ -65,13 +330,46 @@ program
   .description('Search workspace')
   .argument('<query>', 'Search query')
   .option('-t, --type <type>', 'Search type: files or content', 'files')
+  .option('-e, --regex', 'Treat the query as a regular expression (content search)')
+  .option('-s, --case-sensitive', 'Match case (content search)')
+  .option('-i, --include <globs...>', 'Only search files matching these globs (content search)')
+  .option('-x, --exclude <globs...>', 'Skip files matching these globs (content search)')
+  .option('-C, --context <lines>', 'Lines of context around each match (content search)', parseInt)
+  .option('-m, --max-results <count>', 'Stop after this many matches (content search)', parseInt)
+  .option('--no-ignore', 'Include files matched by .gitignore')
+  .option('--no-exclude-settings', 'Include files hidden by files.exclude / search.exclude')
   .option('--json', 'Output as JSON')
   .action(async (query, options) => {
     try {
       if (!['files', 'content'].includes(options.type)) {
         throw new Error('Type must be "files" or "content"');
       }
-      const result = await vscode.searchWorkspace(query, options.type as 'files' | 'content');
+
+      if (options.type === 'content') {
+        const result = await vscode().searchContent(query, {
+          regex: options.regex,
+          caseSensitive: options.caseSensitive,
+          include: options.include,
+          exclude: options.exclude,
+          contextLines: options.context,
+          maxResults: options.maxResults
+        }, ignoreOverrides(options));
+
+        if (options.json) {
+          console.log(JSON.stringify(result.search, null, 2));
+        } else {
+          const { matches, truncated } = result.search;
+          console.log(`Found ${matches.length}${truncated ? '+' : ''} matches for "${query}":`);
+          for (const match of matches) {
+            match.before.forEach((text, i) => console.log(`${match.file}-${match.line - match.before.length + i}-${text}`));
+            console.log(`${match.file}:${match.line}:${match.column}:${match.preview}`);
+            match.after.forEach((text, i) => console.log(`${match.file}-${match.line + i + 1}-${text}`));
+          }
+        }
+        return;
+      }
+
+      const result = await vscode().searchWorkspace(query, 'files', ignoreOverrides(options));
       
       if (options.json) {
         const output = {
@@ -84,27 +382,202 @@ program
         console.log(result.content[0].text);
       }
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('find')
+  .description('Fuzzy-find a file and open it')
+  .argument('<query>', 'Fuzzy query, e.g. "srvts"')
+  .option('-l, --limit <count>', 'Maximum number of results', value => parseInt(value), 20)
+  .option('-o, --open', 'Open the best match without asking')
+  .option('--no-pick', 'Only list matches, never prompt')
+  .option('--no-ignore', 'Include files matched by .gitignore')
+  .option('--no-exclude-settings', 'Include files hidden by files.exclude / search.exclude')
+  .option('--json', 'Output as JSON')
+  .action(async (query, options) => {
+    try {
+      const result = await vscode().findFiles(query, options.limit, ignoreOverrides(options));
+
+      if (options.json) {
+        console.log(JSON.stringify(result.files, null, 2));
+        return;
+      }
+      if (result.files.length === 0) {
+        console.error(`No files matching "${query}"`);
+        process.exit(1);
+      }
+      if (options.open) {
+        console.log((await vscode().openFile(result.files[0].path)).content[0].text);
+        return;
+      }
+
+      result.files.forEach((file, i) => console.log(`${String(i + 1).padStart(3)}  ${file.path}`));
+      if (!options.pick || !process.stdin.isTTY || !process.stdout.isTTY) {
+        return;
+      }
+
+      const prompt = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = (await prompt.question(`Open which file? [1-${result.files.length}, Enter for 1, q to cancel] `)).trim();
+      prompt.close();
+      if (answer.toLowerCase() === 'q') {
+        return;
+      }
+
+      const choice = answer === '' ? 1 : parseInt(answer);
+      if (!(choice >= 1 && choice <= result.files.length)) {
+        throw new Error(`Invalid choice "${answer}"`);
+      }
+      console.log((await vscode().openFile(result.files[choice - 1].path)).content[0].text);
+    } catch (error) {
+      fail(error, options.json);
     }
   });
 
 program
   .command('files')
-  .description('List workspace files')
+  .description('List workspace files, page by page or as a tree')
+  .argument('[dir]', 'Only list files below this workspace directory')
+  .option('-t, --tree', 'Show a directory tree instead of a flat list')
+  .option('-d, --depth <levels>', `Tree depth (default: ${DEFAULT_TREE_DEPTH})`)
+  .option('-p, --page <number>', 'Page of the flat list to show', '1')
+  .option('--page-size <count>', `Files per page (capped at ${MAX_PAGE_SIZE})`, String(DEFAULT_PAGE_SIZE))
+  .option('--no-ignore', 'Include files matched by .gitignore')
+  .option('--no-exclude-settings', 'Include files hidden by files.exclude / search.exclude')
   .option('--json', 'Output as JSON')
-  .action(async (options) => {
+  .action(async (dir, options) => {
     try {
-      const result = await vscode.getWorkspaceFiles();
+      if (options.tree) {
+        const depth = options.depth === undefined ? undefined : parsePositiveInteger(options.depth, 'Depth');
+        const result = await vscode().getWorkspaceTree({ dir, depth, overrides: ignoreOverrides(options) });
+        console.log(options.json ? result.contents[0].text : formatTree(result.tree).join('\n'));
+        return;
+      }
+
+      const pageNumber = parsePositiveInteger(options.page, 'Page');
+      const pageSize = Math.min(parsePositiveInteger(options.pageSize, 'Page size'), MAX_PAGE_SIZE);
+      const cursor = pageNumber > 1 ? encodeCursor((pageNumber - 1) * pageSize) : undefined;
+      const result = await vscode().getWorkspaceFiles({ dir, cursor, pageSize, overrides: ignoreOverrides(options) });
       if (options.json) {
         console.log(result.contents[0].text); // Already JSON formatted
       } else {
-        const files = JSON.parse(result.contents[0].text);
-        console.log(`Workspace files (${files.length}):\n${files.map((f: any) => `  ${f.path}`).join('\n')}`);
+        const { page } = result;
+        const pages = Math.max(1, Math.ceil(page.total / pageSize));
+        console.log(`Workspace files${page.dir ? ` in ${page.dir}` : ''} (${page.total}, page ${pageNumber} of ${pages}; ${formatSummary(page.summary)}):`);
+        for (const file of page.files) {
+          console.log(`  ${file.path}  ${formatSize(file.size)}`);
+        }
+        if (page.nextCursor) {
+          console.log(`More: vscode-helper files${page.dir ? ` ${page.dir}` : ''} --page ${pageNumber + 1}`);
+        }
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('recent')
+  .description('List recently opened folders, workspaces and files, most recent first')
+  .option('-t, --type <kind>', 'Only show folder, workspace or file entries')
+  .option('-l, --limit <number>', 'Maximum entries to show', value => parseInt(value))
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      if (options.type && !['folder', 'workspace', 'file'].includes(options.type)) {
+        throw new Error(`Invalid type "${options.type}". Expected folder, workspace or file`);
+      }
+      const { state } = await vscode().getRecentlyOpened();
+      const recent = state.recent
+        .filter(entry => !options.type || entry.kind === options.type)
+        .slice(0, options.limit ?? Infinity);
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...state, recent }, null, 2));
+        return;
+      }
+
+      const describe = (entry: { uri: string | null; path: string | null; remote: RemoteAuthority | null }) =>
+        `${entry.path ?? entry.uri ?? '(empty window)'}${entry.remote ? `  [${describeRemote(entry.remote)}]` : ''}`;
+      if (state.lastActiveWindow) {
+        console.log(`Last active window: ${describe(state.lastActiveWindow)}`);
+      }
+      if (state.openedWindows.length > 0) {
+        console.log('Open windows:');
+        for (const window of state.openedWindows) {
+          console.log(`  ${describe(window)}`);
+        }
+      }
+      console.log(recent.length > 0 ? 'Recently opened:' : 'Nothing recently opened');
+      for (const entry of recent) {
+        console.log(`  ${entry.kind.padEnd(9)}  ${describe(entry)}`);
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Diagnose the environment and every workspace detection strategy')
+  .option('--json', 'Output the report as JSON, e.g. for bug reports')
+  .action(async (options) => {
+    try {
+      const result = await vscode().getDiagnostics();
+      console.log(options.json ? JSON.stringify(result.report, null, 2) : result.content[0].text);
+      if (result.report.summary.fail > 0) {
+        process.exit(1);
       }
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('selection')
+  .description('Show the current selections in the active VSCode editor')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const result = await vscode().getSelection();
+      if (options.json) {
+        console.log(JSON.stringify(result.selection, null, 2));
+      } else {
+        console.log(result.content[0].text);
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('set-selection')
+  .description('Open a file and select one or more ranges (LINE[:COL][-LINE[:COL]])')
+  .argument('<file>', 'File path, relative to the active workspace')
+  .argument('<ranges...>', 'Ranges to select')
+  .option('-r, --reveal <mode>', 'Reveal mode: center, top or inView', 'center')
+  .action(async (file, ranges: string[], options) => {
+    try {
+      const result = await vscode().setSelection(file, ranges.map(parseRangeSpec), parseRevealMode(options.reveal));
+      console.log(result.content[0].text);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('reveal-range')
+  .description('Scroll a range of a file into view (LINE[:COL][-LINE[:COL]])')
+  .argument('<file>', 'File path, relative to the active workspace')
+  .argument('<range>', 'Range to reveal')
+  .option('-r, --reveal <mode>', 'Reveal mode: center, top or inView', 'center')
+  .action(async (file, range, options) => {
+    try {
+      const result = await vscode().revealRange(file, parseRangeSpec(range), parseRevealMode(options.reveal));
+      console.log(result.content[0].text);
+    } catch (error) {
+      fail(error);
     }
   });
 
@@ -114,11 +587,10 @@ program
   .argument('<file>', 'File path to reveal')
   .action(async (file) => {
     try {
-      const result = await vscode.revealInExplorer(file);
+      const result = await vscode().revealInExplorer(file);
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
     }
   });
 
@@ -128,11 +600,10 @@ program
   .argument('<file>', 'File path to select')
   .action(async (file) => {
     try {
-      const result = await vscode.selectFileInExplorer(file);
+      const result = await vscode().selectFileInExplorer(file);
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
     }
   });
 
@@ -141,11 +612,10 @@ program
   .description('Focus VSCode file explorer')
   .action(async () => {
     try {
-      const result = await vscode.focusExplorer();
+      const result = await vscode().focusExplorer();
       console.log(result.content[0].text);
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error);
     }
   });
 
@@ -161,10 +631,9 @@ program
     try {
       // Handle workspace information queries first
       if (options.active) {
-        const result = await vscode.getActiveWorkspace();
+        const result = await vscode().getActiveWorkspace();
         if (options.json) {
-          const activeWorkspace = await vscode.getActiveVSCodeWorkspacePath();
-          console.log(JSON.stringify({ activeWorkspace }, null, 2));
+          console.log(JSON.stringify({ activeWorkspace: result.root, workspace: result.workspace }, null, 2));
         } else {
           console.log(result.content[0].text);
         }
@@ -172,7 +641,7 @@ program
       }
       
       if (options.list) {
-        const result = await vscode.getAllWorkspaces();
+        const result = await vscode().getAllWorkspaces();
         if (options.json) {
           console.log(JSON.stringify(result.workspaces, null, 2));
         } else {
@@ -183,7 +652,7 @@ program
 
       // Handle --get without action (show workspace info)
       if (options.get && !action) {
-        const result = await vscode.getWorkspaceInfo(options.get);
+        const result = await vscode().getWorkspaceInfo(options.get);
         if (options.json) {
           console.log(JSON.stringify(result.workspace, null, 2));
         } else {
@@ -199,12 +668,12 @@ program
 
       switch (action) {
         case 'open-terminal':
-          const terminalResult = await vscode.openTerminalInWorkspace(options.get);
+          const terminalResult = await vscode().openTerminalInWorkspace(options.get);
           console.log(terminalResult.content[0].text);
           break;
 
         case 'focus':
-          const focusResult = await vscode.focusWorkspace(options.get);
+          const focusResult = await vscode().focusWorkspace(options.get);
           console.log(focusResult.content[0].text);
           break;
         
@@ -217,8 +686,290 @@ program
           throw new Error(`Unknown action: ${action}. Available actions: open-terminal, focus, open-file`);
       }
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('problems')
+  .description('Show errors and warnings from the Problems panel, or from tsc and eslint without the bridge extension (with runProblemCommands)')
+  .argument('[file]', 'Only problems in this file or directory')
+  .option('-s, --severity <severity>', 'Minimum severity: error, warning, info or hint')
+  .option('--json', 'Output problems and the collectors that ran as JSON')
+  .action(async (file, options) => {
+    try {
+      const result = await vscode().getProblems({ file, severity: options.severity });
+      console.log(options.json ? JSON.stringify(result.problems, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('definition')
+  .description('Find where the symbol at a position is defined')
+  .argument('<file>', 'File containing the symbol')
+  .argument('<line>', 'Line (1-based)')
+  .argument('<column>', 'Column (1-based)')
+  .option('--json', 'Output the locations and where they came from as JSON')
+  .action(async (file, line, column, options) => {
+    try {
+      const result = await vscode().findDefinition(file, parseInt(line), parseInt(column));
+      console.log(options.json ? JSON.stringify({ source: result.source, locations: result.locations }, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('references')
+  .description('Find every use of the symbol at a position')
+  .argument('<file>', 'File containing the symbol')
+  .argument('<line>', 'Line (1-based)')
+  .argument('<column>', 'Column (1-based)')
+  .option('--no-declaration', 'Leave out the declaration itself')
+  .option('--json', 'Output the locations and where they came from as JSON')
+  .action(async (file, line, column, options) => {
+    try {
+      const result = await vscode().findReferences(file, parseInt(line), parseInt(column), options.declaration);
+      console.log(options.json ? JSON.stringify({ source: result.source, locations: result.locations }, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('symbols')
+  .description('List the symbols of a file')
+  .argument('<file>', 'File to list symbols of')
+  .option('--json', 'Output the symbols and where they came from as JSON')
+  .action(async (file, options) => {
+    try {
+      const result = await vscode().getDocumentSymbols(file);
+      console.log(options.json ? JSON.stringify({ source: result.source, symbols: result.symbols }, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('workspace-symbols')
+  .description('Find symbols anywhere in the workspace by name')
+  .argument('<query>', 'Symbol name or part of it')
+  .option('-n, --limit <count>', 'Maximum number of symbols', value => parseInt(value), 100)
+  .option('--json', 'Output the symbols and where they came from as JSON')
+  .action(async (query, options) => {
+    try {
+      const result = await vscode().findWorkspaceSymbols(query, options.limit);
+      console.log(options.json
+        ? JSON.stringify({ source: result.source, symbols: result.symbols, truncated: result.truncated }, null, 2)
+        : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+program
+  .command('diff')
+  .description("Open VSCode's diff view of two files, or of a file and proposed content")
+  .argument('<left>', 'Original file')
+  .argument('[right]', 'File to compare with')
+  .option('-p, --proposed <file>', 'Compare LEFT with proposed content read from a file ("-" for stdin)')
+  .option('-w, --wait', 'Wait until the diff view is closed, then remove temporary files')
+  .action(async (left, right, options) => {
+    try {
+      const proposedContent = options.proposed === undefined ? undefined : await readInput(options.proposed);
+      const result = await vscode().openDiff(left, right, { proposedContent, wait: options.wait });
+      console.log(result.content[0].text);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('merge')
+  .description("Open VSCode's three-way merge editor, by default for a file's git conflict")
+  .argument('<result>', 'File the merge result is written to')
+  .option('--ours <file>', 'Our version')
+  .option('--theirs <file>', 'Their version')
+  .option('--base <file>', 'Common ancestor')
+  .option('-w, --wait', 'Wait until the merge editor is closed')
+  .action(async (result, options) => {
+    try {
+      const merge = await vscode().openMerge(result, { ours: options.ours, theirs: options.theirs, base: options.base, wait: options.wait });
+      console.log(merge.content[0].text);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+const git = program
+  .command('git')
+  .description('Git status, diff, log and blame for the active workspace');
+
+git
+  .command('status')
+  .description('Show the branch and changed files')
+  .argument('[path]', 'Limit to this file or directory')
+  .option('--json', 'Output as JSON')
+  .action(async (path, options) => {
+    try {
+      const result = await vscode().gitStatus(path);
+      console.log(options.json ? JSON.stringify(result.status, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+git
+  .command('diff')
+  .description('Show changes: working tree by default, --staged, or between refs')
+  .argument('[from]', 'Compare against this ref')
+  .argument('[to]', 'With FROM, compare two refs')
+  .option('-s, --staged', 'Compare the index instead of the working tree')
+  .option('-p, --path <path>', 'Limit to this file or directory')
+  .option('-U, --context <lines>', 'Lines of context', value => parseInt(value))
+  .option('--json', 'Output changed files and the patch as JSON')
+  .action(async (from, to, options) => {
+    try {
+      const result = await vscode().gitDiff({ staged: options.staged, from, to, path: options.path, context: options.context });
+      console.log(options.json ? JSON.stringify(result.diff, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+git
+  .command('log')
+  .description('Show recent commits')
+  .argument('[ref]', 'Start from this ref instead of HEAD')
+  .option('-p, --path <path>', 'Only commits touching this file or directory')
+  .option('-n, --limit <count>', 'Maximum number of commits', value => parseInt(value), 20)
+  .option('--json', 'Output as JSON')
+  .action(async (ref, options) => {
+    try {
+      const result = await vscode().gitLog({ ref, path: options.path, limit: options.limit });
+      console.log(options.json ? JSON.stringify(result.commits, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+git
+  .command('blame')
+  .description('Show who last changed each line')
+  .argument('<file>', 'File to blame')
+  .argument('[range]', 'Lines, e.g. 10 or 10-20')
+  .option('-r, --ref <ref>', 'Blame the file as of this ref')
+  .option('--json', 'Output as JSON')
+  .action(async (file, range, options) => {
+    try {
+      const lines = range ? parseRangeSpec(range) : undefined;
+      const result = await vscode().gitBlame(file, { startLine: lines?.startLine, endLine: lines?.endLine ?? lines?.startLine, ref: options.ref });
+      console.log(options.json ? JSON.stringify(result.lines, null, 2) : result.content[0].text);
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+const config = program
+  .command('config')
+  .description(`Show or change settings (user file, workspace ${WORKSPACE_CONFIG_FILE}, environment, flags)`);
+
+function parseConfigKey(key: string): ConfigKey {
+  if (!CONFIG_KEYS.includes(key as ConfigKey)) {
+    throw new Error(`Unknown setting '${key}'. Known settings: ${CONFIG_KEYS.join(', ')}`);
+  }
+  return key as ConfigKey;
+}
+
+// --workspace writes the nearest workspace config, or creates one in the active workspace
+async function configFileFor(options: { workspace?: boolean }): Promise<{ file: string; scope: 'user' | 'workspace' }> {
+  if (!options.workspace) {
+    return { file: userConfigFile(), scope: 'user' };
+  }
+  const existing = findWorkspaceConfigFile();
+  if (existing) {
+    return { file: existing, scope: 'workspace' };
+  }
+  const { workspace, root } = await vscode().getActiveWorkspace();
+  if (workspace.remote) {
+    throw new Error(`The active workspace is remote (${describeRemote(workspace.remote)}); run this inside a local workspace`);
+  }
+  return { file: join(root, WORKSPACE_CONFIG_FILE), scope: 'workspace' };
+}
+
+config
+  .command('list')
+  .description('Show every setting with its value and where it came from')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    try {
+      const { config: values, sources, files } = loadConfig({ flags });
+      if (options.json) {
+        console.log(JSON.stringify({ config: values, sources, files }, null, 2));
+        return;
+      }
+      console.log(`User config: ${files.user}`);
+      console.log(`Workspace config: ${files.workspace ?? '(none)'}`);
+      for (const key of CONFIG_KEYS) {
+        console.log(`  ${key.padEnd(20)} ${JSON.stringify(values[key])}  (${sources[key]})`);
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+config
+  .command('get')
+  .description('Print the effective value of a setting')
+  .argument('<key>', `Setting: ${CONFIG_KEYS.join(', ')}`)
+  .option('--json', 'Output as JSON')
+  .action((key, options) => {
+    try {
+      const settingKey = parseConfigKey(key);
+      const { config: values, sources } = loadConfig({ flags });
+      if (options.json) {
+        console.log(JSON.stringify({ key: settingKey, value: values[settingKey], source: sources[settingKey] }, null, 2));
+      } else {
+        const value = values[settingKey];
+        console.log(Array.isArray(value) ? value.join('\n') : String(value));
+      }
+    } catch (error) {
+      fail(error, options.json);
+    }
+  });
+
+config
+  .command('set')
+  .description('Store a setting in the user config, or the workspace config with --workspace')
+  .argument('<key>', `Setting: ${CONFIG_KEYS.join(', ')}`)
+  .argument('<value>', 'Value; lists are comma-separated or a JSON array, "null" resets editor and windowManager to detection')
+  .option('-w, --workspace', `Write ${WORKSPACE_CONFIG_FILE} instead of the user config`)
+  .action(async (key, value, options) => {
+    try {
+      const settingKey = parseConfigKey(key);
+      const { file, scope } = await configFileFor(options);
+      writeConfigSetting(file, settingKey, parseConfigValue(settingKey, value), scope);
+      console.log(`Set ${settingKey} in ${file}`);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+config
+  .command('unset')
+  .description('Remove a setting from the user config, or the workspace config with --workspace')
+  .argument('<key>', `Setting: ${CONFIG_KEYS.join(', ')}`)
+  .option('-w, --workspace', `Change ${WORKSPACE_CONFIG_FILE} instead of the user config`)
+  .action(async (key, options) => {
+    try {
+      const settingKey = parseConfigKey(key);
+      const { file, scope } = await configFileFor(options);
+      writeConfigSetting(file, settingKey, undefined, scope);
+      console.log(`Removed ${settingKey} from ${file}`);
+    } catch (error) {
+      fail(error);
     }
   });
 
@@ -228,12 +979,12 @@ program
   .action(async () => {
     try {
       const { VSCodeMCPServer } = await import('./server.js');
-      const server = new VSCodeMCPServer();
+      const server = new VSCodeMCPServer(loadConfig({ flags }).config);
       console.log('Starting VSCode MCP server...');
       await server.run();
     } catch (error) {
       console.error('Server error:', error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
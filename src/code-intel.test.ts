@@ -0,0 +1,77 @@
+import { parseLspLocations, parseLspDocumentSymbols, parseLspSymbolInformation } from './code-intel';
+
+const range = (line: number, character: number, endLine: number, endCharacter: number) => ({
+  start: { line, character },
+  end: { line: endLine, character: endCharacter }
+});
+
+describe('parseLspLocations', () => {
+  it('reads a Location, Location[] and LocationLink[] with 1-based positions', () => {
+    const location = { uri: 'file:///work/src/a.ts', range: range(0, 4, 0, 9) };
+    expect(parseLspLocations(location)).toEqual([{ fileName: '/work/src/a.ts', range: { startLine: 1, startColumn: 5, endLine: 1, endColumn: 10 } }]);
+    expect(parseLspLocations([location, { ...location, uri: 'file:///work/src/my%20b.ts' }]).map(item => item.fileName)).toEqual(['/work/src/a.ts', '/work/src/my b.ts']);
+
+    // A link points at the whole declaration with targetRange and at its name with targetSelectionRange
+    const link = { originSelectionRange: range(9, 0, 9, 3), targetUri: 'file:///work/src/c.ts', targetRange: range(2, 0, 6, 1), targetSelectionRange: range(2, 9, 2, 12) };
+    expect(parseLspLocations([link])).toEqual([{ fileName: '/work/src/c.ts', range: { startLine: 3, startColumn: 10, endLine: 3, endColumn: 13 } }]);
+    const { targetSelectionRange: _name, ...withoutName } = link;
+    expect(parseLspLocations([withoutName])[0].range).toEqual({ startLine: 3, startColumn: 1, endLine: 7, endColumn: 2 });
+  });
+
+  it('drops locations that are not files and empty answers', () => {
+    expect(parseLspLocations([{ uri: 'untitled:Untitled-1', range: range(0, 0, 0, 0) }])).toEqual([]);
+    expect(parseLspLocations(null)).toEqual([]);
+    expect(parseLspLocations([])).toEqual([]);
+  });
+});
+
+describe('parseLspDocumentSymbols', () => {
+  it('flattens nested DocumentSymbols with their parent as container', () => {
+    const result = [{
+      name: 'Server',
+      kind: 5,
+      range: range(0, 0, 20, 1),
+      selectionRange: range(0, 13, 0, 19),
+      children: [
+        { name: 'start', kind: 6, detail: '(port: number): void', range: range(2, 2, 4, 3), selectionRange: range(2, 2, 2, 7) },
+        {
+          name: 'routes', kind: 7, range: range(6, 2, 9, 3), selectionRange: range(6, 2, 6, 8),
+          children: [{ name: 'health', kind: 14, range: range(7, 4, 7, 20), selectionRange: range(7, 4, 7, 10) }]
+        }
+      ]
+    }];
+    expect(parseLspDocumentSymbols(result, '/work/src/server.ts').map(({ name, kind, containerName, detail, location }) => ({
+      name, kind, containerName, detail, line: location.range.startLine, column: location.range.startColumn, file: location.fileName
+    }))).toEqual([
+      { name: 'Server', kind: 'class', containerName: null, detail: null, line: 1, column: 14, file: '/work/src/server.ts' },
+      { name: 'start', kind: 'method', containerName: 'Server', detail: '(port: number): void', line: 3, column: 3, file: '/work/src/server.ts' },
+      { name: 'routes', kind: 'property', containerName: 'Server', detail: null, line: 7, column: 3, file: '/work/src/server.ts' },
+      { name: 'health', kind: 'constant', containerName: 'routes', detail: null, line: 8, column: 5, file: '/work/src/server.ts' }
+    ]);
+  });
+
+  it('also reads the flat SymbolInformation form some servers answer with', () => {
+    const result = [{ name: 'main', kind: 12, location: { uri: 'file:///work/src/main.ts', range: range(4, 0, 8, 1) }, containerName: '' }];
+    expect(parseLspDocumentSymbols(result, '/work/src/main.ts')).toEqual([{
+      name: 'main', kind: 'function', containerName: null, detail: null,
+      location: { fileName: '/work/src/main.ts', range: { startLine: 5, startColumn: 1, endLine: 9, endColumn: 2 } }
+    }]);
+    expect(parseLspDocumentSymbols(null, '/work/src/main.ts')).toEqual([]);
+  });
+});
+
+describe('parseLspSymbolInformation', () => {
+  it('reads workspace symbols, including unresolved ones without a range', () => {
+    const result = [
+      { name: 'Config', kind: 11, location: { uri: 'file:///work/src/config.ts', range: range(9, 17, 9, 23) }, containerName: 'config' },
+      { name: 'load', kind: 12, location: { uri: 'file:///work/src/load.ts' } },
+      { name: 'remote', kind: 12, location: { uri: 'vscode-remote://ssh/x.ts', range: range(0, 0, 0, 1) } },
+      { name: 'odd', kind: 99, location: { uri: 'file:///work/src/odd.ts', range: range(0, 0, 0, 1) } }
+    ];
+    expect(parseLspSymbolInformation(result).map(({ name, kind, containerName, location }) => ({ name, kind, containerName, ...location }))).toEqual([
+      { name: 'Config', kind: 'interface', containerName: 'config', fileName: '/work/src/config.ts', range: { startLine: 10, startColumn: 18, endLine: 10, endColumn: 24 } },
+      { name: 'load', kind: 'function', containerName: null, fileName: '/work/src/load.ts', range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 } },
+      { name: 'odd', kind: 'unknown', containerName: null, fileName: '/work/src/odd.ts', range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 2 } }
+    ]);
+  });
+});
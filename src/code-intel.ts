@@ -0,0 +1,187 @@
+import { readFile } from 'fs/promises';
+import { isAbsolute, relative } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { glob } from 'fast-glob';
+import { EditorRange, BridgeLocation, BridgeSymbol } from './editor-bridge.js';
+import { LanguageServerClient } from './lsp-client.js';
+
+export type CodeIntelSource = 'bridge' | 'language-server';
+
+// A place to jump to: `file`, `line` and `column` go straight to openFile
+export interface CodeLocation {
+  // Absolute path
+  file: string;
+  line: number;
+  column: number;
+  range: Required<EditorRange>;
+  // The trimmed source line, when the file is inside the workspace
+  preview: string | null;
+}
+
+export interface CodeSymbol {
+  name: string;
+  kind: string;
+  containerName: string | null;
+  detail: string | null;
+  location: CodeLocation;
+}
+
+// LSP's SymbolKind numbering starts at 1; the names match VSCode's SymbolKind lower-cased
+export const SYMBOL_KINDS = [
+  'file', 'module', 'namespace', 'package', 'class', 'method', 'property', 'field', 'constructor', 'enum',
+  'interface', 'function', 'variable', 'constant', 'string', 'number', 'boolean', 'array', 'object', 'key',
+  'null', 'enummember', 'struct', 'event', 'operator', 'typeparameter'
+];
+
+// Files a TypeScript or JavaScript server needs one of open before it answers workspace/symbol
+const PROJECT_FILE_GLOBS = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mts', '**/*.cts', '**/*.mjs', '**/*.cjs'];
+
+interface LspPosition { line: number; character: number }
+interface LspRange { start: LspPosition; end: LspPosition }
+
+export function toCodeLocation({ fileName, range }: BridgeLocation): CodeLocation {
+  return { file: fileName, line: range.startLine, column: range.startColumn, range, preview: null };
+}
+
+export function toCodeSymbol(symbol: BridgeSymbol): CodeSymbol {
+  return { ...symbol, location: toCodeLocation(symbol.location) };
+}
+
+// LSP positions are 0-based
+function fromLspRange(range: LspRange): Required<EditorRange> {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1
+  };
+}
+
+// Only file: URIs can be opened by path
+function fromLspUri(uri: string): string | null {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : null;
+}
+
+// textDocument/definition answers with a Location, Location[] or LocationLink[]; references with Location[]
+export function parseLspLocations(result: any): BridgeLocation[] {
+  const items: any[] = Array.isArray(result) ? result : result ? [result] : [];
+  return items.flatMap(item => {
+    const [uri, range] = 'targetUri' in item
+      ? [item.targetUri, item.targetSelectionRange ?? item.targetRange]
+      : [item.uri, item.range];
+    const fileName = fromLspUri(uri);
+    return fileName ? [{ fileName, range: fromLspRange(range) }] : [];
+  });
+}
+
+function symbolKind(kind: number): string {
+  return SYMBOL_KINDS[kind - 1] ?? 'unknown';
+}
+
+// DocumentSymbol[] (nested, flattened here with their parent's name) or SymbolInformation[]
+export function parseLspDocumentSymbols(result: any, fileName: string): BridgeSymbol[] {
+  const flatten = (symbols: any[], containerName: string | null): BridgeSymbol[] => symbols.flatMap(symbol => [
+    {
+      name: symbol.name,
+      kind: symbolKind(symbol.kind),
+      containerName,
+      detail: symbol.detail || null,
+      location: { fileName, range: fromLspRange(symbol.selectionRange) }
+    },
+    ...flatten(symbol.children ?? [], symbol.name)
+  ]);
+  const symbols: any[] = Array.isArray(result) ? result : [];
+  return symbols.flatMap(symbol => 'location' in symbol ? parseLspSymbolInformation([symbol]) : flatten([symbol], null));
+}
+
+// SymbolInformation[] or WorkspaceSymbol[], whose location may lack a range until resolved
+export function parseLspSymbolInformation(result: any): BridgeSymbol[] {
+  const symbols: any[] = Array.isArray(result) ? result : [];
+  return symbols.flatMap(symbol => {
+    const fileName = fromLspUri(symbol.location.uri);
+    if (!fileName) {
+      return [];
+    }
+    const range = symbol.location.range
+      ? fromLspRange(symbol.location.range)
+      : { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 };
+    return [{
+      name: symbol.name,
+      kind: symbolKind(symbol.kind),
+      containerName: symbol.containerName || null,
+      detail: null,
+      location: { fileName, range }
+    }];
+  });
+}
+
+// Fills in the source line of each location inside the workspace root, reading every file once
+export async function addPreviews(locations: CodeLocation[], root: string): Promise<void> {
+  const files = new Map<string, Promise<string[] | null>>();
+  for (const location of locations) {
+    const relativePath = relative(root, location.file);
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      continue;
+    }
+    if (!files.has(location.file)) {
+      files.set(location.file, readFile(location.file, 'utf8').then(text => text.split(/\r?\n/), () => null));
+    }
+    const lines = await files.get(location.file)!;
+    location.preview = lines?.[location.line - 1]?.trim() ?? null;
+  }
+}
+
+// Answers lookups with a language server started in the workspace root, one server per lookup
+export class LanguageServerNavigator {
+  constructor(
+    private command: string[],
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  private async withServer<T>(root: string, lookup: (client: LanguageServerClient) => Promise<T>): Promise<T> {
+    const client = await LanguageServerClient.start(this.command, root, this.log);
+    try {
+      return await lookup(client);
+    } finally {
+      await client.stop();
+    }
+  }
+
+  private position(file: string, line: number, column: number) {
+    return { textDocument: { uri: pathToFileURL(file).href }, position: { line: line - 1, character: column - 1 } };
+  }
+
+  async definitions(root: string, file: string, line: number, column: number): Promise<BridgeLocation[]> {
+    return this.withServer(root, async client => {
+      await client.openDocument(file);
+      return parseLspLocations(await client.request('textDocument/definition', this.position(file, line, column)));
+    });
+  }
+
+  async references(root: string, file: string, line: number, column: number, includeDeclaration: boolean): Promise<BridgeLocation[]> {
+    return this.withServer(root, async client => {
+      await client.openDocument(file);
+      return parseLspLocations(await client.request('textDocument/references', {
+        ...this.position(file, line, column),
+        context: { includeDeclaration }
+      }));
+    });
+  }
+
+  async documentSymbols(root: string, file: string): Promise<BridgeSymbol[]> {
+    return this.withServer(root, async client => {
+      await client.openDocument(file);
+      return parseLspDocumentSymbols(await client.request('textDocument/documentSymbol', { textDocument: { uri: pathToFileURL(file).href } }), file);
+    });
+  }
+
+  async workspaceSymbols(root: string, query: string): Promise<BridgeSymbol[]> {
+    return this.withServer(root, async client => {
+      const [projectFile] = await glob(PROJECT_FILE_GLOBS, { cwd: root, absolute: true, ignore: ['**/node_modules/**'], deep: 4 });
+      if (projectFile) {
+        await client.openDocument(projectFile);
+      }
+      return parseLspSymbolInformation(await client.request('workspace/symbol', { query }));
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runShellCommand } from './command-runner';
+
+const cwd = tmpdir();
+
+describe('runShellCommand', () => {
+  it('reports output and a non-zero exit without rejecting', async () => {
+    const result = await runShellCommand('echo out; echo err >&2; exit 3', { cwd });
+    expect(result).toMatchObject({ stdout: 'out\n', stderr: 'err\n', exitCode: 3, signal: null, timedOut: false, truncated: false });
+  });
+
+  it('keeps the head and tail of long output', async () => {
+    const result = await runShellCommand('yes | head -c 300000; echo end', { cwd, maxOutput: 1000 });
+    expect(result.truncated).toBe(true);
+    expect(result.stdout).toMatch(/^(y\n){250}\n\.\.\. \[299004 characters truncated\] \.\.\.\n/);
+    expect(result.stdout.endsWith('y\n'.repeat(248) + 'end\n')).toBe(true);
+    expect(result.stderr).toBe('');
+  });
+
+  it('streams output as it arrives', async () => {
+    const chunks: string[] = [];
+    await runShellCommand('echo one; echo two >&2', { cwd, onOutput: (stream, chunk) => chunks.push(`${stream}:${chunk}`) });
+    expect(chunks.sort()).toEqual(['stderr:two\n', 'stdout:one\n']);
+  });
+
+  it('kills the whole process group on timeout', async () => {
+    // The background sleep holds the output pipe open, so the result only arrives once it is killed too
+    const result = await runShellCommand('sleep 5 & sleep 5', { cwd, timeout: 200 });
+    expect(result).toMatchObject({ exitCode: null, signal: 'SIGTERM', timedOut: true });
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it('kills the command when aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const result = await runShellCommand('sleep 5', { cwd, signal: controller.signal });
+    expect(result).toMatchObject({ signal: 'SIGTERM', timedOut: false });
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it('rejects when the command cannot be started', async () => {
+    await expect(runShellCommand('true', { cwd: join(cwd, 'vscode-helper-missing-dir') })).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
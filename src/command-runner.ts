@@ -0,0 +1,133 @@
+import { spawn } from 'child_process';
+
+export interface CommandResult {
+  command: string;
+  cwd: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+export interface CommandOptions {
+  cwd: string;
+  // Milliseconds before the command is killed; 0 disables the timeout
+  timeout?: number;
+  // Characters kept per stream; the middle of longer output is dropped
+  maxOutput?: number;
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+  // Aborting kills the command's process group
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_COMMAND_TIMEOUT = 120000;
+export const DEFAULT_MAX_OUTPUT = 100000;
+
+// Keeps the first and last half of a stream once it grows past its limit
+class OutputBuffer {
+  private head = '';
+  private tail = '';
+  private dropped = 0;
+
+  constructor(private limit: number) {}
+
+  append(chunk: string) {
+    const headLimit = Math.ceil(this.limit / 2);
+    if (this.head.length < headLimit) {
+      const take = chunk.slice(0, headLimit - this.head.length);
+      this.head += take;
+      chunk = chunk.slice(take.length);
+    }
+
+    this.tail += chunk;
+    const tailLimit = this.limit - headLimit;
+    if (this.tail.length > tailLimit) {
+      this.dropped += this.tail.length - tailLimit;
+      this.tail = this.tail.slice(this.tail.length - tailLimit);
+    }
+  }
+
+  get truncated(): boolean {
+    return this.dropped > 0;
+  }
+
+  toString(): string {
+    if (this.dropped === 0) {
+      return this.head + this.tail;
+    }
+    return `${this.head}\n... [${this.dropped} characters truncated] ...\n${this.tail}`;
+  }
+}
+
+// Run a shell command line, never rejecting on a non-zero exit so the status can be reported
+export function runShellCommand(command: string, options: CommandOptions): Promise<CommandResult> {
+  const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+  const maxOutput = options.maxOutput ?? DEFAULT_MAX_OUTPUT;
+  const stdout = new OutputBuffer(maxOutput);
+  const stderr = new OutputBuffer(maxOutput);
+  const startedAt = Date.now();
+
+  return new Promise((resolvePromise, rejectPromise) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: process.env,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so a timeout also stops anything the command started
+      detached: true
+    });
+
+    let timedOut = false;
+    const timer = timeout > 0 ? setTimeout(() => {
+      timedOut = true;
+      killGroup('SIGTERM');
+      setTimeout(() => killGroup('SIGKILL'), 2000).unref();
+    }, timeout) : null;
+
+    function killGroup(signal: NodeJS.Signals) {
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        // Already gone
+      }
+    }
+
+    const onAbort = () => killGroup('SIGTERM');
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout.append(chunk);
+      options.onOutput?.('stdout', chunk);
+    });
+    child.stderr.on('data', (chunk: string) => {
+      stderr.append(chunk);
+      options.onOutput?.('stderr', chunk);
+    });
+
+    child.on('error', (error) => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      rejectPromise(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolvePromise({
+        command,
+        cwd: options.cwd,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        exitCode,
+        signal,
+        timedOut,
+        truncated: stdout.truncated || stderr.truncated,
+        durationMs: Date.now() - startedAt
+      });
+    });
+  });
+}
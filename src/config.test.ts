@@ -0,0 +1,199 @@
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, validateConfig, writeConfigSetting, defaultConfig, parseConfigValue, WORKSPACE_CONFIG_FILE } from './config';
+
+// A user config under a temporary XDG_CONFIG_HOME and a workspace "proj" with a nested directory to start from
+let base: string;
+let env: NodeJS.ProcessEnv;
+let userFile: string;
+let workspaceFile: string;
+let cwd: string;
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(join(file, '..'), { recursive: true });
+  await writeFile(file, typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+beforeEach(async () => {
+  base = await mkdtemp(join(tmpdir(), 'vscode-helper-config-'));
+  env = { XDG_CONFIG_HOME: join(base, 'config') };
+  userFile = join(base, 'config', 'vscode-helper', 'config.json');
+  workspaceFile = join(base, 'proj', WORKSPACE_CONFIG_FILE);
+  cwd = join(base, 'proj', 'src', 'deep');
+  await mkdir(cwd, { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(base, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('uses the defaults without any config', () => {
+    const { config, sources, files } = loadConfig({ env, cwd });
+    expect(config).toEqual(defaultConfig());
+    expect(new Set(Object.values(sources))).toEqual(new Set(['default']));
+    expect(files).toEqual({ user: userFile, workspace: null });
+  });
+
+  it('layers the user config, the nearest workspace config, the environment and flags', async () => {
+    await writeJson(userFile, '{\n  // Comments are allowed\n  "cacheDuration": 1, "debug": true, "homeDir": "/home/me"\n}');
+    await writeJson(workspaceFile, { cacheDuration: 2, homeDir: '/home/other' });
+    expect(loadConfig({ env, cwd })).toMatchObject({
+      config: { cacheDuration: 2, debug: true, homeDir: '/home/other' },
+      sources: { cacheDuration: 'workspace', debug: 'user', homeDir: 'workspace', editor: 'default' },
+      files: { user: userFile, workspace: workspaceFile }
+    });
+
+    const { config, sources } = loadConfig({ env: { ...env, VSCODE_HELPER_CACHE_DURATION: '3' }, cwd, flags: { debug: false } });
+    expect(config).toMatchObject({ cacheDuration: 3, debug: false });
+    expect(sources).toMatchObject({ cacheDuration: 'env', debug: 'flag' });
+  });
+
+  it("adds every layer's deny patterns and excludes instead of replacing them", async () => {
+    await writeJson(userFile, { denyPatterns: ['secrets/**'], exclude: ['dist'] });
+    await writeJson(workspaceFile, { denyPatterns: [], exclude: ['dist', '*.log'] });
+    const { config, sources } = loadConfig({ env: { ...env, VSCODE_HELPER_DENY_PATTERNS: '*.pfx' }, cwd });
+    expect(config.denyPatterns).toEqual(['secrets/**', '*.pfx']);
+    expect(config.exclude).toEqual(['dist', '*.log']);
+    expect(sources).toMatchObject({ denyPatterns: 'env', exclude: 'workspace' });
+  });
+
+  it('does not read user-only settings from the workspace config', async () => {
+    await writeJson(workspaceFile, { allowedPaths: ['/'], runProblemCommands: true, debug: 'yes' });
+    expect(() => loadConfig({ env, cwd })).toThrow(expect.objectContaining({
+      code: 'invalid_config',
+      source: workspaceFile,
+      problems: [
+        expect.stringMatching(/^allowedPaths can only be set in the user config/),
+        expect.stringMatching(/^runProblemCommands can only be set in the user config/),
+        'debug must be true or false'
+      ]
+    }));
+  });
+
+  it('reports a file that is not JSON', async () => {
+    await writeJson(userFile, '{ "debug": ');
+    expect(() => loadConfig({ env, cwd })).toThrow(expect.objectContaining({ code: 'invalid_config', source: userFile }));
+  });
+});
+
+describe('environment lists', () => {
+  it('splits paths on the path separator and other lists on commas', () => {
+    const { config } = loadConfig({
+      env: {
+        ...env,
+        VSCODE_HELPER_ALLOWED_PATHS: '/opt/shared::/srv/data',
+        VSCODE_HELPER_EXCLUDE: 'dist, *.log,',
+        VSCODE_HELPER_WORKSPACE_INDICATORS: '["a,b", "c"]'
+      },
+      cwd
+    });
+    expect(config.allowedPaths).toEqual(['/opt/shared', '/srv/data']);
+    expect(config.exclude).toEqual(['dist', '*.log']);
+    expect(config.workspaceIndicators).toEqual(['a,b', 'c']);
+  });
+
+  it('reads VSCODE_MCP_DEBUG as enabled only for "true"', () => {
+    expect(loadConfig({ env: { ...env, VSCODE_MCP_DEBUG: 'true' }, cwd }).config.debug).toBe(true);
+    expect(loadConfig({ env: { ...env, VSCODE_MCP_DEBUG: '1' }, cwd }).config.debug).toBe(false);
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(() => loadConfig({ env: { ...env, VSCODE_HELPER_CACHE_DURATION: 'soon' }, cwd })).toThrow(expect.objectContaining({
+      source: 'the environment',
+      problems: ['cacheDuration must be a non-negative number']
+    }));
+  });
+});
+
+describe('validateConfig', () => {
+  it('lists every problem at once', () => {
+    expect(() => validateConfig({ debug: 1, editr: 'code', windowManager: 'gnome', exclude: ['', 'x'], editorProfiles: [{ id: 'x', path: '/x' }] }, 'test.json')).toThrow(expect.objectContaining({
+      code: 'invalid_config',
+      problems: [
+        'debug must be true or false',
+        expect.stringMatching(/^unknown setting 'editr' \(known settings: debug, editor, /),
+        expect.stringMatching(/^windowManager must be one of /),
+        'exclude must be an array of non-empty strings',
+        expect.stringMatching(/^editorProfiles\[0\] has unknown field 'path'/)
+      ]
+    }));
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => validateConfig([], 'test.json')).toThrow('Invalid configuration in test.json: expected a JSON object');
+  });
+
+  it('accepts null for settings that are detected', () => {
+    expect(validateConfig({ editor: null, windowManager: null }, 'test.json', 'workspace')).toEqual({ editor: null, windowManager: null });
+  });
+});
+
+describe('parseConfigValue', () => {
+  it('parses command line text by the type of the setting', () => {
+    expect(parseConfigValue('debug', 'true')).toBe(true);
+    expect(parseConfigValue('cacheDuration', '250')).toBe(250);
+    expect(parseConfigValue('editor', 'null')).toBeNull();
+    expect(parseConfigValue('exclude', 'a, b')).toEqual(['a', 'b']);
+    expect(parseConfigValue('editorProfiles', '[{"id":"x"}]')).toEqual([{ id: 'x' }]);
+  });
+});
+
+describe('editor', () => {
+  it('accepts built-in editors and profiles from the user config, in any case', async () => {
+    await writeJson(userFile, { editorProfiles: [{ id: 'code-portable', cli: '/opt/code/bin/code' }] });
+    await writeJson(workspaceFile, { editor: 'Code-Portable' });
+    expect(loadConfig({ env, cwd }).config.editor).toBe('Code-Portable');
+    expect(loadConfig({ env: { ...env, VSCODE_HELPER_EDITOR: 'cursor' }, cwd }).config.editor).toBe('cursor');
+  });
+
+  it('blames the layer that named an unknown editor', async () => {
+    await writeJson(workspaceFile, { editor: 'notepad' });
+    expect(() => loadConfig({ env, cwd })).toThrow(expect.objectContaining({
+      source: workspaceFile,
+      problems: [expect.stringMatching(/^editor must be one of code, insiders, vscodium, cursor/)]
+    }));
+    expect(() => loadConfig({ env, cwd, flags: { editor: 'vim' } })).toThrow(expect.objectContaining({ source: 'command line flags' }));
+  });
+
+  it('rejects profile ids that could never be selected', async () => {
+    await writeJson(userFile, { editor: 'mycode', editorProfiles: [{ id: 'MyCode' }] });
+    expect(() => loadConfig({ env, cwd })).toThrow(expect.objectContaining({
+      source: userFile,
+      problems: ['editorProfiles[0].id must be lowercase']
+    }));
+    expect(() => validateConfig({ editorProfiles: [{ id: 'mine', extends: 'Cursor' }] }, 'test.json')).toThrow('editorProfiles[0].extends must be lowercase');
+  });
+
+  it('blames the user config for a profile that extends an unknown editor', async () => {
+    await writeJson(userFile, { editorProfiles: [{ id: 'mine', extends: 'atom' }] });
+    expect(() => loadConfig({ env, cwd })).toThrow(expect.objectContaining({
+      source: userFile,
+      problems: [expect.stringContaining("Editor profile 'mine' extends unknown editor 'atom'")]
+    }));
+  });
+});
+
+describe('writeConfigSetting', () => {
+  it('creates the file and sets and removes settings', async () => {
+    writeConfigSetting(userFile, 'cacheDuration', 100);
+    writeConfigSetting(userFile, 'exclude', ['dist']);
+    expect(JSON.parse(await readFile(userFile, 'utf8'))).toEqual({ cacheDuration: 100, exclude: ['dist'] });
+    writeConfigSetting(userFile, 'cacheDuration', undefined);
+    expect(JSON.parse(await readFile(userFile, 'utf8'))).toEqual({ exclude: ['dist'] });
+  });
+
+  it('leaves the file alone when the result would be invalid', async () => {
+    await writeJson(workspaceFile, { debug: true });
+    expect(() => writeConfigSetting(workspaceFile, 'cacheDuration', -1, 'workspace')).toThrow('cacheDuration must be a non-negative number');
+    expect(() => writeConfigSetting(workspaceFile, 'languageServer', ['evil'], 'workspace')).toThrow('languageServer can only be set in the user config');
+    expect(JSON.parse(await readFile(workspaceFile, 'utf8'))).toEqual({ debug: true });
+  });
+
+  it('can remove the only bad setting of a file', async () => {
+    await writeJson(userFile, { debug: 'yes', editor: 'code' });
+    writeConfigSetting(userFile, 'debug', undefined);
+    expect(JSON.parse(await readFile(userFile, 'utf8'))).toEqual({ editor: 'code' });
+  });
+});
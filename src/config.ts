@@ -0,0 +1,342 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { parseJsonc } from './jsonc.js';
+import { HelperError } from './errors.js';
+import { EditorProfileSettings, EDITOR_PROFILE_FIELDS, getEditorProfiles } from './editor-profiles.js';
+import { WINDOW_MANAGER_NAMES } from './window-manager.js';
+import { parsePathList } from './path-policy.js';
+
+export interface HelperConfig {
+  debug: boolean;
+  // Editor profile id; null picks the most recently used editor
+  editor: string | null;
+  // Window manager backend; null detects it from the session
+  windowManager: string | null;
+  // Milliseconds the list of open workspaces is reused
+  cacheDuration: number;
+  // Files or directories that mark a project root when no editor window matches
+  workspaceIndicators: string[];
+  // Home directory, whose .vscode folder is not a workspace indicator by itself
+  homeDir: string;
+  // Directory globs searched for a workspace folder by name; ~ is the home directory
+  projectSearchPaths: string[];
+  // Globs hidden from listings, search and find in every workspace
+  exclude: string[];
+  // Directories outside the workspace tools may touch
+  allowedPaths: string[];
+  // Globs no tool may read or write, on top of the built-in ones
+  denyPatterns: string[];
+  // Command and arguments of the language server used when the editor bridge is not running
+  languageServer: string[];
+  // Editors beyond the built-in ones, or overrides for them
+  editorProfiles: EditorProfileSettings[];
+  // Run the workspace's own tsc and eslint for problems when the editor bridge is not running
+  runProblemCommands: boolean;
+}
+
+export type ConfigKey = keyof HelperConfig;
+export type ConfigSource = 'default' | 'user' | 'workspace' | 'env' | 'flag';
+
+interface SettingSpec {
+  type: 'boolean' | 'number' | 'string' | 'string[]' | 'profile[]';
+  description: string;
+  // Strings may be null, which means "detect"
+  nullable?: boolean;
+  values?: string[];
+  env?: string;
+  // Path lists in the environment use the PATH separator, other lists commas
+  envList?: 'path' | 'comma';
+  // Settings that widen what tools may touch or run cannot come from a workspace a cloned repository controls
+  userOnly?: boolean;
+  // Lists that narrow what tools see collect the entries of every layer, so a higher layer cannot drop any
+  additive?: boolean;
+}
+
+export const SETTINGS: Record<ConfigKey, SettingSpec> = {
+  debug: { type: 'boolean', description: 'Log detection steps and external commands', env: 'VSCODE_MCP_DEBUG' },
+  editor: { type: 'string', nullable: true, description: 'Editor to control', env: 'VSCODE_HELPER_EDITOR' },
+  windowManager: { type: 'string', nullable: true, values: WINDOW_MANAGER_NAMES, description: 'Window manager backend', env: 'VSCODE_HELPER_WINDOW_MANAGER' },
+  cacheDuration: { type: 'number', description: 'Milliseconds the list of open workspaces is reused', env: 'VSCODE_HELPER_CACHE_DURATION' },
+  workspaceIndicators: { type: 'string[]', description: 'Files that mark a project root', env: 'VSCODE_HELPER_WORKSPACE_INDICATORS', envList: 'comma' },
+  homeDir: { type: 'string', description: 'Home directory for ~ and workspace detection' },
+  projectSearchPaths: { type: 'string[]', description: 'Directory globs searched for a workspace by name' },
+  exclude: { type: 'string[]', description: 'Globs hidden from listings, search and find', env: 'VSCODE_HELPER_EXCLUDE', envList: 'comma', additive: true },
+  allowedPaths: { type: 'string[]', description: 'Directories outside the workspace tools may touch', env: 'VSCODE_HELPER_ALLOWED_PATHS', envList: 'path', userOnly: true },
+  denyPatterns: { type: 'string[]', description: 'Extra globs no tool may read or write', env: 'VSCODE_HELPER_DENY_PATTERNS', envList: 'comma', additive: true },
+  languageServer: { type: 'string[]', description: 'Language server command for code navigation without the bridge', userOnly: true },
+  editorProfiles: { type: 'profile[]', description: 'Editors with their own launcher, data and extensions directories', userOnly: true },
+  runProblemCommands: { type: 'boolean', description: "Run the workspace's tsc and eslint for problems without the bridge", env: 'VSCODE_HELPER_RUN_PROBLEM_COMMANDS', userOnly: true }
+};
+
+export const CONFIG_KEYS = Object.keys(SETTINGS) as ConfigKey[];
+
+export function defaultConfig(): HelperConfig {
+  return {
+    debug: false,
+    editor: null,
+    windowManager: null,
+    cacheDuration: 5000,
+    workspaceIndicators: ['.git', 'package.json', 'Cargo.toml', 'go.mod', 'pom.xml', 'pyproject.toml', '.vscode'],
+    homeDir: homedir(),
+    projectSearchPaths: ['~/projects/*/*', '~/projects/*', '~'],
+    exclude: [],
+    allowedPaths: [],
+    denyPatterns: [],
+    languageServer: ['typescript-language-server', '--stdio'],
+    editorProfiles: [],
+    runProblemCommands: false
+  };
+}
+
+// Next to the approval policy, in the project's .vscode folder
+export const WORKSPACE_CONFIG_FILE = join('.vscode', 'vscode-helper.json');
+
+export function userConfigFile(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'vscode-helper', 'config.json');
+}
+
+// The nearest .vscode/vscode-helper.json in the directory or its parents, skipping the one in the home directory
+export function findWorkspaceConfigFile(cwd: string = process.cwd()): string | null {
+  let dir = cwd;
+  while (true) {
+    const file = join(dir, WORKSPACE_CONFIG_FILE);
+    if (dir !== homedir() && existsSync(file)) {
+      return file;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+export class ConfigError extends HelperError {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid configuration in ${source}: ${problems.join('; ')}`, 'invalid_config', { source, problems });
+    this.name = 'ConfigError';
+  }
+}
+
+// Problem with one value, or null when it fits the setting
+function checkValue(key: ConfigKey, value: unknown): string | null {
+  const spec = SETTINGS[key];
+  if (value === null && spec.nullable) {
+    return null;
+  }
+  switch (spec.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${key} must be true or false`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : `${key} must be a non-negative number`;
+    case 'string':
+      if (typeof value !== 'string' || !value) {
+        return `${key} must be a non-empty string${spec.nullable ? ' or null' : ''}`;
+      }
+      return spec.values && !spec.values.includes(value) ? `${key} must be one of ${spec.values.join(', ')}` : null;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string' && item) ? null : `${key} must be an array of non-empty strings`;
+    case 'profile[]':
+      return Array.isArray(value) ? value.map((item, index) => checkProfile(key, item, index)).find(Boolean) ?? null : `${key} must be an array of objects`;
+  }
+}
+
+function checkProfile(key: ConfigKey, profile: unknown, index: number): string | null {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return `${key}[${index}] must be an object`;
+  }
+  for (const [field, value] of Object.entries(profile)) {
+    if (!EDITOR_PROFILE_FIELDS.includes(field)) {
+      return `${key}[${index}] has unknown field '${field}' (known fields: ${EDITOR_PROFILE_FIELDS.join(', ')})`;
+    }
+    const valid = field === 'appIds'
+      ? Array.isArray(value) && value.every(item => typeof item === 'string' && item)
+      : typeof value === 'string' && value;
+    if (!valid) {
+      return `${key}[${index}].${field} must be ${field === 'appIds' ? 'an array of non-empty strings' : 'a non-empty string'}`;
+    }
+    // Editor ids are matched in lowercase, so an id with capitals could never be selected
+    if ((field === 'id' || field === 'extends') && value !== (value as string).toLowerCase()) {
+      return `${key}[${index}].${field} must be lowercase`;
+    }
+  }
+  return 'id' in profile ? null : `${key}[${index}] needs an id`;
+}
+
+// Checks a parsed config file, collecting every problem so one run reports them all
+export function validateConfig(raw: unknown, source: string, scope: 'user' | 'workspace' = 'user'): Partial<HelperConfig> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(source, ['expected a JSON object']);
+  }
+  const problems: string[] = [];
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in SETTINGS)) {
+      problems.push(`unknown setting '${key}' (known settings: ${CONFIG_KEYS.join(', ')})`);
+      continue;
+    }
+    if (scope === 'workspace' && SETTINGS[key as ConfigKey].userOnly) {
+      problems.push(`${key} can only be set in the user config ${userConfigFile()}`);
+      continue;
+    }
+    const problem = checkValue(key as ConfigKey, value);
+    if (problem) {
+      problems.push(problem);
+    } else {
+      config[key] = value;
+    }
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+  return config as Partial<HelperConfig>;
+}
+
+function readRawConfigFile(file: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch {
+    // No config file is the same as an empty one
+    return {};
+  }
+  try {
+    return parseJsonc(text);
+  } catch (error) {
+    throw new ConfigError(file, [error instanceof Error ? error.message : 'Unknown error']);
+  }
+}
+
+export function readConfigFile(file: string, scope: 'user' | 'workspace' = 'user'): Partial<HelperConfig> {
+  return validateConfig(readRawConfigFile(file), file, scope);
+}
+
+// Settings from the environment; values are parsed like `config set` arguments
+function readEnv(env: NodeJS.ProcessEnv): Partial<HelperConfig> {
+  const raw: Record<string, unknown> = {};
+  for (const key of CONFIG_KEYS) {
+    const name = SETTINGS[key].env;
+    const value = name ? env[name] : undefined;
+    if (value === undefined || value === '') {
+      continue;
+    }
+    if (SETTINGS[key].envList === 'path') {
+      raw[key] = parsePathList(value);
+    } else if (key === 'debug') {
+      // VSCODE_MCP_DEBUG has only ever been enabled with "true"
+      raw[key] = value === 'true';
+    } else {
+      raw[key] = parseConfigValue(key, value);
+    }
+  }
+  return validateConfig(raw, 'the environment');
+}
+
+// Turn a command line string into a value of the setting's type
+export function parseConfigValue(key: ConfigKey, text: string): unknown {
+  const spec = SETTINGS[key];
+  if (spec.nullable && text === 'null') {
+    return null;
+  }
+  switch (spec.type) {
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : text;
+    case 'number':
+      return text.trim() && !Number.isNaN(Number(text)) ? Number(text) : text;
+    case 'string':
+      return text;
+    case 'profile[]':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    case 'string[]':
+      if (text.trim().startsWith('[')) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          return text;
+        }
+      }
+      return text.split(',').map(item => item.trim()).filter(Boolean);
+  }
+}
+
+export interface LoadedConfig {
+  config: HelperConfig;
+  // The layer each value came from
+  sources: Record<ConfigKey, ConfigSource>;
+  files: { user: string; workspace: string | null };
+}
+
+export interface LoadConfigOptions {
+  // Command line flags, the highest layer
+  flags?: Partial<HelperConfig>;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+// Built-in defaults, then the user config, the workspace config, environment variables and command line flags.
+// Each layer replaces a value, except for additive lists, which get the layer's entries added.
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const env = options.env ?? process.env;
+  const files = { user: userConfigFile(env), workspace: findWorkspaceConfigFile(options.cwd) };
+  const layers: Array<[ConfigSource, Partial<HelperConfig>]> = [
+    ['user', readConfigFile(files.user, 'user')],
+    ['workspace', files.workspace ? readConfigFile(files.workspace, 'workspace') : {}],
+    ['env', readEnv(env)],
+    ['flag', validateConfig(options.flags ?? {}, 'command line flags')]
+  ];
+
+  const config: Record<string, unknown> = { ...defaultConfig() };
+  const sources = Object.fromEntries(CONFIG_KEYS.map(key => [key, 'default'])) as Record<ConfigKey, ConfigSource>;
+  for (const [source, values] of layers) {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        config[key] = SETTINGS[key as ConfigKey].additive ? [...new Set([...config[key] as string[], ...value as string[]])] : value;
+        sources[key as ConfigKey] = source;
+      }
+    }
+  }
+  checkEditor(config as unknown as HelperConfig, sources, files);
+  return { config: config as unknown as HelperConfig, sources, files };
+}
+
+// The editor may name a profile from the user config, so it is checked once every layer is in
+function checkEditor(config: HelperConfig, sources: Record<ConfigKey, ConfigSource>, files: LoadedConfig['files']): void {
+  let ids: string[];
+  try {
+    ids = getEditorProfiles(config.editorProfiles).map(profile => profile.id);
+  } catch (error) {
+    throw new ConfigError(files.user, [error instanceof Error ? error.message : 'Unknown error']);
+  }
+  if (config.editor !== null && !ids.includes(config.editor.toLowerCase())) {
+    const source = { default: 'the defaults', user: files.user, workspace: files.workspace ?? 'the workspace config', env: 'the environment', flag: 'command line flags' }[sources.editor];
+    throw new ConfigError(source, [`editor must be one of ${ids.join(', ')}`]);
+  }
+}
+
+// Set (or with value undefined, remove) one setting in a config file. The file is validated after the change,
+// so fixing its only bad setting works; comments in the file are not preserved.
+export function writeConfigSetting(file: string, key: ConfigKey, value: unknown, scope: 'user' | 'workspace' = 'user'): void {
+  const current = readRawConfigFile(file);
+  if (!current || typeof current !== 'object' || Array.isArray(current)) {
+    throw new ConfigError(file, ['expected a JSON object']);
+  }
+  const raw = { ...current } as Record<string, unknown>;
+  if (value === undefined) {
+    delete raw[key];
+  } else {
+    raw[key] = value;
+  }
+  validateConfig(raw, file, scope);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(raw, null, 2) + '\n');
+}
+
+// ~ at the start of a search path means the configured home directory
+export function expandHome(path: string, home: string): string {
+  return path === '~' ? home : path.startsWith('~/') ? join(home, path.slice(2)) : path;
+}
@@ -0,0 +1,250 @@
+import { readFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ProcessRunner, ProcessExecError } from './process-exec.js';
+import { WorkspaceIgnore } from './ignore-engine.js';
+import { createGlobMatcher } from './glob-match.js';
+
+export interface ContentSearchOptions {
+  // Treat the query as a regular expression instead of a literal string
+  regex?: boolean;
+  caseSensitive?: boolean;
+  include?: string[];
+  exclude?: string[];
+  contextLines?: number;
+  maxResults?: number;
+}
+
+// Columns are 1-based character positions; end is exclusive
+export interface SearchSubmatch {
+  text: string;
+  startColumn: number;
+  endColumn: number;
+}
+
+export interface SearchMatch {
+  file: string;
+  line: number;
+  column: number;
+  preview: string;
+  submatches: SearchSubmatch[];
+  before: string[];
+  after: string[];
+}
+
+export interface ContentSearchResult {
+  query: string;
+  engine: 'ripgrep' | 'node';
+  matches: SearchMatch[];
+  // True when maxResults cut the search short
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_RESULTS = 500;
+const MAX_PREVIEW_LENGTH = 500;
+const NODE_MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+function trimLine(text: string): string {
+  const line = text.replace(/\r?\n?$/, '');
+  return line.length > MAX_PREVIEW_LENGTH ? line.slice(0, MAX_PREVIEW_LENGTH) + '…' : line;
+}
+
+// rg reports byte offsets; convert them to 1-based character columns
+function byteToColumn(line: string, byteOffset: number): number {
+  return Buffer.from(line, 'utf8').subarray(0, byteOffset).toString('utf8').length + 1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class ContentSearcher {
+  constructor(
+    private processes: ProcessRunner,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  async search(
+    root: string,
+    query: string,
+    options: ContentSearchOptions,
+    ignore: WorkspaceIgnore,
+    isDenied: (file: string) => boolean
+  ): Promise<ContentSearchResult> {
+    try {
+      return await this.searchWithRipgrep(root, query, options, ignore, isDenied);
+    } catch (error) {
+      if (!(error instanceof ProcessExecError) || error.spawnError !== 'ENOENT') {
+        throw error;
+      }
+      this.log('ripgrep not available, using built-in search');
+      return this.searchWithNode(root, query, options, ignore, isDenied);
+    }
+  }
+
+  private async searchWithRipgrep(
+    root: string,
+    query: string,
+    options: ContentSearchOptions,
+    ignore: WorkspaceIgnore,
+    isDenied: (file: string) => boolean
+  ): Promise<ContentSearchResult> {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const contextLines = options.contextLines ?? 0;
+    // ripgrep reads .gitignore files itself; exclude settings are passed as negated globs
+    const args = ['--json', '--hidden', options.caseSensitive ? '--case-sensitive' : '--ignore-case'];
+    if (!options.regex) {
+      args.push('--fixed-strings');
+    }
+    if (!ignore.useIgnoreFiles) {
+      args.push('--no-ignore');
+    }
+    for (const pattern of ignore.excludeGlobs('search')) {
+      args.push('--glob', `!${pattern}`);
+    }
+    for (const pattern of options.include ?? []) {
+      args.push('--glob', pattern);
+    }
+    for (const pattern of options.exclude ?? []) {
+      args.push('--glob', `!${pattern}`);
+    }
+    if (contextLines > 0) {
+      args.push('--context', String(contextLines));
+    }
+    args.push('-e', query, '.');
+
+    const matches: SearchMatch[] = [];
+    let truncated = false;
+    // Context lines seen since the last match of the current file
+    let pendingContext: Array<{ line: number; text: string }> = [];
+    let lastMatch: SearchMatch | null = null;
+
+    await this.processes.streamLines('rg', args, line => {
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return;
+      }
+
+      if (message.type === 'begin') {
+        pendingContext = [];
+        lastMatch = null;
+        return;
+      }
+      if (message.type !== 'match' && message.type !== 'context') {
+        return;
+      }
+
+      const data = message.data;
+      const text: string | undefined = data.lines?.text;
+      const file = (data.path?.text as string | undefined)?.replace(/^\.\//, '');
+      if (text === undefined || file === undefined) {
+        // Non-UTF-8 content is reported as base64 bytes; skip it
+        return;
+      }
+      if (isDenied(file) || ignore.isExcluded(file, 'search', sibling => existsSync(join(root, sibling)))) {
+        return;
+      }
+
+      if (message.type === 'context') {
+        const entry = { line: data.line_number as number, text: trimLine(text) };
+        if (lastMatch && entry.line <= lastMatch.line + contextLines) {
+          lastMatch.after.push(entry.text);
+        }
+        pendingContext.push(entry);
+        return;
+      }
+
+      if (matches.length >= maxResults) {
+        truncated = true;
+        return false;
+      }
+
+      const lineNumber = data.line_number as number;
+      const submatches: SearchSubmatch[] = (data.submatches as Array<{ match: { text?: string }; start: number; end: number }>).map(submatch => ({
+        text: submatch.match.text ?? '',
+        startColumn: byteToColumn(text, submatch.start),
+        endColumn: byteToColumn(text, submatch.end)
+      }));
+
+      const match: SearchMatch = {
+        file,
+        line: lineNumber,
+        column: submatches[0]?.startColumn ?? 1,
+        preview: trimLine(text),
+        submatches,
+        before: pendingContext.filter(entry => entry.line >= lineNumber - contextLines).map(entry => entry.text),
+        after: []
+      };
+      matches.push(match);
+      lastMatch = match;
+      pendingContext = [];
+    }, { cwd: root, timeout: 60000, allowedExitCodes: [1] });
+
+    return { query, engine: 'ripgrep', matches, truncated };
+  }
+
+  private async searchWithNode(
+    root: string,
+    query: string,
+    options: ContentSearchOptions,
+    ignore: WorkspaceIgnore,
+    isDenied: (file: string) => boolean
+  ): Promise<ContentSearchResult> {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const contextLines = options.contextLines ?? 0;
+    const pattern = new RegExp(options.regex ? query : escapeRegExp(query), options.caseSensitive ? 'g' : 'gi');
+    const isIncluded = options.include && options.include.length > 0 ? createGlobMatcher(options.include) : () => true;
+    const isExcluded = createGlobMatcher(options.exclude ?? []);
+
+    const { files } = await ignore.listFiles('search');
+    const matches: SearchMatch[] = [];
+    for (const file of files) {
+      if (isDenied(file) || !isIncluded(file) || isExcluded(file)) continue;
+
+      const absolutePath = join(root, file);
+      let content: string;
+      try {
+        if ((await stat(absolutePath)).size > NODE_MAX_FILE_SIZE) continue;
+        content = await readFile(absolutePath, 'utf8');
+      } catch {
+        continue;
+      }
+      if (content.includes('\0')) {
+        // Binary file
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (let index = 0; index < lines.length; index++) {
+        const text = lines[index].replace(/\r$/, '');
+        const submatches: SearchSubmatch[] = [];
+        pattern.lastIndex = 0;
+        let found: RegExpExecArray | null;
+        while ((found = pattern.exec(text)) !== null) {
+          submatches.push({ text: found[0], startColumn: found.index + 1, endColumn: found.index + found[0].length + 1 });
+          if (found[0].length === 0) {
+            pattern.lastIndex++;
+          }
+        }
+        if (submatches.length === 0) continue;
+
+        if (matches.length >= maxResults) {
+          return { query, engine: 'node', matches, truncated: true };
+        }
+        matches.push({
+          file,
+          line: index + 1,
+          column: submatches[0].startColumn,
+          preview: trimLine(text),
+          submatches,
+          before: lines.slice(Math.max(0, index - contextLines), index).map(trimLine),
+          after: contextLines > 0 ? lines.slice(index + 1, index + 1 + contextLines).map(trimLine) : []
+        });
+      }
+    }
+
+    return { query, engine: 'node', matches, truncated: false };
+  }
+}
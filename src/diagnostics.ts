@@ -0,0 +1,86 @@
+import { ProcessRunner, ExternalToolMissingError } from './process-exec.js';
+
+export type CheckStatus = 'ok' | 'info' | 'warn' | 'fail';
+
+export interface DiagnosticCheck {
+  status: CheckStatus;
+  name: string;
+  detail: string;
+  // What to do about a warning or failure
+  fix?: string;
+}
+
+export interface DiagnosticSection {
+  title: string;
+  checks: DiagnosticCheck[];
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  sections: DiagnosticSection[];
+  summary: Record<CheckStatus, number>;
+}
+
+export interface ToolRequirement {
+  tool: string;
+  // Cheap invocation that proves the tool runs, e.g. ['--version']
+  args: string[];
+  purpose: string;
+  // Missing optional tools only degrade a feature
+  optional?: boolean;
+  fix: string;
+  allowedExitCodes?: number[];
+}
+
+export async function checkTool(processes: ProcessRunner, requirement: ToolRequirement): Promise<DiagnosticCheck> {
+  const name = requirement.tool;
+  try {
+    const { stdout, stderr } = await processes.run(requirement.tool, requirement.args, {
+      timeout: 5000,
+      allowedExitCodes: requirement.allowedExitCodes
+    });
+    const version = (stdout.trim() || stderr.trim()).split('\n')[0];
+    return { status: 'ok', name, detail: `${version || 'installed'} (${requirement.purpose})` };
+  } catch (error) {
+    if (error instanceof ExternalToolMissingError) {
+      return {
+        status: requirement.optional ? 'warn' : 'fail',
+        name,
+        detail: `not installed or not on PATH (${requirement.purpose})`,
+        fix: requirement.fix
+      };
+    }
+    // Installed but unusable, e.g. wmctrl without an X display
+    return {
+      status: 'warn',
+      name,
+      detail: `installed, but \`${[requirement.tool, ...requirement.args].join(' ')}\` failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      fix: requirement.fix
+    };
+  }
+}
+
+export function createReport(sections: DiagnosticSection[]): DiagnosticsReport {
+  const summary: Record<CheckStatus, number> = { ok: 0, info: 0, warn: 0, fail: 0 };
+  for (const check of sections.flatMap(section => section.checks)) {
+    summary[check.status]++;
+  }
+  return { generatedAt: new Date().toISOString(), sections, summary };
+}
+
+export function formatDiagnostics(report: DiagnosticsReport): string {
+  const lines: string[] = [];
+  for (const section of report.sections) {
+    lines.push(section.title);
+    for (const check of section.checks) {
+      lines.push(`  ${check.status.padEnd(4)}  ${check.name}: ${check.detail}`);
+      if (check.fix) {
+        lines.push(`        Fix: ${check.fix}`);
+      }
+    }
+    lines.push('');
+  }
+  const { ok, info, warn, fail } = report.summary;
+  lines.push(`${ok} ok, ${warn} warnings, ${fail} failures, ${info} notes`);
+  return lines.join('\n');
+}
@@ -0,0 +1,340 @@
+import { createConnection } from 'net';
+import { readdir, readFile, unlink, lstat } from 'fs/promises';
+import { join, sep } from 'path';
+import { tmpdir } from 'os';
+import { EditorUnavailableError, TimeoutError } from './errors.js';
+
+// Must match the directory used by the companion extension (extension/src/extension.ts)
+export const BRIDGE_DIR = join(process.env.XDG_RUNTIME_DIR || tmpdir(), 'vscode-helper');
+
+// Registry entries are only trusted from a directory no other user can have written to: a real directory, ours,
+// mode 0700. The extension refuses to start otherwise; see ensurePrivateDir in extension/src/extension.ts.
+export async function checkBridgeDir(dir: string = BRIDGE_DIR): Promise<string | null> {
+  const stats = await lstat(dir);
+  const uid = process.getuid?.();
+  if (stats.isSymbolicLink() || !stats.isDirectory()) {
+    return `${dir} is not a directory`;
+  }
+  if (uid !== undefined && stats.uid !== uid) {
+    return `${dir} is owned by another user (uid ${stats.uid})`;
+  }
+  if (process.platform !== 'win32' && (stats.mode & 0o777) !== 0o700) {
+    return `${dir} has mode ${(stats.mode & 0o777).toString(8)} instead of 700`;
+  }
+  return null;
+}
+
+export interface BridgeWindow {
+  pid: number;
+  socketPath: string;
+  workspaceFolders: string[];
+  focused: boolean;
+  lastFocused: number;
+}
+
+export interface ActiveEditorInfo {
+  uri: string;
+  fileName: string;
+  languageId: string;
+  isDirty: boolean;
+  isUntitled: boolean;
+  lineCount: number;
+  text: string;
+}
+
+// Lines and columns are 1-based on the wire, matching `code --goto`
+export interface EditorRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  // Omitted means the end of endLine
+  endColumn?: number;
+}
+
+export interface EditorSelection extends EditorRange {
+  endColumn: number;
+  isEmpty: boolean;
+  isReversed: boolean;
+  text: string;
+}
+
+export interface EditorSelectionInfo {
+  uri: string;
+  fileName: string;
+  selections: EditorSelection[];
+}
+
+export interface BridgeDocument {
+  text: string;
+  version: number;
+  isDirty: boolean;
+}
+
+export interface BridgeFileEdit {
+  fileName: string;
+  // Document version the edits were computed against, null when computed from disk
+  version: number | null;
+  create: boolean;
+  edits: Array<{ start: number; end: number; newText: string }>;
+}
+
+export interface TerminalSnapshot {
+  name: string;
+  pid?: number;
+  running: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  output: string;
+  // Pass back as `since` to read only newer output
+  offset: number;
+  // True when output older than `since` was dropped from the session buffer
+  truncated: boolean;
+}
+
+// An entry of VSCode's Problems panel
+export interface BridgeDiagnostic {
+  fileName: string;
+  range: Required<EditorRange>;
+  severity: 'error' | 'warning' | 'info' | 'hint';
+  source: string | null;
+  code: string | null;
+  message: string;
+}
+
+// A place in a file from a language provider, e.g. a definition or reference
+export interface BridgeLocation {
+  fileName: string;
+  range: Required<EditorRange>;
+}
+
+// A symbol from a document or workspace symbol provider; nested document symbols are flattened
+export interface BridgeSymbol {
+  name: string;
+  // Lower-case SymbolKind name, e.g. 'function' or 'class'
+  kind: string;
+  containerName: string | null;
+  detail: string | null;
+  location: BridgeLocation;
+}
+
+export type RevealMode = 'center' | 'top' | 'inView';
+
+export class EditorBridge {
+  private readonly REQUEST_TIMEOUT = 3000;
+  // Language providers may have to load the project first
+  private readonly LANGUAGE_TIMEOUT = 15000;
+  private nextId = 1;
+
+  constructor(private log: (message: string, ...args: any[]) => void = () => {}) {}
+
+  // List the VSCode windows that currently have the companion extension running
+  async listWindows(): Promise<BridgeWindow[]> {
+    let entries: string[];
+    try {
+      const problem = await checkBridgeDir();
+      if (problem) {
+        this.log(`Ignoring editor bridge registrations: ${problem}`);
+        return [];
+      }
+      entries = await readdir(BRIDGE_DIR);
+    } catch {
+      return [];
+    }
+
+    const windows: BridgeWindow[] = [];
+    for (const entry of entries.filter(e => e.endsWith('.json'))) {
+      const registryFile = join(BRIDGE_DIR, entry);
+      try {
+        const window: BridgeWindow = JSON.parse(await readFile(registryFile, 'utf8'));
+        if (this.isProcessAlive(window.pid)) {
+          windows.push(window);
+        } else {
+          // Window exited without cleaning up after itself
+          this.log(`Removing stale bridge registration: ${registryFile}`);
+          await unlink(registryFile).catch(() => {});
+          await unlink(window.socketPath).catch(() => {});
+        }
+      } catch {
+        // Partially written or invalid registry file
+      }
+    }
+
+    return windows.sort((a, b) => b.lastFocused - a.lastFocused);
+  }
+
+  // Pick the window serving the given workspace; without one, the most recently focused window. A workspace that no
+  // window has open gets no window, so edits and commands never land in an unrelated workspace.
+  async findWindow(workspacePath?: string): Promise<BridgeWindow | null> {
+    const windows = await this.listWindows();
+    if (windows.length === 0) {
+      this.log('No editor bridge windows registered');
+      return null;
+    }
+
+    if (workspacePath) {
+      const match = windows.find(w => w.workspaceFolders.some(folder =>
+        workspacePath === folder || workspacePath.startsWith(folder + sep)
+      ));
+      if (match) {
+        this.log(`Using editor bridge of window ${match.pid} for ${workspacePath}`);
+        return match;
+      }
+      this.log(`No editor bridge window has ${workspacePath} open`);
+      return null;
+    }
+
+    this.log(`Using most recently focused editor bridge window ${windows[0].pid}`);
+    return windows[0];
+  }
+
+  async isAvailable(workspacePath?: string): Promise<boolean> {
+    return (await this.findWindow(workspacePath)) !== null;
+  }
+
+  async request<T = unknown>(
+    method: string,
+    params: Record<string, unknown> = {},
+    workspacePath?: string,
+    timeout: number = this.REQUEST_TIMEOUT
+  ): Promise<T> {
+    const window = await this.findWindow(workspacePath);
+    if (!window) {
+      throw new EditorUnavailableError(workspacePath && (await this.listWindows()).length > 0
+        ? `No VSCode window with the editor bridge has ${workspacePath} open.`
+        : 'VSCode editor bridge is not available. Install and enable the vscode-helper-bridge extension.');
+    }
+    return this.send<T>(window.socketPath, method, params, timeout);
+  }
+
+  async getActiveEditor(workspacePath?: string): Promise<ActiveEditorInfo | null> {
+    return this.request<ActiveEditorInfo | null>('editor.getActive', {}, workspacePath);
+  }
+
+  async getSelections(workspacePath?: string): Promise<EditorSelectionInfo | null> {
+    return this.request<EditorSelectionInfo | null>('editor.getSelections', {}, workspacePath);
+  }
+
+  async setSelections(fileName: string, selections: EditorRange[], reveal: RevealMode, workspacePath?: string): Promise<EditorSelectionInfo> {
+    return this.request<EditorSelectionInfo>('editor.setSelections', { fileName, selections, reveal }, workspacePath);
+  }
+
+  async revealRange(fileName: string, range: EditorRange, reveal: RevealMode, workspacePath?: string): Promise<void> {
+    await this.request('editor.revealRange', { fileName, range, reveal }, workspacePath);
+  }
+
+  // Returns the open buffer for a file, or null when VSCode does not have it loaded
+  async readDocument(fileName: string, workspacePath?: string): Promise<BridgeDocument | null> {
+    return this.request<BridgeDocument | null>('workspace.readDocument', { fileName }, workspacePath);
+  }
+
+  async applyEdit(files: BridgeFileEdit[], save: boolean, workspacePath?: string): Promise<void> {
+    await this.request('workspace.applyEdit', { files, save }, workspacePath);
+  }
+
+  // Everything the Problems panel of the window shows, from every language extension
+  async getDiagnostics(workspacePath?: string): Promise<BridgeDiagnostic[]> {
+    return this.request<BridgeDiagnostic[]>('workspace.getDiagnostics', {}, workspacePath);
+  }
+
+  async getDefinitions(fileName: string, line: number, column: number, workspacePath?: string): Promise<BridgeLocation[]> {
+    return this.request<BridgeLocation[]>('language.definition', { fileName, line, column }, workspacePath, this.LANGUAGE_TIMEOUT);
+  }
+
+  async getReferences(fileName: string, line: number, column: number, includeDeclaration: boolean, workspacePath?: string): Promise<BridgeLocation[]> {
+    return this.request<BridgeLocation[]>('language.references', { fileName, line, column, includeDeclaration }, workspacePath, this.LANGUAGE_TIMEOUT);
+  }
+
+  async getDocumentSymbols(fileName: string, workspacePath?: string): Promise<BridgeSymbol[]> {
+    return this.request<BridgeSymbol[]>('language.documentSymbols', { fileName }, workspacePath, this.LANGUAGE_TIMEOUT);
+  }
+
+  async getWorkspaceSymbols(query: string, workspacePath?: string): Promise<BridgeSymbol[]> {
+    return this.request<BridgeSymbol[]>('language.workspaceSymbols', { query }, workspacePath, this.LANGUAGE_TIMEOUT);
+  }
+
+  async createTerminal(params: { name: string; cwd: string; command?: string; shell?: string }, workspacePath?: string): Promise<TerminalSnapshot> {
+    return this.request<TerminalSnapshot>('terminal.create', params, workspacePath);
+  }
+
+  async sendToTerminal(name: string, input: string, newline: boolean, workspacePath?: string): Promise<TerminalSnapshot> {
+    return this.request<TerminalSnapshot>('terminal.send', { name, input, newline }, workspacePath);
+  }
+
+  async readTerminal(name: string, since?: number, wait?: number, workspacePath?: string): Promise<TerminalSnapshot> {
+    // Waiting for exit happens inside VSCode, so the socket must stay open a bit longer than that
+    return this.request<TerminalSnapshot>('terminal.read', { name, since, wait }, workspacePath, (wait ?? 0) + this.REQUEST_TIMEOUT);
+  }
+
+  async killTerminal(name: string, signal?: string, workspacePath?: string): Promise<TerminalSnapshot> {
+    return this.request<TerminalSnapshot>('terminal.kill', { name, signal }, workspacePath);
+  }
+
+  async listTerminals(workspacePath?: string): Promise<TerminalSnapshot[]> {
+    return this.request<TerminalSnapshot[]>('terminal.list', {}, workspacePath);
+  }
+
+  // Show a modal in VSCode and wait for the user's answer
+  async confirm(message: string, detail: string, timeout: number, workspacePath?: string): Promise<boolean> {
+    return this.request<boolean>('window.confirm', { message, detail }, workspacePath, timeout);
+  }
+
+  private send<T>(socketPath: string, method: string, params: Record<string, unknown>, timeout: number): Promise<T> {
+    const id = this.nextId++;
+    this.log(`Bridge request #${id}: ${method}`);
+
+    return new Promise<T>((resolvePromise, rejectPromise) => {
+      const socket = createConnection(socketPath);
+      let buffer = '';
+      let settled = false;
+
+      const finish = (error: Error | null, result?: T) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        socket.destroy();
+        if (error) {
+          rejectPromise(error);
+        } else {
+          resolvePromise(result as T);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        finish(new TimeoutError(`Editor bridge request '${method}'`, timeout));
+      }, timeout);
+
+      socket.setEncoding('utf8');
+      socket.on('connect', () => {
+        socket.write(JSON.stringify({ id, method, params }) + '\n');
+      });
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) return;
+
+        try {
+          const response = JSON.parse(buffer.slice(0, newline));
+          if (response.error) {
+            finish(new Error(response.error.message || 'Editor bridge error'));
+          } else {
+            finish(null, response.result);
+          }
+        } catch {
+          finish(new Error('Invalid response from editor bridge'));
+        }
+      });
+      socket.on('error', (error) => finish(new Error(`Editor bridge connection failed: ${error.message}`)));
+      socket.on('close', () => finish(new Error('Editor bridge closed the connection')));
+    });
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to someone else
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
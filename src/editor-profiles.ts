@@ -0,0 +1,133 @@
+import { statSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+
+// Everything that differs between VSCode builds and forks
+export interface EditorProfile {
+  id: string;
+  // Application name as it appears at the end of window titles
+  displayName: string;
+  // Command line launcher
+  cli: string;
+  // Directory holding User/, e.g. ~/.config/Code
+  userDataDir: string;
+  // Installed extensions, e.g. ~/.vscode/extensions
+  extensionsDir: string;
+  // WM_CLASS as printed by `wmctrl -l -x` (instance.Class)
+  windowClass: string;
+  // Wayland app ids, compared case-insensitively; XWayland windows report their X11 class instead
+  appIds: string[];
+}
+
+// A profile from the user config: a new editor based on a built-in one (`extends`, default 'code'), or, with a
+// built-in id, overrides for that editor such as the path of a portable install's launcher
+export interface EditorProfileSettings {
+  id: string;
+  extends?: string;
+  displayName?: string;
+  cli?: string;
+  userDataDir?: string;
+  extensionsDir?: string;
+  windowClass?: string;
+  appIds?: string[];
+}
+
+// Per-build directory names under the platform's config directory and in the home directory
+const BUILTIN_PROFILES: Array<Omit<EditorProfile, 'userDataDir' | 'extensionsDir'> & { dataDirName: string; homeDirName: string }> = [
+  { id: 'code', displayName: 'Visual Studio Code', cli: 'code', dataDirName: 'Code', homeDirName: '.vscode', windowClass: 'code.Code', appIds: ['code', 'code-url-handler'] },
+  { id: 'insiders', displayName: 'Visual Studio Code - Insiders', cli: 'code-insiders', dataDirName: 'Code - Insiders', homeDirName: '.vscode-insiders', windowClass: 'code - insiders.Code - Insiders', appIds: ['code-insiders', 'code - insiders', 'code-insiders-url-handler'] },
+  { id: 'vscodium', displayName: 'VSCodium', cli: 'codium', dataDirName: 'VSCodium', homeDirName: '.vscode-oss', windowClass: 'vscodium.VSCodium', appIds: ['codium', 'vscodium', 'codium-url-handler'] },
+  { id: 'cursor', displayName: 'Cursor', cli: 'cursor', dataDirName: 'Cursor', homeDirName: '.cursor', windowClass: 'cursor.Cursor', appIds: ['cursor', 'cursor-url-handler'] }
+];
+
+export const EDITOR_IDS = BUILTIN_PROFILES.map(profile => profile.id);
+
+export const EDITOR_PROFILE_FIELDS = ['id', 'extends', 'displayName', 'cli', 'userDataDir', 'extensionsDir', 'windowClass', 'appIds'];
+
+function configHome(): string {
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Application Support');
+  }
+  if (process.platform === 'win32') {
+    return process.env.APPDATA || join(homedir(), 'AppData', 'Roaming');
+  }
+  return process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+}
+
+export function userDir(profile: EditorProfile): string {
+  return join(profile.userDataDir, 'User');
+}
+
+export function workspaceStorageDir(profile: EditorProfile): string {
+  return join(userDir(profile), 'workspaceStorage');
+}
+
+export function userSettingsPath(profile: EditorProfile): string {
+  return join(userDir(profile), 'settings.json');
+}
+
+function expandTilde(path: string): string {
+  return path === '~' ? homedir() : path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+}
+
+// The built-in profiles with the user's overrides applied, followed by the user's own editors
+export function getEditorProfiles(custom: EditorProfileSettings[] = []): EditorProfile[] {
+  // Portable installs keep their data next to the binary; VSCODE_PORTABLE points there
+  const portableDir = process.env.VSCODE_PORTABLE || null;
+  const dataDirOverride = process.env.VSCODE_HELPER_USER_DATA_DIR || (portableDir ? join(portableDir, 'user-data') : null);
+
+  const builtin: EditorProfile[] = BUILTIN_PROFILES.map(({ dataDirName, homeDirName, ...profile }) => ({
+    ...profile,
+    userDataDir: dataDirOverride || join(configHome(), dataDirName),
+    extensionsDir: portableDir ? join(portableDir, 'extensions') : join(homedir(), homeDirName, 'extensions')
+  }));
+
+  const profiles = [...builtin];
+  for (const settings of custom) {
+    const index = profiles.findIndex(profile => profile.id === settings.id);
+    const parent = index >= 0 ? profiles[index] : builtin.find(profile => profile.id === (settings.extends ?? 'code'));
+    if (!parent) {
+      throw new Error(`Editor profile '${settings.id}' extends unknown editor '${settings.extends}'. Built-in editors: ${EDITOR_IDS.join(', ')}`);
+    }
+    const { extends: _parent, ...fields } = settings;
+    const profile: EditorProfile = {
+      ...parent,
+      ...fields,
+      userDataDir: expandTilde(settings.userDataDir ?? parent.userDataDir),
+      extensionsDir: expandTilde(settings.extensionsDir ?? parent.extensionsDir),
+      cli: settings.cli ? expandTilde(settings.cli) : parent.cli
+    };
+    if (index >= 0) {
+      profiles[index] = profile;
+    } else {
+      profiles.push(profile);
+    }
+  }
+  return profiles;
+}
+
+function storageMtime(profile: EditorProfile): number {
+  try {
+    return statSync(workspaceStorageDir(profile)).mtimeMs;
+  } catch {
+    return -1;
+  }
+}
+
+// An explicit id wins; otherwise the build whose workspace storage changed last, i.e. the one used most recently
+export function resolveEditorProfile(id?: string, custom: EditorProfileSettings[] = []): EditorProfile {
+  const profiles = getEditorProfiles(custom);
+  if (id) {
+    const profile = profiles.find(candidate => candidate.id === id.toLowerCase());
+    if (!profile) {
+      throw new Error(`Unknown editor '${id}'. Available editors: ${profiles.map(candidate => candidate.id).join(', ')}`);
+    }
+    return profile;
+  }
+
+  const used = profiles
+    .map(profile => ({ profile, mtime: storageMtime(profile) }))
+    .filter(candidate => candidate.mtime >= 0)
+    .sort((a, b) => b.mtime - a.mtime);
+  return used[0]?.profile ?? profiles[0];
+}
@@ -0,0 +1,103 @@
+import { execFileSync } from 'child_process';
+import { mkdtemp, mkdir, writeFile, rm, utimes } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { EditorStateReader } from './editor-state';
+import { EditorProfile, resolveEditorProfile } from './editor-profiles';
+import { ProcessRunner, ExternalToolMissingError } from './process-exec';
+
+// A user data directory with a state.vscdb, and two workspaceStorage entries for the fallback
+let base: string;
+let profile: EditorProfile;
+
+const recentlyOpened = {
+  entries: [
+    { folderUri: 'file:///home/me/web' },
+    { workspace: { id: '1', configPath: 'file:///home/me/platform/platform.code-workspace' } },
+    // Separators and line breaks in values must not confuse the output parsing
+    { fileUri: 'file:///home/me/notes%7Cdraft.md', label: 'notes|draft\nsecond line' },
+    { folderUri: 'vscode-remote://ssh-remote%2Bbuild-box/srv/app', remoteAuthority: 'ssh-remote+build-box' }
+  ]
+};
+const windowsState = {
+  lastActiveWindow: { folder: 'file:///home/me/web' },
+  openedWindows: [{ folder: 'file:///home/me/web' }, { workspaceIdentifier: { configURIPath: 'file:///home/me/platform/platform.code-workspace' } }, {}]
+};
+
+function sqlString(value: unknown): string {
+  return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
+}
+
+function failingRunner(error: Error): ProcessRunner {
+  const runner = new ProcessRunner();
+  runner.run = async () => {
+    throw error;
+  };
+  return runner;
+}
+
+beforeAll(async () => {
+  base = await mkdtemp(join(tmpdir(), 'vscode-helper-state-'));
+  const userDataDir = join(base, 'user-data');
+  profile = resolveEditorProfile('test', [{ id: 'test', userDataDir }]);
+
+  const globalStorage = join(userDataDir, 'User', 'globalStorage');
+  await mkdir(globalStorage, { recursive: true });
+  execFileSync('sqlite3', [join(globalStorage, 'state.vscdb'), [
+    'CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB);',
+    `INSERT INTO ItemTable VALUES ('history.recentlyOpenedPathsList', ${sqlString(recentlyOpened)});`,
+    `INSERT INTO ItemTable VALUES ('windowsState', ${sqlString(windowsState)});`,
+    `INSERT INTO ItemTable VALUES ('other', 'ignored');`
+  ].join('\n')]);
+
+  const storage = join(userDataDir, 'User', 'workspaceStorage');
+  const entries: Array<[string, object, number]> = [
+    ['older', { folder: pathToFileURL('/home/me/old').href }, 1_600_000_000],
+    ['newer', { workspace: pathToFileURL('/home/me/platform/platform.code-workspace').href }, 1_700_000_000]
+  ];
+  for (const [id, entry, mtime] of entries) {
+    await mkdir(join(storage, id), { recursive: true });
+    await writeFile(join(storage, id, 'workspace.json'), JSON.stringify(entry));
+    await utimes(join(storage, id, 'workspace.json'), mtime, mtime);
+  }
+  // An empty window keeps no workspace.json
+  await mkdir(join(storage, 'empty'));
+});
+
+afterAll(async () => {
+  await rm(base, { recursive: true, force: true });
+});
+
+describe('EditorStateReader', () => {
+  it('reads recently opened entries and window state from state.vscdb', async () => {
+    const state = await new EditorStateReader(new ProcessRunner()).read(profile);
+    expect(state.source).toBe('database');
+    expect(state.recent.map(({ kind, path, label }) => ({ kind, path, label }))).toEqual([
+      { kind: 'folder', path: '/home/me/web', label: null },
+      { kind: 'workspace', path: '/home/me/platform/platform.code-workspace', label: null },
+      { kind: 'file', path: '/home/me/notes|draft.md', label: 'notes|draft\nsecond line' },
+      { kind: 'folder', path: '/srv/app', label: null }
+    ]);
+    expect(state.recent[3].remote).toEqual({ kind: 'ssh-remote', authority: 'ssh-remote+build-box', host: 'build-box' });
+    expect(state.lastActiveWindow).toMatchObject({ kind: 'folder', path: '/home/me/web' });
+    expect(state.openedWindows.map(window => window.kind)).toEqual(['folder', 'workspace', 'empty']);
+  });
+
+  it.each([
+    ['sqlite3 is missing', new ExternalToolMissingError('sqlite3', ['sqlite3'])],
+    ['sqlite3 fails, e.g. on an option an old version lacks', new Error('sqlite3: Error: unknown option: -batch')]
+  ])('falls back to workspace storage ordered by modification time when %s', async (_label, error) => {
+    const state = await new EditorStateReader(failingRunner(error)).read(profile);
+    expect(state.source).toBe('workspaceStorage');
+    expect(state.recent.map(({ kind, path }) => ({ kind, path }))).toEqual([
+      { kind: 'workspace', path: '/home/me/platform/platform.code-workspace' },
+      { kind: 'folder', path: '/home/me/old' }
+    ]);
+  });
+
+  it('reports a missing state database', async () => {
+    const missing = resolveEditorProfile('missing', [{ id: 'missing', userDataDir: join(base, 'nowhere') }]);
+    await expect(new EditorStateReader(new ProcessRunner()).read(missing)).rejects.toMatchObject({ code: 'file_not_found' });
+  });
+});
@@ -0,0 +1,224 @@
+import { access, readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { ProcessRunner, ExternalToolMissingError } from './process-exec.js';
+import { FileNotFoundError } from './errors.js';
+import { EditorProfile, userDir, workspaceStorageDir } from './editor-profiles.js';
+import { RemoteAuthority, StorageEntry, parseRemoteAuthority, parseWorkspaceUri } from './workspaces.js';
+
+export type RecentKind = 'folder' | 'workspace' | 'file';
+
+export interface RecentEntry {
+  kind: RecentKind;
+  // Folder, .code-workspace or file URI as VSCode stored it
+  uri: string;
+  // Local path, or the path on the remote machine; null for URIs of other schemes
+  path: string | null;
+  // Custom label, e.g. for remote entries
+  label: string | null;
+  remote: RemoteAuthority | null;
+}
+
+export interface WindowState {
+  // Empty windows have neither a folder nor a workspace
+  kind: 'folder' | 'workspace' | 'empty';
+  uri: string | null;
+  path: string | null;
+  remote: RemoteAuthority | null;
+}
+
+export interface EditorState {
+  // Most recently opened first, as in File > Open Recent
+  recent: RecentEntry[];
+  // Where `recent` came from: the state database, or workspace storage ordered by modification time when the
+  // database could not be queried
+  source: 'database' | 'workspaceStorage';
+  // The focused window when VSCode last saved its window state
+  lastActiveWindow: WindowState | null;
+  openedWindows: WindowState[];
+}
+
+const RECENT_KEY = 'history.recentlyOpenedPathsList';
+const WINDOWS_KEY = 'windowsState';
+
+export function stateDatabasePath(profile: EditorProfile): string {
+  return join(userDir(profile), 'globalStorage', 'state.vscdb');
+}
+
+function location(uri: string): { path: string | null; remote: RecentEntry['remote'] } {
+  const parsed = parseWorkspaceUri(uri);
+  return { path: parsed?.path ?? null, remote: parsed?.remote ?? null };
+}
+
+// Both the current `entries` list and the older `workspaces3` / `files2` lists
+export function parseRecentlyOpened(value: any): RecentEntry[] {
+  const recent: RecentEntry[] = [];
+  const add = (kind: RecentKind, uri: unknown, label?: unknown, remoteAuthority?: unknown) => {
+    if (typeof uri !== 'string' || !uri) return;
+    const { path, remote } = location(uri);
+    recent.push({
+      kind,
+      uri,
+      path,
+      label: typeof label === 'string' ? label : null,
+      remote: remote ?? (typeof remoteAuthority === 'string' ? parseRemoteAuthority(remoteAuthority) : null)
+    });
+  };
+
+  if (Array.isArray(value?.entries)) {
+    for (const entry of value.entries) {
+      if (entry?.folderUri) add('folder', entry.folderUri, entry.label, entry.remoteAuthority);
+      else if (entry?.workspace) add('workspace', entry.workspace.configPath, entry.label, entry.remoteAuthority);
+      else if (entry?.fileUri) add('file', entry.fileUri, entry.label, entry.remoteAuthority);
+    }
+    return recent;
+  }
+
+  for (const workspace of value?.workspaces3 ?? []) {
+    if (typeof workspace === 'string') add('folder', workspace);
+    else add('workspace', workspace?.configURIPath);
+  }
+  for (const file of value?.files2 ?? []) {
+    add('file', file);
+  }
+  return recent;
+}
+
+function parseWindow(window: any): WindowState | null {
+  if (!window || typeof window !== 'object') return null;
+  // Field names changed across VSCode versions
+  const folder = window.folder ?? window.folderUri;
+  const workspace = window.workspaceIdentifier?.configURIPath ?? window.workspace?.configPath;
+  const uri = typeof folder === 'string' ? folder : typeof workspace === 'string' ? workspace : null;
+  if (!uri) {
+    const remote = typeof window.remoteAuthority === 'string' ? parseRemoteAuthority(window.remoteAuthority) : null;
+    return { kind: 'empty', uri: null, path: null, remote };
+  }
+  return { kind: typeof folder === 'string' ? 'folder' : 'workspace', uri, ...location(uri) };
+}
+
+export function parseWindowsState(value: any): Pick<EditorState, 'lastActiveWindow' | 'openedWindows'> {
+  return {
+    lastActiveWindow: parseWindow(value?.lastActiveWindow),
+    openedWindows: Array.isArray(value?.openedWindows)
+      ? value.openedWindows.map(parseWindow).filter((window: WindowState | null): window is WindowState => window !== null)
+      : []
+  };
+}
+
+// What workspaceFromStorage needs to turn a recent folder or workspace into a Workspace
+export function toStorageEntry(entry: { kind: RecentKind | WindowState['kind']; uri: string | null }): StorageEntry | null {
+  if (!entry.uri) return null;
+  if (entry.kind === 'folder') return { folder: entry.uri };
+  if (entry.kind === 'workspace') return { workspace: entry.uri };
+  return null;
+}
+
+// Without the state database, the folders and workspaces of workspaceStorage, most recently modified first
+export async function recentFromWorkspaceStorage(profile: EditorProfile): Promise<RecentEntry[]> {
+  const storageDir = workspaceStorageDir(profile);
+  let names: string[];
+  try {
+    names = await readdir(storageDir);
+  } catch {
+    return [];
+  }
+
+  const entries: Array<{ entry: RecentEntry; mtime: number }> = [];
+  for (const name of names) {
+    const workspaceFile = join(storageDir, name, 'workspace.json');
+    try {
+      const { folder, workspace } = JSON.parse(await readFile(workspaceFile, 'utf8')) as StorageEntry;
+      const uri = folder ?? workspace;
+      if (typeof uri === 'string' && uri) {
+        const kind = folder ? 'folder' : 'workspace';
+        entries.push({ entry: { kind, uri, label: null, ...location(uri) }, mtime: (await stat(workspaceFile)).mtimeMs });
+      }
+    } catch {
+      // Storage entry without a usable workspace.json (e.g. an empty window)
+    }
+  }
+  return entries.sort((a, b) => b.mtime - a.mtime).map(({ entry }) => entry);
+}
+
+// Reads VSCode's global state database through the sqlite3 command line tool
+export class EditorStateReader {
+  constructor(
+    private processes: ProcessRunner,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  async read(profile: EditorProfile): Promise<EditorState> {
+    const database = stateDatabasePath(profile);
+    try {
+      await access(database);
+    } catch (error) {
+      // sqlite3 would otherwise fail with a less helpful message
+      throw new FileNotFoundError(database, `No ${profile.displayName} state database at ${database}`);
+    }
+    let values: Map<string, any> | null = null;
+    try {
+      values = await this.queryItems(database, [RECENT_KEY, WINDOWS_KEY]);
+    } catch (error) {
+      // A missing, old or failing sqlite3 or a locked database; workspace storage is less precise but always readable
+      this.log(`Cannot query ${database}, using workspace storage instead: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Newer VSCode versions keep the window state in storage.json instead of the database
+    let windowsState = values?.get(WINDOWS_KEY);
+    if (windowsState === undefined) {
+      windowsState = await this.readStorageJson(profile);
+    }
+
+    const state: EditorState = values
+      ? { recent: parseRecentlyOpened(values.get(RECENT_KEY)), source: 'database', ...parseWindowsState(windowsState) }
+      : { recent: await recentFromWorkspaceStorage(profile), source: 'workspaceStorage', ...parseWindowsState(windowsState) };
+    this.log(`Editor state from ${state.source === 'database' ? database : workspaceStorageDir(profile)}: ${state.recent.length} recent entries, ${state.openedWindows.length} opened windows`);
+    return state;
+  }
+
+  private async queryItems(database: string, keys: string[]): Promise<Map<string, any>> {
+    // Values are hex-encoded so they come out on one line without separators in them; -json needs sqlite 3.33
+    const sql = `SELECT key, hex(value) FROM ItemTable WHERE key IN (${keys.map(key => `'${key}'`).join(', ')})`;
+    let stdout: string;
+    try {
+      ({ stdout } = await this.processes.run('sqlite3', ['-readonly', '-batch', '-list', '-noheader', '-separator', '|', database, sql]));
+    } catch (error) {
+      if (error instanceof ExternalToolMissingError) {
+        throw new Error('Reading VSCode state requires the sqlite3 command line tool', { cause: error });
+      }
+      throw error;
+    }
+
+    const values = new Map<string, any>();
+    // sqlite3 prints nothing at all when no rows match
+    for (const line of stdout.split('\n').filter(Boolean)) {
+      const separator = line.lastIndexOf('|');
+      const key = line.slice(0, separator);
+      const hex = line.slice(separator + 1).trim();
+      if (separator === -1 || !/^([0-9A-F]{2})*$/i.test(hex)) {
+        throw new Error(`Unexpected sqlite3 output: ${line.slice(0, 200)}`);
+      }
+      try {
+        // hex(NULL) is empty
+        values.set(key, hex ? JSON.parse(Buffer.from(hex, 'hex').toString('utf8')) : null);
+      } catch {
+        this.log(`Ignoring unparseable ${key} in ${database}`);
+      }
+    }
+    return values;
+  }
+
+  private async readStorageJson(profile: EditorProfile): Promise<any> {
+    for (const path of [join(userDir(profile), 'globalStorage', 'storage.json'), join(profile.userDataDir, 'storage.json')]) {
+      try {
+        const storage = JSON.parse(await readFile(path, 'utf8'));
+        if (storage?.[WINDOWS_KEY]) {
+          return storage[WINDOWS_KEY];
+        }
+      } catch {
+        // Missing or unreadable; older versions use the other location
+      }
+    }
+    return undefined;
+  }
+}
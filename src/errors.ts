@@ -0,0 +1,106 @@
+// Machine-readable error codes shared by the CLI (--json and exit codes) and the MCP server (isError results)
+export type ErrorCode =
+  | 'workspace_not_found'
+  | 'file_not_found'
+  | 'editor_unavailable'
+  | 'policy_denied'
+  | 'outside_workspace'
+  | 'denied_pattern'
+  | 'invalid_path'
+  | 'remote_workspace'
+  | 'timeout'
+  | 'external_tool_missing'
+  | 'process_failed'
+  | 'invalid_config'
+  | 'error';
+
+// 124 and 127 follow the shell's conventions for timeouts and missing commands, 78 is sysexits' EX_CONFIG
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  workspace_not_found: 3,
+  file_not_found: 4,
+  editor_unavailable: 5,
+  policy_denied: 6,
+  outside_workspace: 6,
+  denied_pattern: 6,
+  invalid_path: 6,
+  remote_workspace: 7,
+  timeout: 124,
+  external_tool_missing: 127,
+  process_failed: 1,
+  invalid_config: 78,
+  error: 1
+};
+
+export class HelperError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCode,
+    // Extra fields reported next to the code, e.g. the missing tool or the candidate workspaces
+    public readonly details: Record<string, unknown> = {},
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'HelperError';
+  }
+}
+
+export class WorkspaceNotFoundError extends HelperError {
+  constructor(public readonly workspace: string, public readonly candidates: string[]) {
+    super(`Workspace '${workspace}' not found. Available workspaces: ${candidates.join(', ') || 'none'}`, 'workspace_not_found', { workspace, candidates });
+    this.name = 'WorkspaceNotFoundError';
+  }
+}
+
+export class FileNotFoundError extends HelperError {
+  constructor(public readonly path: string, message: string = `File does not exist: ${path}`) {
+    super(message, 'file_not_found', { path });
+    this.name = 'FileNotFoundError';
+  }
+}
+
+export class EditorUnavailableError extends HelperError {
+  constructor(message: string) {
+    super(message, 'editor_unavailable');
+    this.name = 'EditorUnavailableError';
+  }
+}
+
+export class PolicyDeniedError extends HelperError {
+  constructor(public readonly tool: string, public readonly reason: string, public readonly answeredByUser: boolean) {
+    super(`Tool call '${tool}' was denied by policy: ${reason}`, 'policy_denied', { reason, answeredByUser });
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+export class TimeoutError extends HelperError {
+  constructor(public readonly operation: string, public readonly timeout: number) {
+    super(`${operation} timed out after ${timeout}ms`, 'timeout', { timeout });
+    this.name = 'TimeoutError';
+  }
+}
+
+// The closest HelperError in an error's cause chain, so wrapped errors keep their code
+export function findHelperError(error: unknown): HelperError | null {
+  let current = error;
+  while (current instanceof Error) {
+    if (current instanceof HelperError) {
+      return current;
+    }
+    current = current.cause;
+  }
+  return null;
+}
+
+// Plain object for --json output and MCP results; the message is the outermost one, which carries the context
+export function describeError(error: unknown): { code: ErrorCode; message: string } & Record<string, unknown> {
+  const typed = findHelperError(error);
+  return {
+    code: typed?.code ?? 'error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    ...typed?.details
+  };
+}
+
+export function exitCodeFor(error: unknown): number {
+  return EXIT_CODES[findHelperError(error)?.code ?? 'error'];
+}
@@ -0,0 +1,155 @@
+import { posix } from 'path';
+
+export interface FuzzyMatch {
+  path: string;
+  score: number;
+  // Offsets into path of the characters that matched the query
+  positions: number[];
+}
+
+// Query pieces that match within the file name always rank above path-only matches, as in Quick Open
+const BASENAME_BOOST = 1 << 16;
+const EXACT_BASENAME_BOOST = 1 << 17;
+
+const SCORE_MATCH = 1;
+const BONUS_SAME_CASE = 1;
+const BONUS_CONSECUTIVE = 5;
+const BONUS_SEGMENT_START = 8;
+const BONUS_WORD_START = 7;
+const BONUS_CAMEL_CASE = 6;
+
+const NO_MATCH = -1;
+
+function isSeparator(char: string): boolean {
+  return char === '/' || char === '\\';
+}
+
+function charsMatch(queryChar: string, targetChar: string): boolean {
+  return queryChar === targetChar || (isSeparator(queryChar) && isSeparator(targetChar));
+}
+
+function boundaryBonus(target: string, index: number): number {
+  if (index === 0) return BONUS_SEGMENT_START;
+  const previous = target[index - 1];
+  const current = target[index];
+  if (isSeparator(previous)) return BONUS_SEGMENT_START;
+  if (previous === '_' || previous === '-' || previous === '.' || previous === ' ') return BONUS_WORD_START;
+  if (current !== current.toLowerCase() && previous === previous.toLowerCase() && previous !== previous.toUpperCase()) {
+    return BONUS_CAMEL_CASE;
+  }
+  return 0;
+}
+
+// Best-scoring alignment of query as a subsequence of target, or null when it is not one
+export function fuzzyScore(query: string, target: string): { score: number; positions: number[] } | null {
+  const queryLength = query.length;
+  const targetLength = target.length;
+  if (queryLength === 0) return { score: 0, positions: [] };
+  if (queryLength > targetLength) return null;
+
+  const lowerQuery = query.toLowerCase();
+  const lowerTarget = target.toLowerCase();
+
+  // Cheap subsequence check before the full table
+  for (let i = 0, j = 0; i < queryLength; i++, j++) {
+    while (j < targetLength && !charsMatch(lowerQuery[i], lowerTarget[j])) j++;
+    if (j === targetLength) return null;
+  }
+
+  // matched[i][j]: best score with query[i] matched at target[j]
+  // best[i][j]: best score with query[0..i] matched somewhere in target[0..j]
+  const size = queryLength * targetLength;
+  const matched = new Float64Array(size).fill(NO_MATCH);
+  const run = new Int32Array(size);
+  const best = new Float64Array(size).fill(NO_MATCH);
+  const bestAt = new Int32Array(size).fill(-1);
+
+  for (let i = 0; i < queryLength; i++) {
+    for (let j = i; j < targetLength; j++) {
+      const cell = i * targetLength + j;
+      if (charsMatch(lowerQuery[i], lowerTarget[j])) {
+        const base = SCORE_MATCH + (query[i] === target[j] ? BONUS_SAME_CASE : 0) + boundaryBonus(target, j);
+        if (i === 0) {
+          matched[cell] = base;
+          run[cell] = 1;
+        } else {
+          const previous = (i - 1) * targetLength;
+          const afterGap = j >= 2 && best[previous + j - 2] !== NO_MATCH ? best[previous + j - 2] + base : NO_MATCH;
+          const consecutive = matched[previous + j - 1] !== NO_MATCH
+            ? matched[previous + j - 1] + base + BONUS_CONSECUTIVE * run[previous + j - 1]
+            : NO_MATCH;
+          if (consecutive !== NO_MATCH && consecutive >= afterGap) {
+            matched[cell] = consecutive;
+            run[cell] = run[previous + j - 1] + 1;
+          } else if (afterGap !== NO_MATCH) {
+            matched[cell] = afterGap;
+            run[cell] = 1;
+          }
+        }
+      }
+
+      const left = j > 0 ? best[cell - 1] : NO_MATCH;
+      if (matched[cell] !== NO_MATCH && matched[cell] >= left) {
+        best[cell] = matched[cell];
+        bestAt[cell] = j;
+      } else {
+        best[cell] = left;
+        bestAt[cell] = j > 0 ? bestAt[cell - 1] : -1;
+      }
+    }
+  }
+
+  const last = (queryLength - 1) * targetLength + targetLength - 1;
+  if (best[last] === NO_MATCH) return null;
+
+  const positions: number[] = [];
+  let j = bestAt[last];
+  for (let i = queryLength - 1; i >= 0; i--) {
+    positions.push(j);
+    if (i === 0) break;
+    const cell = i * targetLength + j;
+    j = run[cell] > 1 ? j - 1 : bestAt[(i - 1) * targetLength + j - 2];
+  }
+
+  return { score: best[last], positions: positions.reverse() };
+}
+
+// Score a workspace-relative path; space-separated query pieces must all match
+export function scorePath(query: string, path: string): FuzzyMatch | null {
+  const pieces = query.trim().split(/\s+/).filter(Boolean);
+  const basenameStart = path.length - posix.basename(path).length;
+  const basename = path.slice(basenameStart);
+
+  let score = 0;
+  const positions = new Set<number>();
+  for (const piece of pieces) {
+    if (!/[\\/]/.test(piece)) {
+      const labelMatch = fuzzyScore(piece, basename);
+      if (labelMatch) {
+        score += labelMatch.score + (piece.toLowerCase() === basename.toLowerCase() ? EXACT_BASENAME_BOOST : BASENAME_BOOST);
+        labelMatch.positions.forEach(position => positions.add(basenameStart + position));
+        continue;
+      }
+    }
+
+    const pathMatch = fuzzyScore(piece, path);
+    if (!pathMatch) return null;
+    score += pathMatch.score;
+    pathMatch.positions.forEach(position => positions.add(position));
+  }
+
+  return { path, score, positions: [...positions].sort((a, b) => a - b) };
+}
+
+// Best matches first; ties go to shorter, then alphabetically earlier paths
+export function rankPaths(query: string, paths: string[], limit: number): FuzzyMatch[] {
+  const matches: FuzzyMatch[] = [];
+  for (const path of paths) {
+    const match = scorePath(query, path);
+    if (match) matches.push(match);
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.path.length - b.path.length || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
@@ -0,0 +1,164 @@
+import { execFileSync } from 'child_process';
+import { mkdtemp, mkdir, writeFile, realpath, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GitClient } from './git';
+import { ProcessRunner } from './process-exec';
+
+// A repository with two commits by different authors, then staged, unstaged, renamed and untracked changes
+let repo: string;
+let empty: string;
+const git = new GitClient(new ProcessRunner());
+
+function run(cwd: string, args: string[], author = 'Ada', date = '2024-01-01T10:00:00Z'): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: author,
+      GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_COMMITTER_DATE: date,
+      GIT_CONFIG_GLOBAL: '/dev/null',
+      GIT_CONFIG_NOSYSTEM: '1'
+    }
+  });
+}
+
+beforeAll(async () => {
+  const base = await realpath(await mkdtemp(join(tmpdir(), 'vscode-helper-git-')));
+  repo = join(base, 'repo');
+  empty = join(base, 'empty');
+  await mkdir(join(repo, 'src'), { recursive: true });
+  await mkdir(empty);
+  run(repo, ['init', '-q', '-b', 'main']);
+  run(empty, ['init', '-q', '-b', 'main']);
+
+  await writeFile(join(repo, 'src', 'a.ts'), 'one\ntwo\nthree\n');
+  await writeFile(join(repo, 'old name.txt'), 'moved\n'.repeat(10));
+  await writeFile(join(repo, 'deleted.txt'), 'gone\n');
+  run(repo, ['add', '-A']);
+  run(repo, ['commit', '-q', '-m', 'Initial commit']);
+
+  await writeFile(join(repo, 'src', 'a.ts'), 'one\nTWO\nthree\n');
+  run(repo, ['commit', '-q', '-am', 'Shout two'], 'Grace', '2024-02-01T10:00:00Z');
+
+  await writeFile(join(repo, 'src', 'a.ts'), 'one\nTWO\nthree\nfour\n');
+  await writeFile(join(repo, 'staged.ts'), 'staged\n');
+  run(repo, ['add', 'staged.ts']);
+  run(repo, ['mv', 'old name.txt', 'new name.txt']);
+  run(repo, ['rm', '-q', 'deleted.txt']);
+  await writeFile(join(repo, 'untracked file.md'), 'new\n');
+});
+
+afterAll(async () => {
+  await rm(join(repo, '..'), { recursive: true, force: true });
+});
+
+describe('status', () => {
+  it('reports the branch and every kind of change', async () => {
+    const status = await git.status(repo);
+    expect(status.repository).toBe(repo);
+    expect(status.branch).toMatchObject({ head: 'main', upstream: null });
+    expect(status.entries.map(({ kind, path, origPath, index, worktree }) => ({ kind, path, origPath, index, worktree }))).toEqual(expect.arrayContaining([
+      { kind: 'changed', path: 'src/a.ts', origPath: null, index: '.', worktree: 'M' },
+      { kind: 'changed', path: 'staged.ts', origPath: null, index: 'A', worktree: '.' },
+      { kind: 'changed', path: 'deleted.txt', origPath: null, index: 'D', worktree: '.' },
+      { kind: 'renamed', path: 'new name.txt', origPath: 'old name.txt', index: 'R', worktree: '.' },
+      { kind: 'untracked', path: 'untracked file.md', origPath: null, index: '?', worktree: '?' }
+    ]));
+    expect(status.entries).toHaveLength(5);
+  });
+
+  it('narrows to pathspecs', async () => {
+    const status = await git.status(repo, [':(literal)src']);
+    expect(status.entries.map(entry => entry.path)).toEqual(['src/a.ts']);
+  });
+
+  it('reports a repository without commits', async () => {
+    expect((await git.status(empty)).branch).toMatchObject({ head: 'main', oid: null });
+  });
+
+  it('fails outside a repository', async () => {
+    await expect(git.status(tmpdir())).rejects.toThrow('is not inside a git repository');
+  });
+});
+
+describe('diff', () => {
+  it('diffs the working tree', async () => {
+    const diff = await git.diff(repo);
+    expect(diff.files).toEqual([{ path: 'src/a.ts', oldPath: null, additions: 1, deletions: 0, binary: false }]);
+    expect(diff.patch).toContain('+four');
+    expect(diff.truncated).toBe(false);
+  });
+
+  it('diffs the index with renames', async () => {
+    const diff = await git.diff(repo, { staged: true });
+    expect(diff.files).toEqual(expect.arrayContaining([
+      { path: 'new name.txt', oldPath: 'old name.txt', additions: 0, deletions: 0, binary: false },
+      { path: 'staged.ts', oldPath: null, additions: 1, deletions: 0, binary: false },
+      { path: 'deleted.txt', oldPath: null, additions: 0, deletions: 1, binary: false }
+    ]));
+  });
+
+  it('diffs two commits and truncates long patches', async () => {
+    const diff = await git.diff(repo, { from: 'HEAD~1', to: 'HEAD', maxPatchLength: 20 });
+    expect(diff.files.map(file => file.path)).toEqual(['src/a.ts']);
+    expect(diff.patch).toHaveLength(20);
+    expect(diff.truncated).toBe(true);
+  });
+
+  it.each(['--output=/tmp/x', '-p', 'HEAD ~1'])('refuses the ref %j', async ref => {
+    await expect(git.diff(repo, { from: ref })).rejects.toThrow('Invalid git ref');
+  });
+});
+
+describe('history', () => {
+  it('lists commits newest first', async () => {
+    const commits = await git.history(repo);
+    expect(commits.map(({ subject, author, email, date }) => ({ subject, author, email, date }))).toEqual([
+      { subject: 'Shout two', author: 'Grace', email: 'grace@example.com', date: '2024-02-01T10:00:00+00:00' },
+      { subject: 'Initial commit', author: 'Ada', email: 'ada@example.com', date: '2024-01-01T10:00:00+00:00' }
+    ]);
+    expect(commits[0].parents).toEqual([commits[1].hash]);
+    expect(commits[1].parents).toEqual([]);
+  });
+
+  it('limits and narrows the history', async () => {
+    expect((await git.history(repo, { limit: 1 })).map(commit => commit.subject)).toEqual(['Shout two']);
+    expect((await git.history(repo, {}, [':(literal)old name.txt'])).map(commit => commit.subject)).toEqual(['Initial commit']);
+  });
+
+  it('has no history before the first commit', async () => {
+    expect(await git.history(empty)).toEqual([]);
+  });
+});
+
+describe('blame', () => {
+  it('attributes every line, including uncommitted ones', async () => {
+    const lines = await git.blame(repo, 'src/a.ts');
+    expect(lines.map(({ line, author, summary, uncommitted, text }) => ({ line, author, summary, uncommitted, text }))).toEqual([
+      { line: 1, author: 'Ada', summary: 'Initial commit', uncommitted: false, text: 'one' },
+      { line: 2, author: 'Grace', summary: 'Shout two', uncommitted: false, text: 'TWO' },
+      { line: 3, author: 'Ada', summary: 'Initial commit', uncommitted: false, text: 'three' },
+      { line: 4, author: 'Not Committed Yet', summary: 'Version of src/a.ts from src/a.ts', uncommitted: true, text: 'four' }
+    ]);
+    expect(lines[1].date).toBe('2024-02-01T10:00:00.000Z');
+  });
+
+  it('blames a line range at a ref', async () => {
+    const lines = await git.blame(repo, 'src/a.ts', { startLine: 2, endLine: 2, ref: 'HEAD~1' });
+    expect(lines.map(({ line, author, text }) => ({ line, author, text }))).toEqual([{ line: 2, author: 'Ada', text: 'two' }]);
+  });
+});
+
+describe('show', () => {
+  it('returns a file at a commit, or null when it did not exist', async () => {
+    expect(await git.show(repo, 'HEAD~1', 'src/a.ts')).toBe('one\ntwo\nthree\n');
+    expect(await git.show(repo, 'HEAD', 'staged.ts')).toBeNull();
+    await expect(git.show(repo, 'no-such-branch', 'src/a.ts')).rejects.toThrow("Unknown git ref 'no-such-branch'");
+  });
+});
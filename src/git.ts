@@ -0,0 +1,324 @@
+import { ProcessRunner, ProcessExecError } from './process-exec.js';
+
+export interface GitBranch {
+  // Branch name; null when HEAD is detached
+  head: string | null;
+  // Commit HEAD points at; null before the first commit
+  oid: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+}
+
+export type GitStatusKind = 'changed' | 'renamed' | 'copied' | 'unmerged' | 'untracked';
+
+export interface GitStatusEntry {
+  kind: GitStatusKind;
+  // Paths are relative to the repository root
+  path: string;
+  // Source of a rename or copy
+  origPath: string | null;
+  // Porcelain status letters, '.' when unchanged: M modified, A added, D deleted, R renamed, ...
+  index: string;
+  worktree: string;
+}
+
+export interface GitStatus {
+  repository: string;
+  branch: GitBranch;
+  entries: GitStatusEntry[];
+}
+
+export interface GitDiffFile {
+  path: string;
+  oldPath: string | null;
+  // Null for binary files
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+}
+
+export interface GitDiffOptions {
+  // Compare the index with HEAD (or with `from`) instead of the working tree
+  staged?: boolean;
+  // Compare against this commit; with `to`, compare two commits
+  from?: string;
+  to?: string;
+  // Lines of context around changes (git's default is 3)
+  context?: number;
+  // Characters of patch text to return at most
+  maxPatchLength?: number;
+}
+
+export interface GitDiff {
+  repository: string;
+  staged: boolean;
+  from: string | null;
+  to: string | null;
+  files: GitDiffFile[];
+  patch: string;
+  // True when maxPatchLength cut the patch short
+  truncated: boolean;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  // ISO 8601 author date
+  date: string;
+  subject: string;
+}
+
+export interface GitBlameLine {
+  line: number;
+  // Line number in the commit that last changed it
+  originalLine: number;
+  commit: string;
+  author: string;
+  email: string;
+  date: string;
+  summary: string;
+  // True for lines not committed yet
+  uncommitted: boolean;
+  text: string;
+}
+
+export const DEFAULT_LOG_LIMIT = 20;
+export const DEFAULT_MAX_PATCH_LENGTH = 200000;
+const GIT_TIMEOUT = 30000;
+const UNCOMMITTED = '0000000000000000000000000000000000000000';
+
+// Refs reach git as arguments, so anything that looks like an option is refused
+export function validateRef(ref: string): string {
+  if (!ref || ref.startsWith('-') || /[\0\s]/.test(ref)) {
+    throw new Error(`Invalid git ref '${ref}'`);
+  }
+  return ref;
+}
+
+// `git status --porcelain=v2 --branch -z`
+export function parseStatus(output: string): Omit<GitStatus, 'repository'> {
+  const branch: GitBranch = { head: null, oid: null, upstream: null, ahead: 0, behind: 0 };
+  const entries: GitStatusEntry[] = [];
+  const records = output.split('\0');
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.startsWith('# ')) {
+      const [, key, ...values] = record.split(' ');
+      const value = values.join(' ');
+      if (key === 'branch.oid') branch.oid = value === '(initial)' ? null : value;
+      else if (key === 'branch.head') branch.head = value === '(detached)' ? null : value;
+      else if (key === 'branch.upstream') branch.upstream = value;
+      else if (key === 'branch.ab') {
+        const match = value.match(/^\+(\d+) -(\d+)$/);
+        if (match) {
+          branch.ahead = parseInt(match[1]);
+          branch.behind = parseInt(match[2]);
+        }
+      }
+    } else if (record.startsWith('1 ')) {
+      // 1 XY sub mH mI mW hH hI path
+      const fields = record.split(' ');
+      entries.push({ kind: 'changed', path: fields.slice(8).join(' '), origPath: null, index: fields[1][0], worktree: fields[1][1] });
+    } else if (record.startsWith('2 ')) {
+      // 2 XY sub mH mI mW hH hI Xscore path, followed by the original path as its own record
+      const fields = record.split(' ');
+      entries.push({
+        kind: fields[8].startsWith('C') ? 'copied' : 'renamed',
+        path: fields.slice(9).join(' '),
+        origPath: records[++i] ?? null,
+        index: fields[1][0],
+        worktree: fields[1][1]
+      });
+    } else if (record.startsWith('u ')) {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      const fields = record.split(' ');
+      entries.push({ kind: 'unmerged', path: fields.slice(10).join(' '), origPath: null, index: fields[1][0], worktree: fields[1][1] });
+    } else if (record.startsWith('? ')) {
+      entries.push({ kind: 'untracked', path: record.slice(2), origPath: null, index: '?', worktree: '?' });
+    }
+  }
+  return { branch, entries };
+}
+
+// `git diff --numstat -z`; renames are "added\tdeleted\t" followed by the old and new path as records
+export function parseNumstat(output: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const match = records[i].match(/^(\d+|-)\t(\d+|-)\t(.*)$/s);
+    if (!match) continue;
+    const [, added, deleted, path] = match;
+    const binary = added === '-';
+    const file = {
+      additions: binary ? null : parseInt(added),
+      deletions: binary ? null : parseInt(deleted),
+      binary
+    };
+    if (path) {
+      files.push({ path, oldPath: null, ...file });
+    } else {
+      const oldPath = records[++i];
+      files.push({ path: records[++i], oldPath, ...file });
+    }
+  }
+  return files;
+}
+
+const LOG_FORMAT = ['%H', '%h', '%P', '%an', '%ae', '%aI', '%s'].join('%x1f') + '%x1e';
+
+export function parseLog(output: string): GitCommit[] {
+  return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+    const [hash, shortHash, parents, author, email, date, subject] = record.split('\x1f');
+    return { hash, shortHash, parents: parents ? parents.split(' ') : [], author, email, date, subject };
+  });
+}
+
+// `git blame --porcelain`: commit details are only given the first time a commit appears
+export function parseBlame(output: string): GitBlameLine[] {
+  const commits = new Map<string, { author: string; email: string; date: string; summary: string }>();
+  const lines: GitBlameLine[] = [];
+  let current: { commit: string; originalLine: number; line: number } | null = null;
+  let details: { author: string; email: string; date: string; summary: string } | null = null;
+
+  for (const row of output.split('\n')) {
+    const header = row.match(/^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/);
+    if (header) {
+      current = { commit: header[1], originalLine: parseInt(header[2]), line: parseInt(header[3]) };
+      details = commits.get(current.commit) ?? { author: '', email: '', date: '', summary: '' };
+      commits.set(current.commit, details);
+    } else if (row.startsWith('\t') && current && details) {
+      lines.push({ ...current, ...details, uncommitted: current.commit === UNCOMMITTED, text: row.slice(1) });
+      current = null;
+    } else if (details) {
+      const space = row.indexOf(' ');
+      const key = space === -1 ? row : row.slice(0, space);
+      const value = space === -1 ? '' : row.slice(space + 1);
+      if (key === 'author') details.author = value;
+      else if (key === 'author-mail') details.email = value.replace(/^<|>$/g, '');
+      else if (key === 'author-time') details.date = new Date(parseInt(value) * 1000).toISOString();
+      else if (key === 'summary') details.summary = value;
+    }
+  }
+  return lines;
+}
+
+// Runs git in a workspace; every call passes pathspecs after `--` and never goes through a shell
+export class GitClient {
+  constructor(
+    private processes: ProcessRunner,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  private async git(cwd: string, args: string[], allowedExitCodes?: number[]): Promise<{ stdout: string; exitCode: number }> {
+    // No pager, colors or external diff drivers, whatever the user's git config says
+    return this.processes.run('git', ['--no-pager', '-c', 'color.ui=false', ...args], { cwd, timeout: GIT_TIMEOUT, allowedExitCodes });
+  }
+
+  async repositoryRoot(cwd: string): Promise<string> {
+    try {
+      const { stdout } = await this.git(cwd, ['rev-parse', '--show-toplevel']);
+      return stdout.trim();
+    } catch (error) {
+      if (error instanceof ProcessExecError && error.exitCode === 128) {
+        throw new Error(`${cwd} is not inside a git repository`, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  async status(cwd: string, pathspecs: string[] = []): Promise<GitStatus> {
+    const repository = await this.repositoryRoot(cwd);
+    const { stdout } = await this.git(cwd, ['status', '--porcelain=v2', '--branch', '-z', '--untracked-files=all', '--', ...pathspecs]);
+    const status = { repository, ...parseStatus(stdout) };
+    this.log(`git status in ${cwd}: ${status.entries.length} entries on ${status.branch.head ?? 'detached HEAD'}`);
+    return status;
+  }
+
+  private diffArgs(options: GitDiffOptions): string[] {
+    const args = ['diff', '--no-ext-diff', '--no-textconv', '-M'];
+    if (options.staged) args.push('--cached');
+    if (options.context !== undefined) args.push(`--unified=${options.context}`);
+    if (options.from) args.push(validateRef(options.from));
+    if (options.to) {
+      if (!options.from) {
+        throw new Error('A diff with `to` also needs `from`');
+      }
+      if (options.staged) {
+        throw new Error('A diff between two commits cannot also be staged');
+      }
+      args.push(validateRef(options.to));
+    }
+    return args;
+  }
+
+  // Files first, so the caller can drop some of them before the patch is produced
+  async diffFiles(cwd: string, options: GitDiffOptions, pathspecs: string[] = []): Promise<GitDiffFile[]> {
+    const { stdout } = await this.git(cwd, [...this.diffArgs(options), '--numstat', '-z', '--', ...pathspecs]);
+    return parseNumstat(stdout);
+  }
+
+  async diff(cwd: string, options: GitDiffOptions = {}, pathspecs: string[] = [], files?: GitDiffFile[]): Promise<GitDiff> {
+    const repository = await this.repositoryRoot(cwd);
+    files ??= await this.diffFiles(cwd, options, pathspecs);
+    const { stdout } = await this.git(cwd, [...this.diffArgs(options), '--', ...pathspecs]);
+    const maxPatchLength = options.maxPatchLength ?? DEFAULT_MAX_PATCH_LENGTH;
+    const truncated = stdout.length > maxPatchLength;
+    this.log(`git diff in ${cwd}: ${files.length} files, ${stdout.length} characters of patch${truncated ? ' (truncated)' : ''}`);
+    return {
+      repository,
+      staged: Boolean(options.staged),
+      from: options.from ?? null,
+      to: options.to ?? null,
+      files,
+      patch: truncated ? stdout.slice(0, maxPatchLength) : stdout,
+      truncated
+    };
+  }
+
+  async history(cwd: string, options: { ref?: string; limit?: number } = {}, pathspecs: string[] = []): Promise<GitCommit[]> {
+    const args = ['log', `--format=${LOG_FORMAT}`, `--max-count=${options.limit ?? DEFAULT_LOG_LIMIT}`];
+    if (options.ref) args.push(validateRef(options.ref));
+    try {
+      const { stdout } = await this.git(cwd, [...args, '--', ...pathspecs]);
+      return parseLog(stdout);
+    } catch (error) {
+      // A repository without commits has no history rather than an error
+      if (error instanceof ProcessExecError && /does not have any commits/.test(error.stderr)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async blame(cwd: string, file: string, options: { startLine?: number; endLine?: number; ref?: string } = {}): Promise<GitBlameLine[]> {
+    const args = ['blame', '--porcelain'];
+    if (options.startLine !== undefined || options.endLine !== undefined) {
+      args.push(`-L${options.startLine ?? 1},${options.endLine ?? ''}`);
+    }
+    if (options.ref) args.push(validateRef(options.ref));
+    const { stdout } = await this.git(cwd, [...args, '--', file]);
+    return parseBlame(stdout);
+  }
+
+  // Contents of a file at a commit; null when the file does not exist there
+  async show(cwd: string, ref: string, file: string): Promise<string | null> {
+    const commit = await this.git(cwd, ['rev-parse', '--verify', '--quiet', `${validateRef(ref)}^{commit}`], [1]);
+    if (commit.exitCode !== 0) {
+      throw new Error(`Unknown git ref '${ref}'`);
+    }
+    // `./` makes the path relative to cwd instead of the repository root
+    const { stdout, exitCode } = await this.git(cwd, ['show', `${commit.stdout.trim()}:./${file}`], [128]);
+    return exitCode === 0 ? stdout : null;
+  }
+
+  // A conflicted file's version in the index: 1 is the merge base, 2 ours, 3 theirs; null when the stage is absent
+  async showStage(cwd: string, stage: 1 | 2 | 3, file: string): Promise<string | null> {
+    const { stdout, exitCode } = await this.git(cwd, ['show', `:${stage}:./${file}`], [128]);
+    return exitCode === 0 ? stdout : null;
+  }
+}
@@ -0,0 +1,67 @@
+// VSCode-style globs: `**` spans directories, `*` and `?` stay within one segment,
+// `{a,b}` alternates and `[abc]` / `[!abc]` match character classes.
+// Gitignore patterns have no braces, so they can be turned off.
+export function globToRegExp(glob: string, options: { braces?: boolean } = {}): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+  const braces = options.braces ?? true;
+  const source = glob.replace(/^\.?\//, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '*' && source[i + 1] === '*') {
+      i++;
+      if (source[i + 1] === '/') {
+        // `**/` matches zero or more leading directories
+        i++;
+        pattern += '(?:.*/)?';
+      } else {
+        pattern += '.*';
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '\\' && !braces && i + 1 < source.length) {
+      // Gitignore escapes, e.g. `\*` for a literal asterisk
+      pattern += source[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '{' && braces) {
+      braceDepth++;
+      pattern += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      pattern += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else if (char === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) {
+        pattern += '\\[';
+      } else {
+        const body = source.slice(i + 1, end).replace(/\\/g, '\\\\');
+        pattern += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else {
+      pattern += char.replace(/[.+^${}()|\]\\/]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+// A path is matched when it or one of its parent directories matches, like VSCode's excludes
+export function createGlobMatcher(globs: string[]): (path: string) => boolean {
+  const patterns = globs.map(glob => globToRegExp(glob));
+  return (path: string) => {
+    if (patterns.length === 0) return false;
+    const segments = path.split('/');
+    for (let length = segments.length; length > 0; length--) {
+      const candidate = segments.slice(0, length).join('/');
+      if (patterns.some(pattern => pattern.test(candidate))) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
@@ -0,0 +1,299 @@
+import { readFile, readdir, stat } from 'fs/promises';
+import { dirname, join, relative } from 'path';
+import { globToRegExp, createGlobMatcher } from './glob-match.js';
+import { parseJsonc } from './jsonc.js';
+import { resolveEditorProfile, userSettingsPath } from './editor-profiles.js';
+
+// files.exclude hides files everywhere; search.exclude additionally hides them from search and Quick Open
+export type IgnorePurpose = 'files' | 'search';
+
+export type ExcludeSetting = Record<string, boolean | { when?: string }>;
+
+export interface IgnoreOverrides {
+  // Apply .gitignore files and .git/info/exclude (default: true)
+  useIgnoreFiles?: boolean;
+  // Apply files.exclude and search.exclude settings (default: true)
+  useExcludeSettings?: boolean;
+  // Extra globs to exclude for this call
+  exclude?: string[];
+}
+
+interface GitignoreRule {
+  regExp: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  // Directory of the ignore file, relative to the git root ('' for the root)
+  base: string;
+}
+
+interface ExcludeGlob {
+  matches: (path: string) => boolean;
+  // Only exclude when a sibling with this name exists, e.g. "$(basename).ts"
+  when?: string;
+}
+
+// VSCode's built-in defaults, so behaviour matches an editor without any settings
+export const DEFAULT_FILES_EXCLUDE: ExcludeSetting = {
+  '**/.git': true,
+  '**/.svn': true,
+  '**/.hg': true,
+  '**/CVS': true,
+  '**/.DS_Store': true,
+  '**/Thumbs.db': true
+};
+
+export const DEFAULT_SEARCH_EXCLUDE: ExcludeSetting = {
+  '**/node_modules': true,
+  '**/bower_components': true,
+  '**/*.code-search': true
+};
+
+export function parseGitignore(content: string, base: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (line === '') continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    const glob = anchored ? line.replace(/^\//, '') : `**/${line}`;
+    rules.push({ regExp: globToRegExp(glob, { braces: false }), negated, directoryOnly, base });
+  }
+  return rules;
+}
+
+function toExcludeGlobs(setting: ExcludeSetting): ExcludeGlob[] {
+  const globs: ExcludeGlob[] = [];
+  for (const [pattern, value] of Object.entries(setting)) {
+    if (value === true) {
+      globs.push({ matches: createGlobMatcher([pattern]) });
+    } else if (typeof value === 'object' && value !== null && typeof value.when === 'string') {
+      globs.push({ matches: createGlobMatcher([pattern]), when: value.when });
+    }
+  }
+  return globs;
+}
+
+async function readExcludeSettings(path: string, key: 'settings' | null): Promise<{ files: ExcludeSetting; search: ExcludeSetting }> {
+  try {
+    const parsed = parseJsonc(await readFile(path, 'utf8'));
+    const settings = key ? parsed?.[key] : parsed;
+    return { files: settings?.['files.exclude'] ?? {}, search: settings?.['search.exclude'] ?? {} };
+  } catch {
+    return { files: {}, search: {} };
+  }
+}
+
+async function findGitRoot(path: string): Promise<string | null> {
+  let current = path;
+  while (true) {
+    try {
+      await stat(join(current, '.git'));
+      return current;
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return null;
+      current = parent;
+    }
+  }
+}
+
+// Decides which workspace files are hidden, combining git ignore files with VSCode's exclude settings.
+// Paths are relative to the workspace root with forward slashes.
+export class WorkspaceIgnore {
+  private constructor(
+    readonly root: string,
+    readonly useIgnoreFiles: boolean,
+    // Rules from .git/info/exclude and the .gitignore files above the workspace root
+    private baseRules: GitignoreRule[],
+    // Workspace root relative to the git root, '' when they are the same
+    private gitPrefix: string,
+    private excludes: Record<IgnorePurpose, ExcludeGlob[]>,
+    // Plain globs handed to tools that walk the tree themselves (ripgrep)
+    private excludePatterns: Record<IgnorePurpose, string[]>,
+    private log: (message: string, ...args: any[]) => void
+  ) {}
+
+  // Settings are layered like VSCode's: defaults, user settings, *.code-workspace, then .vscode/settings.json
+  static async load(
+    root: string,
+    overrides: IgnoreOverrides = {},
+    context: { userSettingsPath?: string; log?: (message: string, ...args: any[]) => void } = {}
+  ): Promise<WorkspaceIgnore> {
+    const log = context.log ?? (() => {});
+    const useIgnoreFiles = overrides.useIgnoreFiles ?? true;
+    const files: ExcludeSetting = { ...DEFAULT_FILES_EXCLUDE };
+    const search: ExcludeSetting = { ...DEFAULT_SEARCH_EXCLUDE };
+
+    if (overrides.useExcludeSettings ?? true) {
+      let workspaceFiles: string[] = [];
+      try {
+        workspaceFiles = (await readdir(root)).filter(name => name.endsWith('.code-workspace')).sort();
+      } catch {
+        // Unreadable root; nothing to layer
+      }
+
+      const layers = [
+        await readExcludeSettings(context.userSettingsPath ?? userSettingsPath(resolveEditorProfile()), null),
+        ...await Promise.all(workspaceFiles.map(name => readExcludeSettings(join(root, name), 'settings'))),
+        await readExcludeSettings(join(root, '.vscode', 'settings.json'), null)
+      ];
+      // Later layers win per pattern, so `false` can switch a default exclude off
+      for (const layer of layers) {
+        Object.assign(files, layer.files);
+        Object.assign(search, layer.search);
+      }
+    } else {
+      // Version control internals stay hidden even without settings
+      for (const key of Object.keys(files)) {
+        if (key !== '**/.git') delete files[key];
+      }
+      for (const key of Object.keys(search)) delete search[key];
+    }
+
+    for (const pattern of overrides.exclude ?? []) {
+      files[pattern] = true;
+    }
+
+    let baseRules: GitignoreRule[] = [];
+    let gitPrefix = '';
+    if (useIgnoreFiles) {
+      const gitRoot = await findGitRoot(root) ?? root;
+      gitPrefix = relative(gitRoot, root).split('\\').join('/');
+      try {
+        baseRules.push(...parseGitignore(await readFile(join(gitRoot, '.git', 'info', 'exclude'), 'utf8'), ''));
+      } catch {
+        // No git repository or no exclude file
+      }
+
+      // .gitignore files between the git root and the workspace root also apply
+      const segments = gitPrefix ? gitPrefix.split('/') : [];
+      for (let depth = 0; depth < segments.length; depth++) {
+        const base = segments.slice(0, depth).join('/');
+        try {
+          baseRules.push(...parseGitignore(await readFile(join(gitRoot, base, '.gitignore'), 'utf8'), base));
+        } catch {
+          // No ignore file at this level
+        }
+      }
+    }
+
+    const filesGlobs = toExcludeGlobs(files);
+    const searchGlobs = toExcludeGlobs(search);
+    const plain = (setting: ExcludeSetting) => Object.entries(setting).filter(([, value]) => value === true).map(([pattern]) => pattern);
+    log(`Ignore rules for ${root}: ${baseRules.length} inherited git rules, ${filesGlobs.length} files.exclude, ${searchGlobs.length} search.exclude`);
+
+    return new WorkspaceIgnore(
+      root,
+      useIgnoreFiles,
+      baseRules,
+      gitPrefix,
+      { files: filesGlobs, search: [...filesGlobs, ...searchGlobs] },
+      { files: plain(files), search: [...plain(files), ...plain(search)] },
+      log
+    );
+  }
+
+  // Globs for the exclude settings of a purpose; `when` conditions cannot be expressed and are left out
+  excludeGlobs(purpose: IgnorePurpose): string[] {
+    return this.excludePatterns[purpose];
+  }
+
+  // Whether exclude settings hide a path; hasSibling answers `when` conditions
+  isExcluded(path: string, purpose: IgnorePurpose, hasSibling: (path: string) => boolean): boolean {
+    return this.excludes[purpose].some(exclude => {
+      if (!exclude.matches(path)) return false;
+      if (exclude.when === undefined) return true;
+
+      const slash = path.lastIndexOf('/');
+      const name = path.slice(slash + 1);
+      const sibling = exclude.when.replace('$(basename)', name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name);
+      return hasSibling(slash === -1 ? sibling : `${path.slice(0, slash)}/${sibling}`);
+    });
+  }
+
+  private isGitIgnored(path: string, isDirectory: boolean, rules: GitignoreRule[]): boolean {
+    const gitPath = this.gitPrefix ? `${this.gitPrefix}/${path}` : path;
+    // The last matching rule decides; deeper ignore files come later in the list
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !gitPath.startsWith(`${rule.base}/`)) continue;
+      const relativePath = rule.base ? gitPath.slice(rule.base.length + 1) : gitPath;
+      if (rule.regExp.test(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+
+  // Walk the workspace, never descending into ignored directories
+  async listFiles(purpose: IgnorePurpose, options: { maxFiles?: number } = {}): Promise<{ files: string[]; truncated: boolean }> {
+    const files: string[] = [];
+    const maxFiles = options.maxFiles ?? Infinity;
+    let truncated = false;
+
+    const walk = async (directory: string, rules: GitignoreRule[]): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(join(this.root, directory), { withFileTypes: true });
+      } catch (error) {
+        this.log(`Cannot read ${directory || '.'}: ${error}`);
+        return;
+      }
+
+      if (this.useIgnoreFiles && entries.some(entry => entry.name === '.gitignore' && entry.isFile())) {
+        try {
+          const base = [this.gitPrefix, directory].filter(Boolean).join('/');
+          rules = [...rules, ...parseGitignore(await readFile(join(this.root, directory, '.gitignore'), 'utf8'), base)];
+        } catch {
+          // Unreadable ignore file
+        }
+      }
+
+      const names = new Set(entries.map(entry => entry.name));
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (files.length >= maxFiles) {
+          truncated = true;
+          return;
+        }
+
+        const path = directory ? `${directory}/${entry.name}` : entry.name;
+        let isDirectory = entry.isDirectory();
+        if (entry.isSymbolicLink()) {
+          // Linked files are listed; linked directories are not followed, which avoids cycles
+          try {
+            if ((await stat(join(this.root, path))).isDirectory()) continue;
+          } catch {
+            continue;
+          }
+          isDirectory = false;
+        } else if (!isDirectory && !entry.isFile()) {
+          continue;
+        }
+
+        if (this.isExcluded(path, purpose, sibling => names.has(sibling.slice(sibling.lastIndexOf('/') + 1)))) continue;
+        if (this.useIgnoreFiles && this.isGitIgnored(path, isDirectory, rules)) continue;
+
+        if (isDirectory) {
+          await walk(path, rules);
+        } else {
+          files.push(path);
+        }
+      }
+    };
+
+    await walk('', this.baseRules);
+    return { files, truncated };
+  }
+}
@@ -0,0 +1,103 @@
+import { tmpdir } from 'os';
+import { LanguageServerClient } from './lsp-client';
+
+// A language server in a few lines of node: it splits its answers into pieces (one of them inside a multi-byte
+// character), sends several messages in one write and asks the client things before answering
+const STUB_SERVER = String.raw`
+let input = Buffer.alloc(0);
+let queue = Promise.resolve();
+const answers = [];
+const frame = message => {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  return Buffer.concat([Buffer.from('Content-Length: ' + body.length + '\r\n\r\n', 'ascii'), body]);
+};
+const write = (...pieces) => {
+  queue = queue.then(async () => {
+    for (const piece of pieces) {
+      process.stdout.write(piece);
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  });
+};
+const split = (data, ...at) => [0, ...at].map((start, i) => data.subarray(start, at[i] ?? data.length));
+const handle = message => {
+  if (message.method === undefined) {
+    answers.push({ id: message.id, result: message.result });
+  } else if (message.method === 'initialize') {
+    write(frame({ jsonrpc: '2.0', id: 'config', method: 'workspace/configuration', params: { items: [{}, {}] } }));
+    write(...split(frame({ jsonrpc: '2.0', id: message.id, result: { capabilities: {} } }), 10, 25));
+  } else if (message.method === 'test/echo') {
+    const reply = frame({ jsonrpc: '2.0', id: message.id, result: message.params });
+    const multiByte = reply.indexOf(Buffer.from('é', 'utf8'));
+    write(Buffer.concat([
+      frame({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: 3, message: 'echoing' } }),
+      frame({ jsonrpc: '2.0', id: 7, method: 'client/registerCapability', params: { registrations: [] } })
+    ]), ...split(reply, multiByte + 1));
+  } else if (message.method === 'test/answers') {
+    write(frame({ jsonrpc: '2.0', id: message.id, result: answers }));
+  } else if (message.method === 'test/fail') {
+    write(frame({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'no such method' } }));
+  } else if (message.method === 'test/crash') {
+    process.exit(3);
+  } else if (message.method === 'shutdown') {
+    write(frame({ jsonrpc: '2.0', id: message.id, result: null }));
+  } else if (message.method === 'exit') {
+    queue.then(() => process.exit(0));
+  }
+};
+process.stdin.on('data', chunk => {
+  input = Buffer.concat([input, chunk]);
+  while (true) {
+    const headerEnd = input.indexOf('\r\n\r\n');
+    if (headerEnd === -1) return;
+    const length = parseInt(input.subarray(0, headerEnd).toString().match(/Content-Length: (\d+)/)[1]);
+    if (input.length < headerEnd + 4 + length) return;
+    handle(JSON.parse(input.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf8')));
+    input = input.subarray(headerEnd + 4 + length);
+  }
+});
+`;
+
+function startStub(): Promise<LanguageServerClient> {
+  return LanguageServerClient.start([process.execPath, '-e', STUB_SERVER], tmpdir());
+}
+
+describe('LanguageServerClient', () => {
+  it('reassembles framed messages split across and packed into chunks', async () => {
+    const client = await startStub();
+    try {
+      expect(await client.request('test/echo', { text: 'héllo wörld' })).toEqual({ text: 'héllo wörld' });
+    } finally {
+      await client.stop();
+    }
+  });
+
+  it('answers requests from the server', async () => {
+    const client = await startStub();
+    try {
+      await client.request('test/echo', { text: 'é' });
+      expect(await client.request('test/answers', null)).toEqual([
+        { id: 'config', result: [null, null] },
+        { id: 7, result: null }
+      ]);
+    } finally {
+      await client.stop();
+    }
+  });
+
+  it('rejects requests the server fails, does not answer or cannot answer because it exited', async () => {
+    const client = await startStub();
+    try {
+      await expect(client.request('test/fail', null)).rejects.toThrow("Language server request 'test/fail' failed: no such method");
+      await expect(client.request('test/ignored', null, 100)).rejects.toMatchObject({ code: 'timeout' });
+      await expect(client.request('test/crash', null)).rejects.toThrow(/exited with 3/);
+      await expect(client.request('test/echo', {})).rejects.toThrow('is not running');
+    } finally {
+      await client.stop();
+    }
+  });
+
+  it('reports a server that is not installed', async () => {
+    await expect(LanguageServerClient.start(['vscode-helper-no-such-server'], tmpdir())).rejects.toMatchObject({ code: 'external_tool_missing' });
+  });
+});
@@ -0,0 +1,186 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { readFile } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { ExternalToolMissingError } from './process-exec.js';
+import { TimeoutError } from './errors.js';
+import { languageForPath } from './workspace-files.js';
+
+export const LSP_REQUEST_TIMEOUT = 30000;
+// Time a server gets to answer `shutdown` before it is killed
+const SHUTDOWN_TIMEOUT = 2000;
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// A language server spoken to over stdio with Content-Length framed JSON-RPC, for the duration of one lookup
+export class LanguageServerClient {
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private stderr = '';
+  private exited = false;
+
+  private constructor(
+    private child: ChildProcessWithoutNullStreams,
+    private argv: string[],
+    private log: (message: string, ...args: any[]) => void
+  ) {
+    child.stdout.on('data', (chunk: Buffer) => this.receive(chunk));
+    // Writes after the server died fail with EPIPE; the exit handler below reports it
+    child.stdin.on('error', error => this.log(`Language server stdin: ${error.message}`));
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      // Only the tail is kept for error messages
+      this.stderr = (this.stderr + chunk).slice(-2000);
+    });
+    child.on('exit', (code, signal) => {
+      this.exited = true;
+      this.failPending(new Error(`${argv[0]} exited with ${code ?? signal}${this.stderr.trim() ? `: ${this.stderr.trim()}` : ''}`));
+    });
+  }
+
+  // Starts the server and completes the initialize handshake for the workspace root
+  static async start(argv: string[], root: string, log: (message: string, ...args: any[]) => void = () => {}): Promise<LanguageServerClient> {
+    log(`exec ${JSON.stringify(argv)} in ${root} (language server)`);
+    const child = spawn(argv[0], argv.slice(1), { cwd: root, shell: false, stdio: ['pipe', 'pipe', 'pipe'], windowsHide: true });
+    await new Promise<void>((resolvePromise, rejectPromise) => {
+      child.once('spawn', () => resolvePromise());
+      child.once('error', (error: NodeJS.ErrnoException) => {
+        rejectPromise(error.code === 'ENOENT' ? new ExternalToolMissingError(argv[0], argv) : error);
+      });
+    });
+
+    const client = new LanguageServerClient(child, argv, log);
+    try {
+      await client.request('initialize', {
+        processId: process.pid,
+        rootUri: pathToFileURL(root).href,
+        workspaceFolders: [{ uri: pathToFileURL(root).href, name: root }],
+        capabilities: {
+          textDocument: {
+            definition: { linkSupport: true },
+            references: {},
+            documentSymbol: { hierarchicalDocumentSymbolSupport: true }
+          },
+          workspace: { symbol: {}, workspaceFolders: true, configuration: true }
+        }
+      });
+      client.notify('initialized', {});
+    } catch (error) {
+      await client.stop();
+      throw error;
+    }
+    return client;
+  }
+
+  request<T = any>(method: string, params: unknown, timeout: number = LSP_REQUEST_TIMEOUT): Promise<T> {
+    if (this.exited) {
+      return Promise.reject(new Error(`${this.argv[0]} is not running`));
+    }
+    const id = this.nextId++;
+    this.log(`LSP request #${id}: ${method}`);
+    return new Promise<T>((resolvePromise, rejectPromise) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        rejectPromise(new TimeoutError(`Language server request '${method}'`, timeout));
+      }, timeout);
+      this.pending.set(id, { method, resolve: resolvePromise, reject: rejectPromise, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  // Most servers only answer for documents the client has opened
+  async openDocument(path: string): Promise<void> {
+    this.notify('textDocument/didOpen', {
+      textDocument: { uri: pathToFileURL(path).href, languageId: languageForPath(path), version: 1, text: await readFile(path, 'utf8') }
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.exited) {
+      return;
+    }
+    try {
+      await this.request('shutdown', null, SHUTDOWN_TIMEOUT);
+      this.notify('exit', null);
+    } catch {
+      // Killed below
+    }
+    const exited = new Promise<void>(resolvePromise => this.child.once('exit', () => resolvePromise()));
+    const timer = setTimeout(() => this.child.kill('SIGKILL'), SHUTDOWN_TIMEOUT);
+    if (!this.exited) {
+      this.child.kill('SIGTERM');
+      await exited;
+    }
+    clearTimeout(timer);
+  }
+
+  private send(message: Record<string, unknown>): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    this.child.stdin.write(`Content-Length: ${body.length}\r\n\r\n`);
+    this.child.stdin.write(body);
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (true) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+      const length = this.buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length: *(\d+)/i);
+      if (!length) {
+        // Unframed output cannot be resynchronized
+        this.failPending(new Error(`${this.argv[0]} sent a message without Content-Length`));
+        this.child.kill('SIGTERM');
+        return;
+      }
+      const start = headerEnd + 4;
+      const end = start + parseInt(length[1]);
+      if (this.buffer.length < end) return;
+      const body = this.buffer.subarray(start, end).toString('utf8');
+      this.buffer = this.buffer.subarray(end);
+      try {
+        this.handle(JSON.parse(body));
+      } catch (error) {
+        this.log(`Ignoring malformed language server message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  private handle(message: any): void {
+    if (message.id !== undefined && message.method) {
+      // Requests from the server, e.g. workspace/configuration or client/registerCapability; empty answers suffice
+      const result = message.method === 'workspace/configuration'
+        ? (message.params?.items ?? []).map(() => null)
+        : null;
+      this.send({ jsonrpc: '2.0', id: message.id, result });
+      return;
+    }
+    const pending = message.id !== undefined ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(new Error(`Language server request '${pending.method}' failed: ${message.error.message ?? 'Unknown error'}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,139 @@
+import { realpath } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { HelperError } from './errors.js';
+
+// Secrets and repository internals that tools must never read or write, even inside a workspace.
+// A trailing slash matches a directory anywhere in the path, a pattern with a slash inside matches the last segments
+// of the path, and anything else matches the file name.
+export const DEFAULT_DENY_PATTERNS = [
+  '.git/',
+  '.ssh/',
+  '.gnupg/',
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa*',
+  'id_dsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '.npmrc',
+  '.netrc',
+  '.pgpass',
+  'credentials.json',
+  // The helper's own workspace config and approval policy, so a tool call cannot loosen the rules for later ones
+  '.vscode/vscode-helper*.json'
+];
+
+export type PathPolicyViolation = 'outside_workspace' | 'denied_pattern' | 'invalid_path';
+
+export class PathPolicyError extends HelperError {
+  constructor(
+    message: string,
+    public readonly code: PathPolicyViolation,
+    public readonly path: string,
+    public readonly pattern?: string
+  ) {
+    super(message, code, { path, pattern });
+    this.name = 'PathPolicyError';
+  }
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+function isWithin(path: string, root: string): boolean {
+  const relativePath = relative(root, path);
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+}
+
+// Resolve symlinks, also for paths that do not exist yet (e.g. files about to be created)
+async function realpathAllowMissing(path: string): Promise<string> {
+  const missing: string[] = [];
+  let current = path;
+  while (true) {
+    try {
+      return join(await realpath(current), ...missing.reverse());
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) {
+        return path;
+      }
+      missing.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+export class PathPolicy {
+  private readonly allowedPaths: string[];
+  private readonly denyPatterns: Array<{ pattern: string; directory: boolean; segments: number; regExp: RegExp }>;
+
+  constructor(options: { allowedPaths?: string[]; denyPatterns?: string[] } = {}) {
+    this.allowedPaths = (options.allowedPaths ?? []).map(path => resolve(path));
+    this.denyPatterns = (options.denyPatterns ?? DEFAULT_DENY_PATTERNS).map(pattern => {
+      const directory = pattern.endsWith('/');
+      const body = directory ? pattern.slice(0, -1) : pattern;
+      return { pattern, directory, segments: body.split('/').length, regExp: patternToRegExp(body) };
+    });
+  }
+
+  // Returns the deny pattern a path matches, if any
+  matchDenied(path: string): string | null {
+    const segments = path.split(/[\\/]/).filter(Boolean);
+    const fileName = segments[segments.length - 1] ?? '';
+
+    for (const deny of this.denyPatterns) {
+      if (deny.directory) {
+        // Directories match any segment, including the last one (the directory itself)
+        if (segments.some(segment => deny.regExp.test(segment))) {
+          return deny.pattern;
+        }
+      } else if (deny.segments > 1) {
+        if (segments.length >= deny.segments && deny.regExp.test(segments.slice(-deny.segments).join('/'))) {
+          return deny.pattern;
+        }
+      } else if (deny.regExp.test(fileName)) {
+        return deny.pattern;
+      }
+    }
+    return null;
+  }
+
+  // Resolve a user-supplied path against base and make sure it stays within the given roots
+  async resolve(path: string, base: string, workspaceRoots: string[]): Promise<string> {
+    // The filesystem rejects NUL, which would otherwise make every symlink lookup fail and the path look missing
+    if (path.includes('\0')) {
+      throw new PathPolicyError(`Path '${path.replace(/\0/g, '\\0')}' contains a NUL byte`, 'invalid_path', path);
+    }
+    const absolutePath = resolve(base, path);
+    const realPath = await realpathAllowMissing(absolutePath);
+
+    const roots = await Promise.all([...workspaceRoots, ...this.allowedPaths].map(root => realpathAllowMissing(resolve(root))));
+    const root = roots.find(candidate => isWithin(realPath, candidate));
+    if (!root) {
+      throw new PathPolicyError(
+        `Path '${path}' resolves to ${realPath}, which is outside the workspace roots (${roots.join(', ') || 'none'})`,
+        'outside_workspace',
+        path
+      );
+    }
+
+    // Check both the requested and the symlink-resolved path, so a link cannot hide a secret
+    const pattern = this.matchDenied(relative(root, realPath)) ?? this.matchDenied(relative(base, absolutePath));
+    if (pattern) {
+      throw new PathPolicyError(`Access to '${path}' is denied by pattern '${pattern}'`, 'denied_pattern', path, pattern);
+    }
+
+    return absolutePath;
+  }
+}
+
+// Split a PATH-style list from an environment variable
+export function parsePathList(value: string | undefined): string[] {
+  return value ? value.split(sep === '\\' ? ';' : ':').filter(Boolean) : [];
+}
@@ -0,0 +1,122 @@
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { parseTscOutput, parseEslintJson, ProblemCollector } from './problems';
+import { ProcessRunner, ExecResult } from './process-exec';
+
+const root = '/work/proj';
+
+describe('parseTscOutput', () => {
+  // Recorded from `tsc --noEmit --pretty false`, with one Windows path added
+  const output = [
+    "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+    "src/b.ts(10,1): error TS2345: Argument of type '{ a: string; }' is not assignable to parameter of type 'Options'.",
+    "  Object literal may only specify known properties, and 'a' does not exist in type 'Options'.",
+    '',
+    "error TS5083: Cannot read file '/work/proj/tsconfig.base.json'.",
+    "error TS6053: File '/work/proj/missing.ts' not found.",
+    "  The file is in the program because:",
+    "    Matched by include pattern 'missing.ts' in '/work/proj/tsconfig.json'",
+    "C:\\work\\proj\\src\\page (1).ts(2,15): warning TS6133: 'x' is declared but its value is never read.",
+    'Found 4 errors in 2 files.'
+  ].join('\n');
+
+  it('reads located and global diagnostics with their continuation lines', () => {
+    const problems = parseTscOutput(output, root);
+    expect(problems.map(({ file, range, severity, code }) => ({ file, line: range.startLine, column: range.startColumn, severity, code }))).toEqual([
+      { file: join(root, 'src/a.ts'), line: 3, column: 7, severity: 'error', code: 'TS2322' },
+      { file: join(root, 'src/b.ts'), line: 10, column: 1, severity: 'error', code: 'TS2345' },
+      { file: null, line: 1, column: 1, severity: 'error', code: 'TS5083' },
+      { file: null, line: 1, column: 1, severity: 'error', code: 'TS6053' },
+      { file: resolve(root, 'C:\\work\\proj\\src\\page (1).ts'), line: 2, column: 15, severity: 'warning', code: 'TS6133' }
+    ]);
+    expect(problems[1].message).toBe([
+      "Argument of type '{ a: string; }' is not assignable to parameter of type 'Options'.",
+      "Object literal may only specify known properties, and 'a' does not exist in type 'Options'."
+    ].join('\n'));
+    expect(problems[3].message).toBe([
+      "File '/work/proj/missing.ts' not found.",
+      'The file is in the program because:',
+      "Matched by include pattern 'missing.ts' in '/work/proj/tsconfig.json'"
+    ].join('\n'));
+  });
+
+  it('ignores output without diagnostics', () => {
+    expect(parseTscOutput('', root)).toEqual([]);
+    expect(parseTscOutput('  stray indented line\nFound 0 errors.', root)).toEqual([]);
+  });
+});
+
+describe('parseEslintJson', () => {
+  // Recorded from `eslint -f json`, trimmed to the fields that are read
+  const output = JSON.stringify([
+    {
+      filePath: '/work/proj/src/a.ts',
+      messages: [
+        { ruleId: 'no-unused-vars', severity: 1, message: "'x' is assigned a value but never used.", line: 2, column: 7, endLine: 2, endColumn: 8 },
+        { ruleId: 'eqeqeq', severity: 2, message: "Expected '===' and instead saw '=='.", line: 5, column: 9 }
+      ]
+    },
+    { filePath: '/work/proj/src/clean.ts', messages: [] },
+    {
+      filePath: '/work/proj/src/broken.ts',
+      messages: [{ ruleId: null, fatal: true, severity: 2, message: "Parsing error: ')' expected.", line: 4, column: 12 }]
+    },
+    {
+      filePath: '/work/proj/src/b.ts',
+      messages: [{ ruleId: null, severity: 1, message: "Unused eslint-disable directive (no problems were reported from 'no-console')." }]
+    }
+  ]);
+
+  it('reads every message, with defaults for missing positions', () => {
+    expect(parseEslintJson(output)).toEqual([
+      {
+        file: '/work/proj/src/a.ts', range: { startLine: 2, startColumn: 7, endLine: 2, endColumn: 8 },
+        severity: 'warning', source: 'eslint', code: 'no-unused-vars', message: "'x' is assigned a value but never used."
+      },
+      {
+        file: '/work/proj/src/a.ts', range: { startLine: 5, startColumn: 9, endLine: 5, endColumn: 9 },
+        severity: 'error', source: 'eslint', code: 'eqeqeq', message: "Expected '===' and instead saw '=='."
+      },
+      {
+        file: '/work/proj/src/broken.ts', range: { startLine: 4, startColumn: 12, endLine: 4, endColumn: 12 },
+        severity: 'error', source: 'eslint', code: null, message: "Parsing error: ')' expected."
+      },
+      {
+        file: '/work/proj/src/b.ts', range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+        severity: 'warning', source: 'eslint', code: null, message: "Unused eslint-disable directive (no problems were reported from 'no-console')."
+      }
+    ]);
+  });
+
+  it('explains output that is not a JSON report', () => {
+    expect(() => parseEslintJson('Oops! Something went wrong! :(\n\nESLint: 9.0.0')).toThrow('eslint did not print a JSON report, it printed: Oops! Something went wrong! :(');
+    expect(() => parseEslintJson('{}')).toThrow('eslint did not print a JSON report');
+    expect(() => parseEslintJson('')).toThrow(/^eslint did not print a JSON report$/);
+  });
+});
+
+describe('ProblemCollector', () => {
+  let workspace: string;
+
+  beforeAll(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'vscode-helper-problems-'));
+    await writeFile(join(workspace, '.eslintrc.json'), '{}');
+  });
+
+  afterAll(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('marks eslint failed when its output cannot be read', async () => {
+    const runner = new ProcessRunner();
+    runner.run = async (): Promise<ExecResult> => ({ stdout: '(node:1) DeprecationWarning: old config\n[]', stderr: '', exitCode: 0 });
+    const { run, problems } = await new ProblemCollector(runner).eslint(workspace);
+    expect(run).toEqual({ collector: 'eslint', status: 'failed', detail: 'eslint did not print a JSON report, it printed: (node:1) DeprecationWarning: old config' });
+    expect(problems).toEqual([]);
+  });
+
+  it('skips tsc without a tsconfig.json', async () => {
+    expect((await new ProblemCollector(new ProcessRunner()).tsc(workspace)).run.status).toBe('skipped');
+  });
+});
@@ -0,0 +1,179 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { ProcessRunner, ExternalToolMissingError } from './process-exec.js';
+
+export type ProblemSeverity = 'error' | 'warning' | 'info' | 'hint';
+export const PROBLEM_SEVERITIES: ProblemSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+// Lines and columns are 1-based; the end column is exclusive
+export interface ProblemRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface Problem {
+  // Absolute path; null for problems not tied to a file, such as an invalid tsconfig.json
+  file: string | null;
+  range: ProblemRange;
+  severity: ProblemSeverity;
+  // What reported it, e.g. 'ts' or 'eslint', as in the Problems panel
+  source: string;
+  code: string | null;
+  message: string;
+}
+
+export type ProblemCollectorName = 'bridge' | 'tsc' | 'eslint';
+
+export interface CollectorRun {
+  collector: ProblemCollectorName;
+  status: 'ok' | 'skipped' | 'failed';
+  detail: string;
+}
+
+export interface ProblemsResult {
+  collectors: CollectorRun[];
+  problems: Problem[];
+}
+
+// Type checking a large project can take a while
+const COLLECTOR_TIMEOUT = 120000;
+
+const ESLINT_CONFIGS = [
+  'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+  '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml'
+];
+
+// Includes the severities above the given one: 'warning' keeps errors and warnings
+export function atLeast(severity: ProblemSeverity, minimum: ProblemSeverity): boolean {
+  return PROBLEM_SEVERITIES.indexOf(severity) <= PROBLEM_SEVERITIES.indexOf(minimum);
+}
+
+// `tsc --pretty false`: "file(line,col): error TS1234: message", with indented continuation lines
+export function parseTscOutput(output: string, cwd: string): Problem[] {
+  const problems: Problem[] = [];
+  for (const line of output.split('\n')) {
+    const located = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/);
+    const global = located ? null : line.match(/^(error|warning|message) (TS\d+): (.*)$/);
+    if (located || global) {
+      const [file, startLine, startColumn, category, code, message] = located
+        ? [located[1], parseInt(located[2]), parseInt(located[3]), located[4], located[5], located[6]]
+        : [null, 1, 1, global![1], global![2], global![3]];
+      problems.push({
+        file: file === null ? null : resolve(cwd, file),
+        range: { startLine, startColumn, endLine: startLine, endColumn: startColumn },
+        severity: category === 'error' ? 'error' : category === 'warning' ? 'warning' : 'info',
+        source: 'ts',
+        code,
+        message
+      });
+    } else if (/^\s/.test(line) && line.trim() && problems.length > 0) {
+      problems[problems.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+  return problems;
+}
+
+// `eslint -f json`: one entry per file with 1-based positions; severity 2 is an error
+export function parseEslintJson(output: string): Problem[] {
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    // Reported below
+  }
+  if (!Array.isArray(parsed)) {
+    // E.g. a crash or a deprecation notice printed to stdout instead of the report
+    const firstLine = output.trim().split('\n')[0];
+    throw new Error(`eslint did not print a JSON report${firstLine ? `, it printed: ${firstLine.slice(0, 200)}` : ''}`);
+  }
+  const results = parsed as Array<{
+    filePath: string;
+    messages: Array<{ ruleId: string | null; severity: number; message: string; line?: number; column?: number; endLine?: number; endColumn?: number }>;
+  }>;
+  return results.flatMap(result => result.messages.map(message => {
+    const startLine = message.line ?? 1;
+    const startColumn = message.column ?? 1;
+    return {
+      file: result.filePath,
+      range: { startLine, startColumn, endLine: message.endLine ?? startLine, endColumn: message.endColumn ?? startColumn },
+      severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+      source: 'eslint',
+      code: message.ruleId,
+      message: message.message
+    };
+  }));
+}
+
+// Runs the project's own tsc and eslint when it is set up for them
+export class ProblemCollector {
+  constructor(
+    private processes: ProcessRunner,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  // The workspace's locally installed tool, else the one on PATH
+  private binary(root: string, name: string): string {
+    const local = join(root, 'node_modules', '.bin', name);
+    return existsSync(local) ? local : name;
+  }
+
+  private hasEslintConfig(root: string): boolean {
+    if (ESLINT_CONFIGS.some(file => existsSync(join(root, file)))) {
+      return true;
+    }
+    try {
+      return 'eslintConfig' in JSON.parse(readFileSync(join(root, 'package.json'), 'utf8'));
+    } catch {
+      return false;
+    }
+  }
+
+  async tsc(root: string): Promise<{ run: CollectorRun; problems: Problem[] }> {
+    if (!existsSync(join(root, 'tsconfig.json'))) {
+      return { run: { collector: 'tsc', status: 'skipped', detail: 'no tsconfig.json in the workspace root' }, problems: [] };
+    }
+    const tsc = this.binary(root, 'tsc');
+    try {
+      // tsc exits with 1 or 2 when it reports errors
+      const { stdout } = await this.processes.run(tsc, ['--noEmit', '--pretty', 'false', '-p', root], {
+        cwd: root,
+        timeout: COLLECTOR_TIMEOUT,
+        allowedExitCodes: [1, 2]
+      });
+      const problems = parseTscOutput(stdout, root);
+      this.log(`tsc reported ${problems.length} problems`);
+      return { run: { collector: 'tsc', status: 'ok', detail: `${isAbsolute(tsc) ? tsc : 'tsc from PATH'}, ${problems.length} problems` }, problems };
+    } catch (error) {
+      return { run: this.failedRun('tsc', error), problems: [] };
+    }
+  }
+
+  async eslint(root: string): Promise<{ run: CollectorRun; problems: Problem[] }> {
+    if (!this.hasEslintConfig(root)) {
+      return { run: { collector: 'eslint', status: 'skipped', detail: 'no ESLint configuration in the workspace root' }, problems: [] };
+    }
+    const eslint = this.binary(root, 'eslint');
+    try {
+      // eslint exits with 1 when it reports errors and 2 when it could not run
+      const { stdout } = await this.processes.run(eslint, ['-f', 'json', '--no-error-on-unmatched-pattern', '.'], {
+        cwd: root,
+        timeout: COLLECTOR_TIMEOUT,
+        allowedExitCodes: [1]
+      });
+      const problems = parseEslintJson(stdout);
+      this.log(`eslint reported ${problems.length} problems`);
+      return { run: { collector: 'eslint', status: 'ok', detail: `${isAbsolute(eslint) ? eslint : 'eslint from PATH'}, ${problems.length} problems` }, problems };
+    } catch (error) {
+      return { run: this.failedRun('eslint', error), problems: [] };
+    }
+  }
+
+  // A missing tool only means there is nothing to collect from it
+  private failedRun(collector: ProblemCollectorName, error: unknown): CollectorRun {
+    const detail = error instanceof Error ? error.message : 'Unknown error';
+    this.log(`${collector} collector: ${detail}`);
+    return { collector, status: error instanceof ExternalToolMissingError ? 'skipped' : 'failed', detail };
+  }
+}
@@ -0,0 +1,156 @@
+import { execFile, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { HelperError } from './errors.js';
+
+export interface ExecOptions {
+  cwd?: string;
+  // Milliseconds before the process is killed
+  timeout?: number;
+  maxBuffer?: number;
+  // Exit codes that count as success besides 0 (e.g. 1 for "no matches" from rg/grep)
+  allowedExitCodes?: number[];
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export const DEFAULT_EXEC_TIMEOUT = 10000;
+const DEFAULT_MAX_BUFFER = 16 * 1024 * 1024;
+
+export class ProcessExecError extends HelperError {
+  constructor(
+    message: string,
+    public readonly argv: string[],
+    public readonly exitCode: number | null,
+    public readonly stdout: string,
+    public readonly stderr: string,
+    public readonly timedOut: boolean,
+    // Set when the executable itself could not be started, e.g. 'ENOENT'
+    public readonly spawnError?: string
+  ) {
+    super(
+      message,
+      spawnError === 'ENOENT' ? 'external_tool_missing' : timedOut ? 'timeout' : 'process_failed',
+      spawnError === 'ENOENT' ? { tool: argv[0] } : { argv, exitCode }
+    );
+    this.name = 'ProcessExecError';
+  }
+}
+
+// A ProcessExecError for an executable that is not installed, naming the tool
+export class ExternalToolMissingError extends ProcessExecError {
+  constructor(public readonly tool: string, argv: string[], stderr: string = '') {
+    super(`${tool} is not installed or not on PATH`, argv, null, '', stderr, false, 'ENOENT');
+    this.name = 'ExternalToolMissingError';
+  }
+}
+
+// Runs external tools with an argv array and no shell, so arguments are never interpreted
+export class ProcessRunner {
+  constructor(private log: (message: string, ...args: any[]) => void = () => {}) {}
+
+  run(file: string, args: string[] = [], options: ExecOptions = {}): Promise<ExecResult> {
+    const argv = [file, ...args];
+    const timeout = options.timeout ?? DEFAULT_EXEC_TIMEOUT;
+    this.log(`exec ${JSON.stringify(argv)}${options.cwd ? ` in ${options.cwd}` : ''}`);
+
+    return new Promise((resolvePromise, rejectPromise) => {
+      execFile(file, args, {
+        cwd: options.cwd,
+        timeout,
+        maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+        encoding: 'utf8',
+        shell: false,
+        windowsHide: true
+      }, (error, stdout, stderr) => {
+        if (!error) {
+          resolvePromise({ stdout, stderr, exitCode: 0 });
+          return;
+        }
+
+        const execError = error as NodeJS.ErrnoException & { code?: string | number; killed?: boolean; signal?: string };
+        const exitCode = typeof execError.code === 'number' ? execError.code : null;
+        if (exitCode !== null && options.allowedExitCodes?.includes(exitCode)) {
+          resolvePromise({ stdout, stderr, exitCode });
+          return;
+        }
+
+        const timedOut = execError.killed === true && execError.signal === 'SIGTERM';
+        const spawnError = typeof execError.code === 'string' ? execError.code : undefined;
+        const reason = spawnError === 'ENOENT'
+          ? `${file} is not installed or not on PATH`
+          : timedOut
+            ? `${file} timed out after ${timeout}ms`
+            : `${file} exited with ${exitCode ?? execError.signal ?? 'an error'}${stderr.trim() ? `: ${stderr.trim()}` : ''}`;
+
+        this.log(`exec failed: ${reason}`);
+        rejectPromise(spawnError === 'ENOENT'
+          ? new ExternalToolMissingError(file, argv, stderr)
+          : new ProcessExecError(reason, argv, exitCode, stdout, stderr, timedOut, spawnError));
+      });
+    });
+  }
+
+  // Feed stdout to onLine as it arrives; returning false stops the process early
+  streamLines(
+    file: string,
+    args: string[],
+    onLine: (line: string) => boolean | void,
+    options: ExecOptions = {}
+  ): Promise<{ exitCode: number | null; stoppedEarly: boolean; stderr: string }> {
+    const argv = [file, ...args];
+    const timeout = options.timeout ?? DEFAULT_EXEC_TIMEOUT;
+    this.log(`exec ${JSON.stringify(argv)}${options.cwd ? ` in ${options.cwd}` : ''} (streaming)`);
+
+    return new Promise((resolvePromise, rejectPromise) => {
+      const child = spawn(file, args, { cwd: options.cwd, shell: false, stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true });
+      let stoppedEarly = false;
+      let timedOut = false;
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+      }, timeout);
+
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        stderr += chunk;
+      });
+
+      const lines = createInterface({ input: child.stdout });
+      lines.on('line', line => {
+        if (stoppedEarly) return;
+        if (onLine(line) === false) {
+          stoppedEarly = true;
+          lines.close();
+          child.kill('SIGTERM');
+        }
+      });
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        const reason = error.code === 'ENOENT' ? `${file} is not installed or not on PATH` : error.message;
+        this.log(`exec failed: ${reason}`);
+        rejectPromise(error.code === 'ENOENT'
+          ? new ExternalToolMissingError(file, argv, stderr)
+          : new ProcessExecError(reason, argv, null, '', stderr, false, error.code));
+      });
+      child.on('close', exitCode => {
+        clearTimeout(timer);
+        if (timedOut) {
+          rejectPromise(new ProcessExecError(`${file} timed out after ${timeout}ms`, argv, exitCode, '', stderr, true));
+        } else if (!stoppedEarly && exitCode !== 0 && !(exitCode !== null && options.allowedExitCodes?.includes(exitCode))) {
+          const reason = `${file} exited with ${exitCode ?? 'a signal'}${stderr.trim() ? `: ${stderr.trim()}` : ''}`;
+          this.log(`exec failed: ${reason}`);
+          rejectPromise(new ProcessExecError(reason, argv, exitCode, '', stderr, false));
+        } else {
+          resolvePromise({ exitCode, stoppedEarly, stderr });
+        }
+      });
+    });
+  }
+}
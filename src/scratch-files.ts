@@ -0,0 +1,60 @@
+import { mkdir, mkdtemp, writeFile, readdir, stat, rm } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { tmpdir } from 'os';
+
+// Temporary sides of diff and merge views: git revisions, proposed content, conflict stages
+export const SCRATCH_DIR = join(tmpdir(), 'vscode-helper-diff');
+// Views opened without waiting may stay open for a while, so their files outlive the call
+const MAX_AGE = 24 * 60 * 60 * 1000;
+
+// The file name is the title of its side of the view; the extension keeps syntax highlighting
+export function scratchName(path: string, label: string): string {
+  const extension = extname(path);
+  return `${basename(path, extension)} (${label.replace(/[\\/:]/g, '_')})${extension}`;
+}
+
+export class ScratchFiles {
+  constructor(
+    private log: (message: string, ...args: any[]) => void = () => {},
+    private root: string = SCRATCH_DIR
+  ) {}
+
+  // A fresh directory with the files, read-only so they are not mistaken for the real ones
+  async create(files: Array<{ name: string; content: string }>): Promise<{ dir: string; paths: string[] }> {
+    await mkdir(this.root, { recursive: true });
+    const dir = await mkdtemp(join(this.root, 'view-'));
+    const paths: string[] = [];
+    for (const file of files) {
+      const path = join(dir, file.name);
+      await writeFile(path, file.content, { mode: 0o444 });
+      paths.push(path);
+    }
+    this.log(`Scratch files in ${dir}: ${files.map(file => file.name).join(', ')}`);
+    return { dir, paths };
+  }
+
+  async remove(dir: string): Promise<void> {
+    await rm(dir, { recursive: true, force: true });
+    this.log(`Removed scratch files in ${dir}`);
+  }
+
+  // Removes directories of views that are most likely closed by now
+  async sweep(now: number = Date.now()): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.root);
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const dir = join(this.root, entry);
+      try {
+        if (now - (await stat(dir)).mtimeMs > MAX_AGE) {
+          await this.remove(dir);
+        }
+      } catch {
+        // Removed by another process in the meantime
+      }
+    }
+  }
+}
@@ -6,15 +6,25 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { VSCodeController } from './vscode-controller.js';
+import { HelperConfig, loadConfig } from './config.js';
+import { ProblemSeverity } from './problems.js';
+import { FileEditRequest } from './text-edits.js';
+import { PolicyDeniedError, describeError } from './errors.js';
+import { ApprovalPolicy } from './approval-policy.js';
+import { DEFAULT_PAGE_SIZE, DEFAULT_TREE_DEPTH } from './workspace-files.js';
 
 class VSCodeMCPServer {
   private server: Server;
   private vscode: VSCodeController;
+  private policy: ApprovalPolicy;
 
-  constructor() {
+  constructor(config: HelperConfig = loadConfig().config) {
     this.server = new Server(
       {
         name: 'vscode-self-mcp',
@@ -28,7 +38,11 @@ class VSCodeMCPServer {
       }
     );
 
-    this.vscode = new VSCodeController();
+    this.vscode = new VSCodeController(config);
+    this.policy = new ApprovalPolicy(
+      (message, detail) => this.vscode.requestApproval(message, detail),
+      path => this.vscode.resolveToolPath(path)
+    );
     this.setupHandlers();
   }
 
@@ -50,6 +64,14 @@ class VSCodeMCPServer {
                 type: 'number',
                 description: 'Optional line number to jump to',
               },
+              column: {
+                type: 'number',
+                description: 'Optional column on that line, e.g. from find_definition',
+              },
+              diffAgainst: {
+                type: 'string',
+                description: "Open VSCode's diff view of the file against this git ref (e.g. HEAD) instead of the file itself",
+              },
             },
             required: ['path'],
           },
@@ -68,6 +90,14 @@ class VSCodeMCPServer {
                 type: 'string',
                 description: 'Working directory (optional)',
               },
+              timeout: {
+                type: 'number',
+                description: 'Milliseconds before the command is killed (default: 120000, 0 disables)',
+              },
+              maxOutput: {
+                type: 'number',
+                description: 'Characters kept per stream; the middle of longer output is dropped (default: 100000)',
+              },
             },
             required: ['command'],
           },
@@ -109,6 +139,80 @@ class VSCodeMCPServer {
             required: ['query', 'type'],
           },
         },
+        {
+          name: 'find_files',
+          description: 'Fuzzy-find workspace files by name or path, ranked like VSCode Quick Open (respects .gitignore and files.exclude)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Fuzzy query, e.g. "srvts" or "ext/src"; space-separated pieces must all match',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results (default: 50)',
+              },
+              useIgnoreFiles: {
+                type: 'boolean',
+                description: 'Apply .gitignore files and .git/info/exclude (default: true)',
+              },
+              useExcludeSettings: {
+                type: 'boolean',
+                description: 'Apply files.exclude and search.exclude from the VSCode settings (default: true)',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'search_content',
+          description: 'Search file contents in the workspace and return structured matches (file, line, column, preview, submatches, context)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Text or regular expression to search for',
+              },
+              regex: {
+                type: 'boolean',
+                description: 'Treat the query as a regular expression (default: false, literal)',
+              },
+              caseSensitive: {
+                type: 'boolean',
+                description: 'Match case (default: false)',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Globs of files to search, e.g. ["src/**/*.ts"]',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Globs of files to skip',
+              },
+              contextLines: {
+                type: 'number',
+                description: 'Lines of context before and after each match (default: 0)',
+              },
+              maxResults: {
+                type: 'number',
+                description: 'Stop after this many matches (default: 500)',
+              },
+              useIgnoreFiles: {
+                type: 'boolean',
+                description: 'Apply .gitignore files and .git/info/exclude (default: true)',
+              },
+              useExcludeSettings: {
+                type: 'boolean',
+                description: 'Apply files.exclude and search.exclude from the VSCode settings (default: true)',
+              },
+            },
+            required: ['query'],
+          },
+        },
         {
           name: 'reveal_in_explorer',
           description: 'Reveal a file in VSCode file explorer',
@@ -145,6 +249,447 @@ class VSCodeMCPServer {
             required: ['path'],
           },
         },
+        {
+          name: 'get_selection',
+          description: 'Get the file, ranges and text of the current selections in the active VSCode editor',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'set_selection',
+          description: 'Open a file and select one or more ranges in it (lines and columns are 1-based)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to the file, relative to the active workspace',
+              },
+              selections: {
+                type: 'array',
+                description: 'Ranges to select; the first one is revealed',
+                items: {
+                  type: 'object',
+                  properties: {
+                    startLine: { type: 'number' },
+                    startColumn: { type: 'number', description: 'Defaults to 1' },
+                    endLine: { type: 'number', description: 'Defaults to startLine' },
+                    endColumn: { type: 'number', description: 'Defaults to the end of endLine' },
+                  },
+                  required: ['startLine'],
+                },
+              },
+              reveal: {
+                type: 'string',
+                enum: ['center', 'top', 'inView'],
+                description: 'Where to scroll the first selection (default: center)',
+              },
+            },
+            required: ['path', 'selections'],
+          },
+        },
+        {
+          name: 'reveal_range',
+          description: 'Scroll a file range into view without changing the selection',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to the file, relative to the active workspace',
+              },
+              startLine: { type: 'number' },
+              startColumn: { type: 'number' },
+              endLine: { type: 'number' },
+              endColumn: { type: 'number' },
+              reveal: {
+                type: 'string',
+                enum: ['center', 'top', 'inView'],
+                description: 'Where to scroll the range (default: center)',
+              },
+            },
+            required: ['path', 'startLine'],
+          },
+        },
+        {
+          name: 'apply_edit',
+          description: 'Apply range replacements and/or unified-diff hunks across files atomically. Goes through VSCode editor buffers (undoable) when the bridge extension is running, otherwise writes to disk. Any conflict rejects the whole batch.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              files: {
+                type: 'array',
+                description: 'Per-file edits, paths relative to the active workspace',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    edits: {
+                      type: 'array',
+                      description: 'Range replacements; lines and columns are 1-based, the end is exclusive',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          startLine: { type: 'number' },
+                          startColumn: { type: 'number' },
+                          endLine: { type: 'number' },
+                          endColumn: { type: 'number' },
+                          newText: { type: 'string' },
+                          expectedText: {
+                            type: 'string',
+                            description: 'Text currently in the range; the batch fails if it differs',
+                          },
+                        },
+                        required: ['startLine', 'startColumn', 'endLine', 'endColumn', 'newText'],
+                      },
+                    },
+                    diff: {
+                      type: 'string',
+                      description: 'Unified diff hunks for this file',
+                    },
+                  },
+                  required: ['path'],
+                },
+              },
+              patch: {
+                type: 'string',
+                description: 'Multi-file unified diff with ---/+++ headers',
+              },
+              save: {
+                type: 'boolean',
+                description: 'Save edited buffers after applying (editor bridge only, default false)',
+              },
+            },
+          },
+        },
+        {
+          name: 'terminal_create',
+          description: 'Create a named, persistent VSCode integrated terminal whose output is captured (requires the bridge extension)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Unique terminal name',
+              },
+              cwd: {
+                type: 'string',
+                description: 'Working directory, relative to the active workspace',
+              },
+              command: {
+                type: 'string',
+                description: 'Command to run; omit to start an interactive shell fed by terminal_send',
+              },
+              shell: {
+                type: 'string',
+                description: 'Shell executable (default: $SHELL)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'terminal_send',
+          description: 'Send input to a terminal session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              input: {
+                type: 'string',
+                description: 'Text to write to the terminal',
+              },
+              newline: {
+                type: 'boolean',
+                description: 'Append a newline (default: true)',
+              },
+            },
+            required: ['name', 'input'],
+          },
+        },
+        {
+          name: 'terminal_read',
+          description: 'Read terminal output, optionally only what arrived after a previous offset, and optionally wait for the process to exit',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              since: {
+                type: 'number',
+                description: 'Offset returned by a previous call; omit to read the whole buffer',
+              },
+              wait: {
+                type: 'number',
+                description: 'Milliseconds to wait for the process to exit before returning',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'terminal_kill',
+          description: 'Stop the process of a terminal session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              signal: {
+                type: 'string',
+                description: 'Signal to send (default: SIGTERM)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'open_diff',
+          description: "Open VSCode's diff view of two files, or of a file and proposed content that is not written yet (to show a suggested change before applying it)",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              left: {
+                type: 'string',
+                description: 'Original file; with proposedContent it may not exist yet',
+              },
+              right: {
+                type: 'string',
+                description: 'File to compare with',
+              },
+              proposedContent: {
+                type: 'string',
+                description: 'Proposed content of the left file, shown on the right instead of a file',
+              },
+            },
+            required: ['left'],
+          },
+        },
+        {
+          name: 'open_merge',
+          description: "Open VSCode's three-way merge editor for a file; without ours/theirs/base the sides are the conflict stages in the git index",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              result: {
+                type: 'string',
+                description: 'File the merge result is written to',
+              },
+              ours: {
+                type: 'string',
+                description: 'Our version',
+              },
+              theirs: {
+                type: 'string',
+                description: 'Their version',
+              },
+              base: {
+                type: 'string',
+                description: 'Common ancestor of both versions',
+              },
+            },
+            required: ['result'],
+          },
+        },
+        {
+          name: 'get_diagnostics',
+          description: 'Problems in the workspace (file, range, severity, source, code, message): the Problems panel when the bridge extension runs, otherwise the results of tsc --noEmit and eslint if the user config sets runProblemCommands',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'Only problems in this file or directory',
+              },
+              severity: {
+                type: 'string',
+                enum: ['error', 'warning', 'info', 'hint'],
+                description: 'Minimum severity, e.g. "warning" for errors and warnings',
+              },
+            },
+          },
+        },
+        {
+          name: 'find_definition',
+          description: "Where the symbol at a position is defined, through VSCode's definition provider when the bridge extension runs, otherwise the configured language server. Locations (file, line, column) can be passed to open_file",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'File containing the symbol',
+              },
+              line: {
+                type: 'number',
+                description: 'Line of the symbol (1-based)',
+              },
+              column: {
+                type: 'number',
+                description: 'Column of the symbol (1-based)',
+              },
+            },
+            required: ['file', 'line', 'column'],
+          },
+        },
+        {
+          name: 'find_references',
+          description: "Every use of the symbol at a position, through VSCode's reference provider or the configured language server. Locations (file, line, column) can be passed to open_file",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'File containing the symbol',
+              },
+              line: {
+                type: 'number',
+                description: 'Line of the symbol (1-based)',
+              },
+              column: {
+                type: 'number',
+                description: 'Column of the symbol (1-based)',
+              },
+              includeDeclaration: {
+                type: 'boolean',
+                description: 'Include the declaration itself (default: true)',
+              },
+            },
+            required: ['file', 'line', 'column'],
+          },
+        },
+        {
+          name: 'document_symbols',
+          description: 'Classes, functions, methods and other symbols of a file with their kind, container and location',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'File to list symbols of',
+              },
+            },
+            required: ['file'],
+          },
+        },
+        {
+          name: 'workspace_symbols',
+          description: 'Symbols anywhere in the workspace whose name matches a query, with their kind, container and location',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Symbol name or part of it, matched fuzzily by the language provider',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of symbols (default: 100)',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'git_status',
+          description: 'Branch, upstream and changed, renamed, unmerged and untracked files of the active workspace (paths relative to the repository root)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Limit to this file or directory',
+              },
+            },
+          },
+        },
+        {
+          name: 'git_diff',
+          description: 'Changed files with line counts and the unified patch: working tree against the index by default, staged changes, or between refs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              staged: {
+                type: 'boolean',
+                description: 'Compare the index with HEAD (or with `from`) instead of the working tree',
+              },
+              from: {
+                type: 'string',
+                description: 'Compare against this ref, e.g. HEAD~3 or main',
+              },
+              to: {
+                type: 'string',
+                description: 'With `from`, compare two refs instead of the working tree',
+              },
+              path: {
+                type: 'string',
+                description: 'Limit to this file or directory',
+              },
+              context: {
+                type: 'number',
+                description: 'Lines of context around changes (default: 3)',
+              },
+              maxPatchLength: {
+                type: 'number',
+                description: 'Characters of patch text to return at most (default: 200000)',
+              },
+            },
+          },
+        },
+        {
+          name: 'git_log',
+          description: 'Recent commits (hash, parents, author, ISO date, subject), newest first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ref: {
+                type: 'string',
+                description: 'Start from this ref instead of HEAD',
+              },
+              path: {
+                type: 'string',
+                description: 'Only commits touching this file or directory',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of commits (default: 20)',
+              },
+            },
+          },
+        },
+        {
+          name: 'git_blame',
+          description: 'Commit, author and date that last changed each line of a file, optionally for a line range',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File to blame',
+              },
+              startLine: {
+                type: 'number',
+                description: 'First line (1-based, default: 1)',
+              },
+              endLine: {
+                type: 'number',
+                description: 'Last line, inclusive (default: end of file)',
+              },
+              ref: {
+                type: 'string',
+                description: 'Blame the file as of this ref instead of the working tree',
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'diagnostics',
+          description: 'Check external tools, workspace storage and every workspace detection strategy, reporting what each found, why candidates were rejected and how to fix problems',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
       ],
     }));
 
@@ -154,50 +699,74 @@ class VSCodeMCPServer {
         {
           uri: 'vscode://workspace/files',
           name: 'Workspace Files',
-          description: 'List of files in the current workspace',
+          description: 'First page of workspace files with size, mtime and language, a summary, and a nextCursor for the following page',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'vscode://workspace/tree',
+          name: 'Workspace Tree',
+          description: `Directory tree of the workspace, ${DEFAULT_TREE_DEPTH} levels deep; deeper directories carry file counts and dominant languages`,
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'vscode://workspace/recent',
+          name: 'Recently Opened',
+          description: 'Recently opened folders, workspaces and files, most recent first, and the windows VSCode last had open',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'vscode://workspace/diagnostics',
+          name: 'Workspace Problems',
+          description: 'Errors and warnings (file, range, severity, source, message) from the Problems panel, or from tsc and eslint without the bridge extension; filter with ?severity= and ?file=',
           mimeType: 'application/json',
         },
         {
           uri: 'vscode://editor/content',
           name: 'Current Editor Content',
-          description: 'Content of the currently active editor',
-          mimeType: 'text/plain',
+          description: 'Text, URI, language and unsaved state of the active editor (requires the vscode-helper-bridge extension)',
+          mimeType: 'application/json',
+        },
+      ],
+    }));
+
+    // Parameterised views of the workspace files
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: 'vscode://workspace/files/{+dir}{?cursor,pageSize}',
+          name: 'Directory Files',
+          description: `Files below a workspace directory, ${DEFAULT_PAGE_SIZE} per page; pass the returned nextCursor as cursor`,
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'vscode://workspace/tree/{+dir}{?depth}',
+          name: 'Directory Tree',
+          description: 'Directory tree below a workspace directory with a depth limit',
+          mimeType: 'application/json',
         },
       ],
     }));
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      try {
+        // Every call goes through the approval policy first; "ask" blocks until the user answers
+        const { name, arguments: args = {} } = request.params;
+        const workspace = await this.vscode.getActiveVSCodeWorkspacePath();
+        const decision = await this.policy.evaluate(name, args, workspace);
+        if (decision.action === 'deny') {
+          throw new PolicyDeniedError(name, decision.reason, decision.answeredByUser);
+        }
 
-      if (!args) {
-        throw new Error('Missing arguments');
-      }
-
-      switch (name) {
-        case 'open_file':
-          return await this.vscode.openFile(args.path as string, args.line as number);
-
-        case 'run_terminal_command':
-          return await this.vscode.runTerminalCommand(args.command as string, args.cwd as string);
-
-        case 'create_file':
-          return await this.vscode.createFile(args.path as string, args.content as string);
-
-        case 'search_workspace':
-          return await this.vscode.searchWorkspace(args.query as string, args.type as 'files' | 'content');
-
-        case 'reveal_in_explorer':
-          return await this.vscode.revealInExplorer(args.path as string);
-
-        case 'focus_explorer':
-          return await this.vscode.focusExplorer();
-
-        case 'select_file_in_explorer':
-          return await this.vscode.selectFileInExplorer(args.path as string);
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+        return await this.callTool(request, extra);
+      } catch (error) {
+        // Failures are tool results the client can act on, with a machine-readable code
+        const { message, ...details } = describeError(error);
+        return {
+          content: [{ type: 'text', text: message }],
+          isError: true,
+          error: details,
+        };
       }
     });
 
@@ -205,9 +774,35 @@ class VSCodeMCPServer {
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
+      // vscode://workspace/files[/dir][?cursor=..&pageSize=..] and vscode://workspace/tree[/dir][?depth=..]
+      const url = new URL(uri);
+      const [, view, ...segments] = url.pathname.split('/');
+      if (url.protocol === 'vscode:' && url.host === 'workspace' && (view === 'files' || view === 'tree')) {
+        const dir = segments.filter(Boolean).map(decodeURIComponent).join('/');
+        // Number() rather than parseInt, so "10abc" is rejected instead of read as 10
+        const number = (name: string) => url.searchParams.has(name) ? Number(url.searchParams.get(name)) : undefined;
+        if (view === 'files') {
+          const { contents } = await this.vscode.getWorkspaceFiles({ dir, cursor: url.searchParams.get('cursor') ?? undefined, pageSize: number('pageSize') });
+          return { contents };
+        }
+        const { contents } = await this.vscode.getWorkspaceTree({ dir, depth: number('depth') });
+        return { contents };
+      }
+
+      // vscode://workspace/diagnostics[?severity=..&file=..]
+      if (url.protocol === 'vscode:' && url.host === 'workspace' && view === 'diagnostics') {
+        const { contents } = await this.vscode.getProblemsResource({
+          file: url.searchParams.get('file') ?? undefined,
+          severity: (url.searchParams.get('severity') ?? undefined) as ProblemSeverity | undefined,
+        });
+        return { contents };
+      }
+
       switch (uri) {
-        case 'vscode://workspace/files':
-          return await this.vscode.getWorkspaceFiles();
+        case 'vscode://workspace/recent': {
+          const { contents } = await this.vscode.getRecentlyOpened();
+          return { contents };
+        }
 
         case 'vscode://editor/content':
           return await this.vscode.getCurrentEditorContent();
@@ -218,6 +813,199 @@ class VSCodeMCPServer {
     });
   }
 
+  private async callTool(request: CallToolRequest, extra: RequestHandlerExtra) {
+    // Tools without parameters may be called without an arguments object
+    const { name, arguments: args = {} } = request.params;
+
+    switch (name) {
+      case 'open_file':
+        return await this.vscode.openFile(args.path as string, args.line as number, {
+          column: args.column as number | undefined,
+          diffAgainst: args.diffAgainst as string | undefined,
+        });
+
+      case 'run_terminal_command':
+        return await this.vscode.runTerminalCommand(args.command as string, args.cwd as string, {
+          timeout: args.timeout as number | undefined,
+          maxOutput: args.maxOutput as number | undefined,
+          onOutput: this.progressReporter(request.params._meta?.progressToken),
+          signal: extra.signal,
+        });
+
+      case 'create_file':
+        return await this.vscode.createFile(args.path as string, args.content as string);
+
+      case 'search_workspace':
+        return await this.vscode.searchWorkspace(args.query as string, args.type as 'files' | 'content');
+
+      case 'find_files':
+        return await this.vscode.findFiles(args.query as string, args.limit as number | undefined, {
+          useIgnoreFiles: args.useIgnoreFiles as boolean | undefined,
+          useExcludeSettings: args.useExcludeSettings as boolean | undefined,
+        });
+
+      case 'search_content':
+        return await this.vscode.searchContent(args.query as string, {
+          regex: args.regex as boolean | undefined,
+          caseSensitive: args.caseSensitive as boolean | undefined,
+          include: args.include as string[] | undefined,
+          exclude: args.exclude as string[] | undefined,
+          contextLines: args.contextLines as number | undefined,
+          maxResults: args.maxResults as number | undefined,
+        }, {
+          useIgnoreFiles: args.useIgnoreFiles as boolean | undefined,
+          useExcludeSettings: args.useExcludeSettings as boolean | undefined,
+        });
+
+      case 'reveal_in_explorer':
+        return await this.vscode.revealInExplorer(args.path as string);
+
+      case 'focus_explorer':
+        return await this.vscode.focusExplorer();
+
+      case 'select_file_in_explorer':
+        return await this.vscode.selectFileInExplorer(args.path as string);
+
+      case 'get_selection':
+        return await this.vscode.getSelection();
+
+      case 'set_selection':
+        return await this.vscode.setSelection(
+          args.path as string,
+          args.selections as Array<{ startLine: number; startColumn?: number; endLine?: number; endColumn?: number }>,
+          args.reveal as 'center' | 'top' | 'inView' | undefined
+        );
+
+      case 'reveal_range':
+        return await this.vscode.revealRange(
+          args.path as string,
+          {
+            startLine: args.startLine as number,
+            startColumn: args.startColumn as number | undefined,
+            endLine: args.endLine as number | undefined,
+            endColumn: args.endColumn as number | undefined,
+          },
+          args.reveal as 'center' | 'top' | 'inView' | undefined
+        );
+
+      case 'apply_edit':
+        return await this.vscode.applyEdit((args.files as FileEditRequest[]) ?? [], {
+          patch: args.patch as string | undefined,
+          save: args.save as boolean | undefined,
+        });
+
+      case 'terminal_create':
+        return await this.vscode.terminalCreate(args.name as string, {
+          cwd: args.cwd as string | undefined,
+          command: args.command as string | undefined,
+          shell: args.shell as string | undefined,
+        });
+
+      case 'terminal_send':
+        return await this.vscode.terminalSend(args.name as string, args.input as string, args.newline !== false);
+
+      case 'terminal_read':
+        return await this.vscode.terminalRead(args.name as string, args.since as number | undefined, args.wait as number | undefined);
+
+      case 'terminal_kill':
+        return await this.vscode.terminalKill(args.name as string, args.signal as string | undefined);
+
+      case 'open_diff':
+        return await this.vscode.openDiff(args.left as string, args.right as string | undefined, {
+          proposedContent: args.proposedContent as string | undefined,
+        });
+
+      case 'open_merge':
+        return await this.vscode.openMerge(args.result as string, {
+          ours: args.ours as string | undefined,
+          theirs: args.theirs as string | undefined,
+          base: args.base as string | undefined,
+        });
+
+      case 'get_diagnostics':
+        return await this.vscode.getProblems({
+          file: args.file as string | undefined,
+          severity: args.severity as ProblemSeverity | undefined,
+        });
+
+      case 'find_definition':
+        return await this.vscode.findDefinition(args.file as string, args.line as number, args.column as number);
+
+      case 'find_references':
+        return await this.vscode.findReferences(args.file as string, args.line as number, args.column as number, args.includeDeclaration as boolean | undefined);
+
+      case 'document_symbols':
+        return await this.vscode.getDocumentSymbols(args.file as string);
+
+      case 'workspace_symbols':
+        return await this.vscode.findWorkspaceSymbols(args.query as string, args.limit as number | undefined);
+
+      case 'git_status':
+        return await this.vscode.gitStatus(args.path as string | undefined);
+
+      case 'git_diff':
+        return await this.vscode.gitDiff({
+          staged: args.staged as boolean | undefined,
+          from: args.from as string | undefined,
+          to: args.to as string | undefined,
+          path: args.path as string | undefined,
+          context: args.context as number | undefined,
+          maxPatchLength: args.maxPatchLength as number | undefined,
+        });
+
+      case 'git_log':
+        return await this.vscode.gitLog({
+          ref: args.ref as string | undefined,
+          path: args.path as string | undefined,
+          limit: args.limit as number | undefined,
+        });
+
+      case 'git_blame':
+        return await this.vscode.gitBlame(args.path as string, {
+          startLine: args.startLine as number | undefined,
+          endLine: args.endLine as number | undefined,
+          ref: args.ref as string | undefined,
+        });
+
+      case 'diagnostics':
+        return await this.vscode.getDiagnostics();
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  // Report streamed command output as progress notifications when the client asked for them
+  private progressReporter(progressToken: string | number | undefined) {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    const PROGRESS_INTERVAL = 500;
+    let received = 0;
+    let lastSent = 0;
+    return (stream: 'stdout' | 'stderr', chunk: string) => {
+      received += chunk.length;
+      const now = Date.now();
+      if (now - lastSent < PROGRESS_INTERVAL) {
+        return;
+      }
+      lastSent = now;
+
+      const lastLine = chunk.trimEnd().split('\n').pop() ?? '';
+      this.server.notification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: received,
+          message: `[${stream}] ${lastLine.slice(0, 200)}`,
+        },
+      }).catch(() => {
+        // Client went away; the command result is still returned
+      });
+    };
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -226,8 +1014,8 @@ class VSCodeMCPServer {
 
 // Start server if run directly
 if (require.main === module) {
-  const server = new VSCodeMCPServer();
-  server.run().catch((error) => {
+  // Constructed inside the chain so an invalid config file is reported like any other startup error
+  Promise.resolve().then(() => new VSCodeMCPServer().run()).catch((error) => {
     console.error('Server error:', error);
     process.exit(1);
   });
@@ -0,0 +1,126 @@
+import {
+  parseUnifiedDiff,
+  hunksToOffsetEdits,
+  rangesToOffsetEdits,
+  normalizeOffsetEdits,
+  applyOffsetEdits
+} from './text-edits';
+
+function applyDiff(content: string, diff: string): string {
+  const [patch] = parseUnifiedDiff(diff);
+  return applyOffsetEdits(content, normalizeOffsetEdits(hunksToOffsetEdits(content, patch.hunks, 'file.txt'), 'file.txt'));
+}
+
+describe('parseUnifiedDiff', () => {
+  it('splits a patch into files, including new ones', () => {
+    const patches = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts\t2024-01-01',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-one',
+      '+ONE',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+first',
+      '+second'
+    ].join('\n'));
+    expect(patches).toEqual([
+      { path: 'src/a.ts', isNew: false, hunks: [{ oldStart: 1, oldCount: 1, newStart: 1, newCount: 1, lines: ['-one', '+ONE'] }] },
+      { path: 'src/new.ts', isNew: true, hunks: [{ oldStart: 0, oldCount: 0, newStart: 1, newCount: 2, lines: ['+first', '+second'] }] }
+    ]);
+  });
+
+  it('returns bare hunks as one patch without a path', () => {
+    expect(parseUnifiedDiff('@@ -2,2 +2,2 @@\n b\n-c\n+C\n')).toEqual([
+      { path: null, isNew: false, hunks: [{ oldStart: 2, oldCount: 2, newStart: 2, newCount: 2, lines: [' b', '-c', '+C'] }] }
+    ]);
+  });
+
+  it('reads a removed "-- " line inside a hunk as part of the hunk, not a file header', () => {
+    const [patch] = parseUnifiedDiff('--- a/q.sql\n+++ b/q.sql\n@@ -1,2 +1 @@\n--- old comment\n select 1;\n');
+    expect(patch.path).toBe('q.sql');
+    expect(patch.hunks[0].lines).toEqual(['--- old comment', ' select 1;']);
+  });
+
+  it('restores empty context lines whose leading space was stripped', () => {
+    const [patch] = parseUnifiedDiff('@@ -1,3 +1,3 @@\n a\n\n-b\n+B\n');
+    expect(patch.hunks[0].lines).toEqual([' a', ' ', '-b', '+B']);
+  });
+
+  it('records which side a "no newline" marker belongs to', () => {
+    const [patch] = parseUnifiedDiff('@@ -2 +2 @@\n-b\n+b\n\\ No newline at end of file\n');
+    expect(patch.hunks[0]).toMatchObject({ lines: ['-b', '+b'], newNoNewline: true });
+    expect(patch.hunks[0].oldNoNewline).toBeFalsy();
+  });
+});
+
+describe('hunksToOffsetEdits', () => {
+  it('applies a hunk at its line', () => {
+    expect(applyDiff('a\nb\nc\n', '@@ -2 +2,2 @@\n-b\n+B\n+B2\n')).toBe('a\nB\nB2\nc\n');
+  });
+
+  it('finds a hunk whose lines have shifted', () => {
+    expect(applyDiff('x\ny\na\nb\nc\n', '@@ -1,2 +1,2 @@\n a\n-b\n+B\n')).toBe('x\ny\na\nB\nc\n');
+  });
+
+  it('rejects a shifted hunk that matches more than one place', () => {
+    expect(() => applyDiff('x\na\nb\na\nb\n', '@@ -1,2 +1,2 @@\n a\n-b\n+B\n')).toThrow('Conflict: hunk @@ -1,2 +1,2 @@ matches 2 locations in file.txt');
+  });
+
+  it('rejects a hunk that does not apply', () => {
+    expect(() => applyDiff('a\nb\n', '@@ -1 +1 @@\n-z\n+Z\n')).toThrow('does not apply to file.txt');
+  });
+
+  it('keeps CRLF line endings', () => {
+    expect(applyDiff('a\r\nb\r\nc\r\n', '@@ -2 +2 @@\n-b\n+B\n')).toBe('a\r\nB\r\nc\r\n');
+  });
+
+  it('creates a new file', () => {
+    expect(applyDiff('', '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+one\n+two\n')).toBe('one\ntwo\n');
+  });
+
+  it('follows "no newline at end of file" markers', () => {
+    expect(applyDiff('a\nb\n', '@@ -2 +2 @@\n-b\n+b\n\\ No newline at end of file\n')).toBe('a\nb');
+    expect(applyDiff('a\nb', '@@ -2 +2 @@\n-b\n\\ No newline at end of file\n+b\n')).toBe('a\nb\n');
+    expect(applyDiff('a\nb', '@@ -1,2 +1,2 @@\n-a\n+A\n b\n\\ No newline at end of file\n')).toBe('A\nb');
+  });
+
+  it('keeps a missing trailing newline missing when the diff has no markers', () => {
+    expect(applyDiff('a\nb', '@@ -2 +2 @@\n-b\n+B\n')).toBe('a\nB');
+  });
+});
+
+describe('rangesToOffsetEdits', () => {
+  const content = 'one\ntwo\nthree\n';
+
+  it('converts 1-based positions with an exclusive end', () => {
+    expect(rangesToOffsetEdits(content, [{ startLine: 2, startColumn: 1, endLine: 2, endColumn: 4, newText: 'TWO', expectedText: 'two' }], 'f')).toEqual([
+      { start: 4, end: 7, newText: 'TWO' }
+    ]);
+  });
+
+  it('rejects positions out of range, reversed ranges and unexpected text', () => {
+    const edit = { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1, newText: '' };
+    expect(() => rangesToOffsetEdits(content, [{ ...edit, startLine: 9, endLine: 9 }], 'f')).toThrow('Line 9 is out of range in f (4 lines)');
+    expect(() => rangesToOffsetEdits(content, [{ ...edit, startColumn: 5, endColumn: 5 }], 'f')).toThrow('Column 5 is out of range on line 1 of f');
+    expect(() => rangesToOffsetEdits(content, [{ ...edit, startColumn: 3 }], 'f')).toThrow('ends before it starts');
+    expect(() => rangesToOffsetEdits(content, [{ ...edit, endColumn: 4, expectedText: 'two' }], 'f')).toThrow('does not match the expected text');
+  });
+});
+
+describe('normalizeOffsetEdits', () => {
+  it('sorts edits so they apply in one pass', () => {
+    const edits = normalizeOffsetEdits([{ start: 4, end: 7, newText: 'TWO' }, { start: 0, end: 3, newText: 'ONE' }], 'f');
+    expect(applyOffsetEdits('one\ntwo\n', edits)).toBe('ONE\nTWO\n');
+  });
+
+  it('rejects overlapping edits', () => {
+    expect(() => normalizeOffsetEdits([{ start: 0, end: 5, newText: '' }, { start: 4, end: 6, newText: '' }], 'f')).toThrow('Conflict: overlapping edits in f');
+  });
+
+  it('allows insertions next to each other', () => {
+    expect(() => normalizeOffsetEdits([{ start: 0, end: 2, newText: 'x' }, { start: 2, end: 2, newText: 'y' }], 'f')).not.toThrow();
+  });
+});
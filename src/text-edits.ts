@@ -0,0 +1,233 @@
+// Lines and columns are 1-based; the end position is exclusive (same convention as editor selections)
+export interface RangeReplacement {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  newText: string;
+  // When set, the replaced text must match exactly or the whole batch is rejected
+  expectedText?: string;
+}
+
+export interface FileEditRequest {
+  path: string;
+  edits?: RangeReplacement[];
+  // Unified diff hunks for this file; ---/+++ headers are optional
+  diff?: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: string[];
+  // Set by "\ No newline at end of file" markers after the last old or new line
+  oldNoNewline?: boolean;
+  newNoNewline?: boolean;
+}
+
+export interface FilePatch {
+  path: string | null;
+  isNew: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function stripPatchPath(path: string): string | null {
+  const cleaned = path.split('\t')[0].trim();
+  if (cleaned === '/dev/null') {
+    return null;
+  }
+  return cleaned.replace(/^[ab]\//, '');
+}
+
+// Parse a unified diff. Hunks without ---/+++ headers are returned as a single patch with a null path.
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldPath: string | null = null;
+
+  for (const rawLine of diff.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+
+    if (line.startsWith('--- ') && (!hunk || hunkComplete(hunk))) {
+      oldPath = line.slice(4);
+      hunk = null;
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && oldPath !== null) {
+      const oldFile = stripPatchPath(oldPath);
+      const newFile = stripPatchPath(line.slice(4));
+      current = { path: newFile ?? oldFile, isNew: oldFile === null, hunks: [] };
+      patches.push(current);
+      oldPath = null;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      if (!current) {
+        current = { path: null, isNew: false, hunks: [] };
+        patches.push(current);
+      }
+      hunk = {
+        oldStart: parseInt(header[1]),
+        oldCount: header[2] === undefined ? 1 : parseInt(header[2]),
+        newStart: parseInt(header[3]),
+        newCount: header[4] === undefined ? 1 : parseInt(header[4]),
+        lines: []
+      };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk && line.startsWith('\\') && hunk.lines.length > 0) {
+      // The marker belongs to the line before it: a context line ends both sides
+      const marked = hunk.lines[hunk.lines.length - 1][0];
+      hunk.oldNoNewline = hunk.oldNoNewline || marked !== '+';
+      hunk.newNoNewline = hunk.newNoNewline || marked !== '-';
+    } else if (hunk && !hunkComplete(hunk) && /^[ +-]/.test(line)) {
+      hunk.lines.push(line);
+    } else if (hunk && line === '' && !hunkComplete(hunk)) {
+      // Some tools strip the leading space from empty context lines
+      hunk.lines.push(' ');
+    }
+  }
+
+  return patches.filter(patch => patch.hunks.length > 0 || patch.isNew);
+}
+
+function hunkComplete(hunk: DiffHunk): boolean {
+  const oldLines = hunk.lines.filter(l => l[0] !== '+').length;
+  const newLines = hunk.lines.filter(l => l[0] !== '-').length;
+  return oldLines >= hunk.oldCount && newLines >= hunk.newCount;
+}
+
+function findHunkPosition(lines: string[], oldLines: string[], expected: number): number[] {
+  const matchesAt = (index: number) =>
+    index >= 0 &&
+    index + oldLines.length <= lines.length &&
+    oldLines.every((oldLine, i) => lines[index + i].replace(/\r$/, '') === oldLine);
+
+  if (matchesAt(expected)) {
+    return [expected];
+  }
+
+  // The file may have shifted since the diff was made; accept a unique match elsewhere
+  const candidates: number[] = [];
+  for (let i = 0; i + oldLines.length <= lines.length; i++) {
+    if (matchesAt(i)) {
+      candidates.push(i);
+    }
+  }
+  return candidates;
+}
+
+// Translate diff hunks into offset edits against the given content
+export function hunksToOffsetEdits(content: string, hunks: DiffHunk[], label: string): OffsetEdit[] {
+  const lineStarts = getLineStarts(content);
+  const lines = content.split('\n');
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const edits: OffsetEdit[] = [];
+
+  for (const hunk of hunks) {
+    const oldLines = hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+    const newLines = hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+    // A pure insertion (oldCount 0) goes after line oldStart, everything else starts at it
+    const expected = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    const positions = content === '' && oldLines.length === 0 ? [0] : findHunkPosition(lines, oldLines, expected);
+    const header = `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`;
+    if (positions.length === 0) {
+      throw new Error(`Conflict: hunk ${header} does not apply to ${label}`);
+    }
+    if (positions.length > 1) {
+      throw new Error(`Conflict: hunk ${header} matches ${positions.length} locations in ${label}`);
+    }
+
+    const index = positions[0];
+    const start = index < lineStarts.length ? lineStarts[index] : content.length;
+    const endIndex = index + oldLines.length;
+    const end = endIndex < lineStarts.length ? lineStarts[endIndex] : content.length;
+
+    let newText = newLines.map(l => l + eol).join('');
+    if (end === content.length && newText !== '') {
+      // Follow the diff's markers at the end of the file; without any, keep a missing trailing newline missing
+      const marked = hunk.oldNoNewline || hunk.newNoNewline;
+      if (marked ? hunk.newNoNewline : !content.endsWith('\n') && content !== '') {
+        newText = newText.slice(0, -eol.length);
+      }
+    }
+    edits.push({ start, end, newText });
+  }
+
+  return edits;
+}
+
+// Translate line/column replacements into offset edits, validating bounds and expected text
+export function rangesToOffsetEdits(content: string, replacements: RangeReplacement[], label: string): OffsetEdit[] {
+  const lineStarts = getLineStarts(content);
+
+  const toOffset = (line: number, column: number): number => {
+    if (line < 1 || line > lineStarts.length) {
+      throw new Error(`Line ${line} is out of range in ${label} (${lineStarts.length} lines)`);
+    }
+    const lineStart = lineStarts[line - 1];
+    const lineEnd = line < lineStarts.length ? lineStarts[line] - 1 : content.length;
+    if (column < 1 || lineStart + column - 1 > lineEnd) {
+      throw new Error(`Column ${column} is out of range on line ${line} of ${label}`);
+    }
+    return lineStart + column - 1;
+  };
+
+  return replacements.map(replacement => {
+    const start = toOffset(replacement.startLine, replacement.startColumn);
+    const end = toOffset(replacement.endLine, replacement.endColumn);
+    if (end < start) {
+      throw new Error(`Range ${replacement.startLine}:${replacement.startColumn}-${replacement.endLine}:${replacement.endColumn} ends before it starts in ${label}`);
+    }
+    if (replacement.expectedText !== undefined && content.slice(start, end) !== replacement.expectedText) {
+      throw new Error(`Conflict: text at ${replacement.startLine}:${replacement.startColumn} in ${label} does not match the expected text`);
+    }
+    return { start, end, newText: replacement.newText };
+  });
+}
+
+// Sort edits and reject overlaps, so they can be applied in one pass
+export function normalizeOffsetEdits(edits: OffsetEdit[], label: string): OffsetEdit[] {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      throw new Error(`Conflict: overlapping edits in ${label}`);
+    }
+  }
+  return sorted;
+}
+
+export function applyOffsetEdits(content: string, edits: OffsetEdit[]): string {
+  let result = '';
+  let position = 0;
+  for (const edit of edits) {
+    result += content.slice(position, edit.start) + edit.newText;
+    position = edit.end;
+  }
+  return result + content.slice(position);
+}
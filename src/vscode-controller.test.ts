@@ -0,0 +1,236 @@
+import { mkdtemp, mkdir, writeFile, readFile, readdir, symlink, realpath, rm, chmod } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { VSCodeController } from './vscode-controller';
+import { WindowManager } from './window-manager';
+import { defaultConfig, HelperConfig } from './config';
+import { findHelperError } from './errors';
+
+// A workspace "proj" open in one window, a directory next to it with a secret, and a `code` that only records its argv
+let base: string;
+let root: string;
+let outside: string;
+let codeCalls: string;
+const savedCwd = process.cwd();
+
+let windowTitle = 'a.ts - proj - Visual Studio Code';
+const windowManager: WindowManager = {
+  name: 'status',
+  listWindows: async () => ({ windows: [{ id: '0x1', title: windowTitle }], ordered: true }),
+  getActiveWindowId: async () => null,
+  focusWindow: async () => {},
+  sendKeys: async () => {}
+};
+
+function createController(config: Partial<HelperConfig> = {}): VSCodeController {
+  return new VSCodeController({
+    ...defaultConfig(),
+    ...config,
+    editor: 'test',
+    editorProfiles: [{ id: 'test', cli: join(base, 'bin', 'code'), userDataDir: join(base, 'user-data') }],
+    homeDir: join(base, 'home'),
+    projectSearchPaths: []
+  }, windowManager);
+}
+
+async function recordedCalls(): Promise<string[]> {
+  return (await readFile(codeCalls, 'utf8').catch(() => '')).split('\n').filter(Boolean);
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    return findHelperError(error)?.code ?? 'error';
+  }
+  return undefined;
+}
+
+beforeAll(async () => {
+  base = await realpath(await mkdtemp(join(tmpdir(), 'vscode-helper-test-')));
+  root = join(base, 'proj');
+  outside = join(base, 'outside');
+  codeCalls = join(base, 'code-calls');
+
+  await mkdir(join(root, 'src'), { recursive: true });
+  await mkdir(outside);
+  await mkdir(join(base, 'home'));
+  await writeFile(join(root, 'package.json'), '{"name":"proj"}');
+  await writeFile(join(root, 'src', 'a.ts'), 'const pattern = "a.*(";\nconst flag = "--pre=evil";\n');
+  await writeFile(join(root, '.env'), 'SECRET=1\n');
+  await writeFile(join(outside, 'secret.txt'), 'secret\n');
+  await symlink(outside, join(root, 'escape'));
+
+  // Besides proj, a local multi-root workspace and one on an SSH host
+  await mkdir(join(base, 'multi', 'web'), { recursive: true });
+  await mkdir(join(base, 'multi', 'api'));
+  await writeFile(join(base, 'multi', 'multi.code-workspace'), JSON.stringify({ folders: [{ path: 'web' }, { path: 'api' }] }));
+  const entries = {
+    proj: { folder: pathToFileURL(root).href },
+    multi: { workspace: pathToFileURL(join(base, 'multi', 'multi.code-workspace')).href },
+    remote: { workspace: 'vscode-remote://ssh-remote%2Bbox/home/me/platform.code-workspace' }
+  };
+  for (const [id, entry] of Object.entries(entries)) {
+    const storage = join(base, 'user-data', 'User', 'workspaceStorage', id);
+    await mkdir(storage, { recursive: true });
+    await writeFile(join(storage, 'workspace.json'), JSON.stringify(entry));
+  }
+
+  const bin = join(base, 'bin');
+  await mkdir(bin);
+  await writeFile(join(bin, 'code'), `#!/bin/sh\nprintf '%s\\n' "$*" >> '${codeCalls}'\n`);
+  await chmod(join(bin, 'code'), 0o755);
+
+  // A tsc of the workspace's own, which records that it ran like the fake code does
+  await writeFile(join(root, 'tsconfig.json'), '{}');
+  await mkdir(join(root, 'node_modules', '.bin'), { recursive: true });
+  await writeFile(join(root, 'node_modules', '.bin', 'tsc'), `#!/bin/sh\nprintf 'tsc %s\\n' "$*" >> '${codeCalls}'\n`);
+  await chmod(join(root, 'node_modules', '.bin', 'tsc'), 0o755);
+
+  process.chdir(root);
+});
+
+afterAll(async () => {
+  process.chdir(savedCwd);
+  await rm(base, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await rm(codeCalls, { force: true });
+});
+
+describe('openFile', () => {
+  it('opens workspace files by absolute path at a line', async () => {
+    await createController().openFile('src/a.ts', 2);
+    expect(await recordedCalls()).toEqual([`--goto ${join(root, 'src', 'a.ts')}:2`]);
+  });
+
+  it.each([
+    ['parent traversal', '../outside/secret.txt'],
+    ['traversal through a subdirectory', 'src/../../outside/secret.txt'],
+    ['an absolute path outside the root', '/etc/passwd'],
+    ['a symlink out of the workspace', 'escape/secret.txt']
+  ])('rejects %s', async (_label, path) => {
+    expect(await errorCode(createController().openFile(path))).toBe('outside_workspace');
+    expect(await recordedCalls()).toEqual([]);
+  });
+
+  it.each(['.env', '.vscode/vscode-helper-policy.json', '.vscode/vscode-helper.json'])('rejects %s', async path => {
+    expect(await errorCode(createController().openFile(path))).toBe('denied_pattern');
+    expect(await recordedCalls()).toEqual([]);
+  });
+
+  it('rejects NUL bytes', async () => {
+    expect(await errorCode(createController().openFile('src/a.ts\0.png'))).toBe('invalid_path');
+    expect(await recordedCalls()).toEqual([]);
+  });
+
+  it('passes option-looking names as paths, not options', async () => {
+    await createController().openFile('--list-extensions');
+    expect(await recordedCalls()).toEqual([join(root, '--list-extensions')]);
+  });
+});
+
+describe('searchWorkspace', () => {
+  it('searches option-looking queries as patterns', async () => {
+    const { content } = await createController().searchWorkspace('--pre=evil', 'content');
+    expect(content[0].text).toContain('src/a.ts');
+  });
+
+  it('reports invalid regular expressions instead of matching them loosely', async () => {
+    expect(await errorCode(createController().searchWorkspace('a.*(', 'content'))).toBe('error');
+  });
+
+  it('matches escaped regex metacharacters literally', async () => {
+    const { content } = await createController().searchWorkspace('a\\.\\*\\(', 'content');
+    expect(content[0].text).toContain('src/a.ts');
+  });
+
+  it.each(['../outside', '/etc/passwd', 'escape/secret', '.env'])('never lists files outside the workspace or secrets for %s', async query => {
+    const { content } = await createController().searchWorkspace(query, 'files');
+    const listed = content[0].text.split('\n').slice(1).filter(Boolean);
+    expect(listed.filter(file => /secret|passwd|\.env/.test(file))).toEqual([]);
+  });
+
+  it('does not return secrets from content search', async () => {
+    const { content } = await createController().searchWorkspace('SECRET', 'content');
+    expect(content[0].text).not.toContain('.env');
+  });
+});
+
+describe('getWorkspaceInfo', () => {
+  it('finds an open workspace by name', async () => {
+    const { workspace } = await createController().getWorkspaceInfo('proj');
+    expect(workspace.path).toBe(root);
+  });
+
+  it('does not match an empty name to any workspace', async () => {
+    expect(await errorCode(createController().getWorkspaceInfo(''))).toBe('workspace_not_found');
+  });
+
+  it.each(['..', '../outside', '/tmp', '/etc', 'proj\0'])('does not resolve %j to a path', async name => {
+    const result = await createController().getWorkspaceInfo(name).catch(error => error);
+    if (result instanceof Error) {
+      expect(findHelperError(result)?.code).toBe('workspace_not_found');
+    } else {
+      // Loose name matching may still pick an open workspace, but never a directory that is not one
+      expect(result.workspace.path).toBe(root);
+    }
+  });
+});
+
+describe('multi-root workspaces', () => {
+  afterEach(() => {
+    windowTitle = 'a.ts - proj - Visual Studio Code';
+  });
+
+  it('addresses a file in another root by the root name', async () => {
+    windowTitle = 'index.ts - multi (Workspace) - Visual Studio Code';
+    await createController().openFile('api/server.ts');
+    expect(await recordedCalls()).toEqual([join(base, 'multi', 'api', 'server.ts')]);
+  });
+
+  it('reports remote multi-root workspaces as unsupported instead of rejecting every path', async () => {
+    windowTitle = 'index.ts - platform (Workspace) [SSH: box] - Visual Studio Code';
+    const error = await createController().openFile('src/index.ts').catch(error => error);
+    expect(findHelperError(error)).toMatchObject({ code: 'remote_workspace', details: { configFile: '/home/me/platform.code-workspace' } });
+    expect(await recordedCalls()).toEqual([]);
+  });
+});
+
+describe('getProblems', () => {
+  it("does not run the workspace's own tools unless the user config allows it", async () => {
+    const { problems } = await createController().getProblems();
+    expect(problems.collectors.filter(run => run.collector !== 'bridge').map(run => run.status)).toEqual(['skipped', 'skipped']);
+    expect(await recordedCalls()).toEqual([]);
+  });
+
+  it('runs them with runProblemCommands', async () => {
+    const { problems } = await createController({ runProblemCommands: true }).getProblems();
+    expect(problems.collectors.find(run => run.collector === 'tsc')?.status).toBe('ok');
+    expect(await recordedCalls()).toEqual([expect.stringMatching(/^tsc /)]);
+  });
+});
+
+describe('applyEdit', () => {
+  it('restores the files it already wrote when a later one fails', async () => {
+    await writeFile(join(root, 'src', 'b.ts'), 'one\n');
+    // A directory where the patch creates a file: staging works, the final rename does not
+    await mkdir(join(root, 'src', 'blocked', 'inside'), { recursive: true });
+    const patch = [
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@ -1 +1 @@',
+      '-one',
+      '+ONE',
+      '--- /dev/null',
+      '+++ b/src/blocked',
+      '@@ -0,0 +1 @@',
+      '+new'
+    ].join('\n');
+    await expect(createController().applyEdit([], { patch })).rejects.toMatchObject({ cause: { code: 'EISDIR' } });
+    expect(await readFile(join(root, 'src', 'b.ts'), 'utf8')).toBe('one\n');
+    expect((await readdir(join(root, 'src'))).sort()).toEqual(['a.ts', 'b.ts', 'blocked']);
+  });
+});
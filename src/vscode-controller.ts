@@ -1,20 +1,92 @@
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
-import { readFile, writeFile, access, mkdir } from 'fs/promises';
-import { dirname, resolve, join } from 'path';
-import { glob } from 'fast-glob';
+import { readFile, writeFile, access, mkdir, rename, unlink, readdir, stat } from 'fs/promises';
+import { basename, dirname, resolve, join, relative, isAbsolute, posix } from 'path';
+import { glob, escapePath } from 'fast-glob';
+import { EditorBridge, EditorRange, EditorSelectionInfo, RevealMode, BridgeFileEdit, TerminalSnapshot } from './editor-bridge.js';
+import { ProcessRunner } from './process-exec.js';
+import { ContentSearcher, ContentSearchOptions, ContentSearchResult } from './content-search.js';
+import { FuzzyMatch, rankPaths } from './fuzzy-match.js';
+import { EditorProfile, getEditorProfiles, resolveEditorProfile, workspaceStorageDir, userSettingsPath } from './editor-profiles.js';
+import { WorkspaceIgnore, IgnoreOverrides, IgnorePurpose } from './ignore-engine.js';
+import { EditorWindow, FocusHistory, WindowManager, createWindowManager } from './window-manager.js';
+import { EditorState, EditorStateReader, toStorageEntry } from './editor-state.js';
+import { ScratchFiles, scratchName } from './scratch-files.js';
+import { ProblemCollector, ProblemSeverity, ProblemsResult, atLeast, PROBLEM_SEVERITIES } from './problems.js';
+import { CodeLocation, CodeSymbol, CodeIntelSource, LanguageServerNavigator, toCodeLocation, toCodeSymbol, addPreviews } from './code-intel.js';
+import { GitClient, GitStatus, GitDiff, GitDiffOptions, GitCommit, GitBlameLine } from './git.js';
+import { FilePage, TreeNode, pageFiles, buildTree, DEFAULT_TREE_DEPTH } from './workspace-files.js';
+import {
+  Workspace,
+  StorageEntry,
+  RemoteWorkspaceError,
+  RemoteMultiRootError,
+  workspaceFromStorage,
+  folderWorkspace,
+  findFolderForPath,
+  parseWorkspaceUri,
+  remoteUri,
+  describeRemote,
+  RemoteAuthority
+} from './workspaces.js';
+import { WorkspaceNotFoundError, FileNotFoundError, EditorUnavailableError, findHelperError } from './errors.js';
+import { DiagnosticCheck, DiagnosticsReport, ToolRequirement, checkTool, createReport, formatDiagnostics } from './diagnostics.js';
+import { PathPolicy, PathPolicyError, DEFAULT_DENY_PATTERNS } from './path-policy.js';
+import { HelperConfig, loadConfig, expandHome } from './config.js';
+import { runShellCommand, CommandOptions, CommandResult, DEFAULT_COMMAND_TIMEOUT } from './command-runner.js';
+import {
+  FileEditRequest,
+  OffsetEdit,
+  parseUnifiedDiff,
+  hunksToOffsetEdits,
+  rangesToOffsetEdits,
+  normalizeOffsetEdits,
+  applyOffsetEdits
+} from './text-edits.js';
 
-const execAsync = promisify(exec);
+// A detected active workspace, the root paths resolve against, and which strategy picked it
+interface DetectedWorkspace {
+  workspace: Workspace;
+  root: string;
+  reason: string;
+}
 
 export class VSCodeController {
-  private workspaceRoot: string;
   private debug: boolean;
-  private workspaceCache: { data: Array<{ name: string; path: string }>; timestamp: number } | null = null;
-  private readonly CACHE_DURATION = 5000; // 5 seconds cache
+  private workspaceCache: { data: Workspace[]; timestamp: number } | null = null;
+  // Window each open workspace was found in, for focusing it by id
+  private workspaceWindows = new WeakMap<Workspace, string>();
+  private config: HelperConfig;
+  private bridge: EditorBridge;
+  private pathPolicy: PathPolicy;
+  private processes: ProcessRunner;
+  private contentSearcher: ContentSearcher;
+  private stateReader: EditorStateReader;
+  private git: GitClient;
+  private scratch: ScratchFiles;
+  private problemCollector: ProblemCollector;
+  private navigator: LanguageServerNavigator;
+  private editor: EditorProfile;
+  private windows: WindowManager;
+  private focusHistory: FocusHistory;
 
-  constructor(debug: boolean = false) {
-    this.workspaceRoot = process.cwd();
-    this.debug = debug || process.env.VSCODE_MCP_DEBUG === 'true';
+  constructor(config: HelperConfig = loadConfig().config, windowManager?: WindowManager) {
+    this.config = config;
+    this.debug = config.debug;
+    this.editor = resolveEditorProfile(config.editor ?? undefined, config.editorProfiles);
+    this.log(`Editor profile: ${this.editor.id} (${this.editor.cli}, ${this.editor.userDataDir})`);
+    this.bridge = new EditorBridge((message, ...args) => this.log(message, ...args));
+    this.processes = new ProcessRunner((message, ...args) => this.log(message, ...args));
+    this.contentSearcher = new ContentSearcher(this.processes, (message, ...args) => this.log(message, ...args));
+    this.stateReader = new EditorStateReader(this.processes, (message, ...args) => this.log(message, ...args));
+    this.git = new GitClient(this.processes, (message, ...args) => this.log(message, ...args));
+    this.scratch = new ScratchFiles((message, ...args) => this.log(message, ...args));
+    this.problemCollector = new ProblemCollector(this.processes, (message, ...args) => this.log(message, ...args));
+    this.navigator = new LanguageServerNavigator(config.languageServer, (message, ...args) => this.log(message, ...args));
+    this.windows = windowManager ?? createWindowManager(this.processes, (message, ...args) => this.log(message, ...args), config.windowManager);
+    this.focusHistory = new FocusHistory(undefined, (message, ...args) => this.log(message, ...args));
+    this.pathPolicy = new PathPolicy({
+      allowedPaths: config.allowedPaths,
+      denyPatterns: [...DEFAULT_DENY_PATTERNS, ...config.denyPatterns]
+    });
   }
 
   private log(message: string, ...args: any[]) {
@@ -25,87 +97,118 @@ export class VSCodeController {
 
   private extractWorkspaceFromTitle(windowTitle: string): string | null {
     // VSCode window titles are typically: "filename - workspace - Visual Studio Code"
-    // or "workspace - Visual Studio Code"
-    const parts = windowTitle.split(' - ');
-    if (parts.length >= 2) {
-      // Remove "Visual Studio Code" from the end
-      const withoutVSCode = parts.slice(0, -1);
-      if (withoutVSCode.length >= 2) {
-        // If there are 2+ parts, the workspace is usually the second-to-last
-        return withoutVSCode[withoutVSCode.length - 1].trim();
-      } else if (withoutVSCode.length === 1) {
-        // If there's only one part, that's the workspace
-        return withoutVSCode[0].trim();
+    // or "workspace - Visual Studio Code"; the application name may itself contain " - " (Insiders)
+    const suffix = ` - ${this.editor.displayName}`;
+    if (!windowTitle.endsWith(suffix)) {
+      return null;
+    }
+    const parts = windowTitle.slice(0, -suffix.length).split(' - ');
+    // The workspace is the last part before the application name
+    const workspace = parts[parts.length - 1].trim();
+    return workspace || null;
+  }
+
+  // workspace.json files of every window VSCode remembers, most recently modified first
+  private async listWorkspaceStorageFiles(): Promise<string[]> {
+    const storageDir = workspaceStorageDir(this.editor);
+    let entries: string[];
+    try {
+      entries = await readdir(storageDir);
+    } catch {
+      return [];
+    }
+
+    const files: Array<{ path: string; mtime: number }> = [];
+    for (const entry of entries) {
+      const workspaceFile = join(storageDir, entry, 'workspace.json');
+      try {
+        files.push({ path: workspaceFile, mtime: (await stat(workspaceFile)).mtimeMs });
+      } catch {
+        // Storage entry without a workspace.json (e.g. an empty window)
       }
     }
-    return null;
+    return files.sort((a, b) => b.mtime - a.mtime).map(file => file.path);
+  }
+
+  // Folder windows and .code-workspace windows alike; null when the entry is unusable
+  private async readStorageWorkspace(workspaceFile: string): Promise<Workspace | null> {
+    try {
+      return await workspaceFromStorage(JSON.parse(await readFile(workspaceFile, 'utf8')) as StorageEntry);
+    } catch {
+      // Invalid JSON or file read error
+      return null;
+    }
+  }
+
+  // Editor windows with the focused one first, then the most recently used
+  private async listEditorWindows(): Promise<EditorWindow[]> {
+    const { windows, ordered } = await this.windows.listWindows(this.editor);
+
+    let activeId: string | null = null;
+    try {
+      activeId = await this.windows.getActiveWindowId();
+    } catch (error) {
+      this.log(`Cannot query the active window: ${error}`);
+    }
+    const active = windows.find(window => window.id === activeId);
+    if (active) {
+      this.log(`Active editor window: ${active.id} ${active.title}`);
+      await this.focusHistory.record(active);
+    }
+
+    const recent = ordered ? windows : await this.focusHistory.order(windows);
+    return active ? [active, ...recent.filter(window => window !== active)] : recent;
+  }
+
+  // The workspace a name refers to, exact names first; multi-root window titles read "name (Workspace)", remote ones "name [SSH: host]"
+  private matchWorkspaceName(workspaceName: string, candidates: Workspace[]): Workspace | undefined {
+    const name = workspaceName.replace(/ \(Workspace\)$/, '').replace(/ \[[^\]]+\]$/, '').toLowerCase();
+    // An empty name is contained in every other one
+    if (!name) {
+      return undefined;
+    }
+    return candidates.find(w => w.name.toLowerCase() === name) ?? candidates.find(w =>
+      w.name.toLowerCase().includes(name) ||
+      name.includes(w.name.toLowerCase())
+    );
   }
 
-  private async getOpenWorkspacesFast(): Promise<Array<{ name: string; path: string }>> {
+  // Open workspaces ordered like their windows, so the first one is the window in use
+  private async getOpenWorkspacesFast(): Promise<Workspace[]> {
     // Check cache first
-    if (this.workspaceCache && (Date.now() - this.workspaceCache.timestamp < this.CACHE_DURATION)) {
+    if (this.workspaceCache && (Date.now() - this.workspaceCache.timestamp < this.config.cacheDuration)) {
       this.log(`Using cached workspace data`);
       return this.workspaceCache.data;
     }
 
     this.log(`Refreshing workspace data...`);
-    const workspaces: Array<{ name: string; path: string }> = [];
+    const workspaces: Workspace[] = [];
 
     try {
-      // Method 1: Fast - Get open VSCode windows using wmctrl
-      const { stdout: wmctrlOutput } = await execAsync('wmctrl -l -x');
-      const vscodeWindows = wmctrlOutput.split('\n').filter(line => 
-        line.includes('code.Code') && line.includes('Visual Studio Code')
-      );
+      // Method 1: Fast - Get open editor windows from the window manager
+      const windows = await this.listEditorWindows();
+      this.log(`Found ${windows.length} editor windows: ${windows.map(window => window.title).join(', ')}`);
 
-      // Extract workspace names from window titles
-      const windowWorkspaceNames: string[] = [];
-      for (const window of vscodeWindows) {
-        const parts = window.split(/\s+/);
-        if (parts.length > 4) {
-          const windowTitle = parts.slice(4).join(' ');
-          const workspaceName = this.extractWorkspaceFromTitle(windowTitle);
-          if (workspaceName && !windowWorkspaceNames.includes(workspaceName)) {
-            windowWorkspaceNames.push(workspaceName);
-          }
-        }
-      }
+      // Method 2: Fast - Read VSCode workspace storage to get paths
+      const candidates: Workspace[] = [];
+      for (const workspaceFile of await this.listWorkspaceStorageFiles()) {
+        const workspace = await this.readStorageWorkspace(workspaceFile);
+        if (!workspace) continue;
 
-      this.log(`Found ${windowWorkspaceNames.length} workspace windows: ${windowWorkspaceNames.join(', ')}`);
+        // Several storage entries can point at the same folder or workspace file
+        const key = workspace.configFile ?? workspace.path;
+        if (candidates.some(w => (w.configFile ?? w.path) === key)) continue;
+        candidates.push(workspace);
+      }
 
-      // Method 2: Fast - Read VSCode workspace storage to get paths
-      const { stdout: storageFiles } = await execAsync('ls ~/.config/Code/User/workspaceStorage/*/workspace.json 2>/dev/null || echo ""');
-      
-      if (storageFiles.trim()) {
-        const workspaceFiles = storageFiles.trim().split('\n');
-        
-        for (const workspaceFile of workspaceFiles) {
-          try {
-            const workspaceData = JSON.parse(await readFile(workspaceFile, 'utf8'));
-            if (workspaceData.folder && workspaceData.folder.startsWith('file://')) {
-              const workspacePath = workspaceData.folder.replace('file://', '');
-              const workspaceName = workspacePath.split('/').pop() || '';
-              
-              // Only include workspaces that have open windows OR are recently used
-              if (windowWorkspaceNames.some(winName => 
-                winName.toLowerCase().includes(workspaceName.toLowerCase()) ||
-                workspaceName.toLowerCase().includes(winName.toLowerCase())
-              )) {
-                try {
-                  await access(workspacePath);
-                  workspaces.push({
-                    name: workspaceName,
-                    path: workspacePath
-                  });
-                  this.log(`Added open workspace: ${workspaceName} -> ${workspacePath}`);
-                } catch {
-                  // Workspace path doesn't exist anymore
-                }
-              }
-            }
-          } catch {
-            // Invalid JSON or file read error
-          }
+      // Only include workspaces that have open windows
+      for (const window of windows) {
+        const workspaceName = this.extractWorkspaceFromTitle(window.title);
+        const workspace = workspaceName && this.matchWorkspaceName(workspaceName, candidates.filter(w => !workspaces.includes(w)));
+        if (workspace) {
+          workspaces.push(workspace);
+          this.workspaceWindows.set(workspace, window.id);
+          this.log(`Added open workspace: ${workspace.name} (window ${window.id}) -> ${workspace.folders.map(f => f.path).join(', ')}`);
         }
       }
 
@@ -125,14 +228,14 @@ export class VSCodeController {
     }
   }
 
-  private async parseVSCodeStatusSlow(): Promise<Array<{ name: string; path: string }>> {
+  private async parseVSCodeStatusSlow(): Promise<Workspace[]> {
     this.log('Using slow code --status method...');
-    const { stdout } = await execAsync('code --status');
+    const { stdout } = await this.processes.run(this.editor.cli, ['--status'], { timeout: 30000 });
     return this.parseVSCodeStatus(stdout);
   }
 
-  private async parseVSCodeStatus(statusOutput: string): Promise<Array<{ name: string; path: string }>> {
-    const workspaces: Array<{ name: string; path: string }> = [];
+  private async parseVSCodeStatus(statusOutput: string): Promise<Workspace[]> {
+    const workspaces: Workspace[] = [];
     
     try {
       const lines = statusOutput.split('\n');
@@ -162,10 +265,7 @@ export class VSCodeController {
           // Try to find the full path for this workspace
           const workspacePath = await this.findWorkspacePathByName(folderName);
           if (workspacePath) {
-            workspaces.push({
-              name: folderName,
-              path: workspacePath
-            });
+            workspaces.push(folderWorkspace(workspacePath, folderName));
             this.log(`Mapped ${folderName} to ${workspacePath}`);
           } else {
             this.log(`Could not find path for workspace: ${folderName}`);
@@ -176,385 +276,1689 @@ export class VSCodeController {
       this.log(`Parsed ${workspaces.length} workspaces from VSCode status`);
       return workspaces;
     } catch (error) {
-      this.log(`Error parsing VSCode status: ${error}`);
-      return [];
+      this.log(`Error parsing VSCode status: ${error}`);
+      return [];
+    }
+  }
+
+  private async findWorkspacePathByName(workspaceName: string): Promise<string | null> {
+    try {
+      // Check VSCode's workspace storage for exact matches
+      try {
+        const workspaceFiles = await this.listWorkspaceStorageFiles();
+        
+        for (const workspaceFile of workspaceFiles) {
+          // Any root of a multi-root workspace can be the folder VSCode reports
+          const workspace = await this.readStorageWorkspace(workspaceFile);
+          const folder = workspace && !workspace.remote ? workspace.folders.find(f => basename(f.path) === workspaceName) : undefined;
+          if (folder) {
+            this.log(`Found exact workspace path for ${workspaceName}: ${folder.path}`);
+            return folder.path;
+          }
+        }
+      } catch {
+        // Workspace storage not readable
+      }
+
+      // Fallback: search common project directories (the name is escaped, it comes from window titles)
+      const escapedName = escapePath(workspaceName);
+      // The search paths are globs themselves; only the home directory they start from needs escaping
+      const searchPaths = this.config.projectSearchPaths.map(path => posix.join(expandHome(path, escapePath(this.config.homeDir)), escapedName));
+
+      for (const searchPath of searchPaths) {
+        try {
+          const matches = await glob(searchPath, { onlyDirectories: true });
+          if (matches.length > 0) {
+            const path = matches.sort()[0];
+            await access(path);
+            this.log(`Found workspace path via search for ${workspaceName}: ${path}`);
+            return path;
+          }
+        } catch {
+          // Continue to next search path
+        }
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Approach 1: the open workspace containing the working directory, else the focused or most recently used window
+  private activeFromOpenWorkspaces(workspaces: Workspace[]): DetectedWorkspace | null {
+    if (workspaces.length === 0) {
+      return null;
+    }
+    this.log(`Found ${workspaces.length} open VSCode workspaces: ${workspaces.map(w => w.name).join(', ')}`);
+
+    // First, check if current working directory is within any root of any workspace
+    const currentDir = process.cwd();
+    for (const workspace of workspaces) {
+      // A remote path can never contain the local working directory
+      const folder = workspace.remote ? null : findFolderForPath(workspace, currentDir);
+      if (folder) {
+        this.log(`Current directory is within workspace: ${workspace.name} (root ${folder.name})`);
+        return { workspace, root: folder.path, reason: `working directory is inside root '${folder.name}'` };
+      }
+    }
+
+    // If not, use the focused or most recently used editor window
+    this.log(`Using most recently used workspace: ${workspaces[0].name}`);
+    return { workspace: workspaces[0], root: workspaces[0].path, reason: 'focused or most recently used editor window' };
+  }
+
+  // Approach 2: workspace indicators in the current directory and its parents
+  private async activeFromIndicators(): Promise<DetectedWorkspace | null> {
+    let currentDir = process.cwd();
+    const rootDir = '/';
+    const homeDir = this.config.homeDir;
+
+    while (currentDir !== rootDir) {
+      for (const indicator of this.config.workspaceIndicators) {
+        try {
+          await access(join(currentDir, indicator));
+
+          // Skip .vscode in home directory unless it has a settings.json with workspace-specific config
+          if (indicator === '.vscode' && currentDir === homeDir) {
+            try {
+              const settingsPath = join(currentDir, '.vscode', 'settings.json');
+              await access(settingsPath);
+              const settings = JSON.parse(await readFile(settingsPath, 'utf8'));
+              // Only consider it a workspace if it has project-specific settings
+              if (Object.keys(settings).length === 0) {
+                continue;
+              }
+            } catch {
+              // No settings.json or invalid JSON, skip this .vscode
+              continue;
+            }
+          }
+
+          this.log(`Found workspace indicator ${indicator} in ${currentDir}`);
+          return { workspace: folderWorkspace(currentDir), root: currentDir, reason: `found ${indicator} in ${currentDir}` };
+        } catch {
+          // Indicator not found, continue
+        }
+      }
+
+      // Move up one directory
+      const parentDir = dirname(currentDir);
+      if (parentDir === currentDir) {
+        break; // Reached filesystem root
+      }
+      currentDir = parentDir;
+    }
+    return null;
+  }
+
+  // Approach 3: the window VSCode had focused last, then its recently opened folders and workspaces
+  private async activeFromRecent(): Promise<DetectedWorkspace | null> {
+    const state = await this.stateReader.read(this.editor);
+    for (const candidate of [state.lastActiveWindow, ...state.recent]) {
+      const entry = candidate && toStorageEntry(candidate);
+      const workspace = entry && await workspaceFromStorage(entry);
+      if (workspace && !workspace.remote) {
+        this.log(`Found recent VSCode workspace: ${workspace.path}`);
+        const reason = candidate === state.lastActiveWindow ? 'last active window in VSCode state' : 'recently opened in VSCode state';
+        return { workspace, root: workspace.path, reason };
+      }
+    }
+    return null;
+  }
+
+  // The active workspace with all of its roots, and the root paths resolve against
+  private async getActiveWorkspaceModel(): Promise<DetectedWorkspace> {
+    try {
+      // Approach 1: Use fast workspace detection (most reliable and fast)
+      try {
+        const detected = this.activeFromOpenWorkspaces(await this.getOpenWorkspacesFast());
+        if (detected) {
+          return detected;
+        }
+      } catch (error) {
+        this.log(`VSCode status command failed: ${error}`);
+      }
+
+      // Approach 2: Check for workspace indicators in current directory and parents
+      const fromIndicators = await this.activeFromIndicators();
+      if (fromIndicators) {
+        return fromIndicators;
+      }
+
+      // Approach 3: Check VSCode's recently opened list
+      try {
+        const fromRecent = await this.activeFromRecent();
+        if (fromRecent) {
+          return fromRecent;
+        }
+      } catch (error) {
+        this.log(`Unable to read VSCode state: ${error}`);
+      }
+
+      // Approach 4: Fallback to current working directory
+      this.log('No workspace indicators or recent workspaces found, using current directory');
+      return { workspace: folderWorkspace(process.cwd()), root: process.cwd(), reason: 'current working directory' };
+    } catch (error) {
+      this.log(`Failed to detect workspace: ${error}, falling back to cwd`);
+      return { workspace: folderWorkspace(process.cwd()), root: process.cwd(), reason: 'current working directory' };
+    }
+  }
+
+  private async getActiveVSCodeWorkspace(): Promise<string> {
+    return (await this.getActiveWorkspaceModel()).root;
+  }
+
+  // Local workspaces only; anything that reads or writes files goes through here
+  private async getLocalActiveWorkspace(): Promise<{ workspace: Workspace; root: string }> {
+    const active = await this.getActiveWorkspaceModel();
+    if (active.workspace.remote) {
+      throw new RemoteWorkspaceError(active.workspace);
+    }
+    return active;
+  }
+
+  // Arguments that make `code` bring up a workspace's window, remote ones through their URI
+  private codeOpenArgs(workspace: Workspace): string[] {
+    if (workspace.remote) {
+      return workspace.configFile ? ['--file-uri', workspace.uri] : ['--folder-uri', workspace.uri];
+    }
+    return [workspace.configFile ?? workspace.path];
+  }
+
+  // A vscode-remote:// URI, or a path in the active workspace when that is remote; null for local files
+  private async resolveRemoteFile(filePath: string): Promise<{ remote: RemoteAuthority; path: string } | null> {
+    let remote: RemoteAuthority;
+    let path: string;
+    if (filePath.startsWith('vscode-remote://')) {
+      const location = parseWorkspaceUri(filePath);
+      if (!location?.remote) {
+        throw new Error(`Invalid remote URI: ${filePath}`);
+      }
+      remote = location.remote;
+      path = location.path;
+    } else {
+      const { workspace, root } = await this.getActiveWorkspaceModel();
+      if (!workspace.remote) {
+        return null;
+      }
+      remote = workspace.remote;
+      path = posix.resolve(root, filePath);
+    }
+
+    // The sandbox rules still apply; remote paths are checked as text since they cannot be resolved here
+    const remoteWorkspaces = (await this.getOpenWorkspacesFast()).filter(w => w.remote?.authority === remote.authority);
+    const roots = remoteWorkspaces.flatMap(w => w.folders.map(folder => folder.path));
+    const root = roots.find(candidate => {
+      const relativePath = posix.relative(candidate, path);
+      return relativePath === '' || (!relativePath.startsWith('..') && !posix.isAbsolute(relativePath));
+    });
+    if (!root) {
+      const multiRoot = remoteWorkspaces.find(w => w.configFile && w.folders.length === 0);
+      if (multiRoot) {
+        throw new RemoteMultiRootError(multiRoot);
+      }
+      throw new PathPolicyError(
+        `Path '${filePath}' is outside the roots of the remote workspaces on ${describeRemote(remote)} (${roots.join(', ') || 'none'})`,
+        'outside_workspace',
+        filePath
+      );
+    }
+    const pattern = this.pathPolicy.matchDenied(posix.relative(root, path));
+    if (pattern) {
+      throw new PathPolicyError(`Access to '${filePath}' is denied by pattern '${pattern}'`, 'denied_pattern', filePath, pattern);
+    }
+
+    return { remote, path };
+  }
+
+  async openFile(filePath: string, line?: number, options: { diffAgainst?: string; column?: number } = {}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      // `--goto file:line:column`, as in the locations code navigation returns
+      const position = line ? `${line}${options.column ? `:${options.column}` : ''}` : '';
+      const at = line ? ` at line ${line}${options.column ? `, column ${options.column}` : ''}` : '';
+      const remoteFile = await this.resolveRemoteFile(filePath);
+      if (remoteFile) {
+        const { remote, path } = remoteFile;
+        if (options.diffAgainst) {
+          throw new Error(`Diff views need a local git repository; ${filePath} is on ${describeRemote(remote)}`);
+        }
+        this.log(`Opening remote file: ${path} on ${remote.authority}${at}`);
+        await this.processes.run(this.editor.cli, line
+          ? ['--remote', remote.authority, '--goto', `${path}:${position}`]
+          : ['--file-uri', remoteUri(remote, path)]);
+
+        return {
+          content: [{
+            type: 'text',
+            text: `Successfully opened ${filePath}${at} in VSCode (${describeRemote(remote)})`
+          }]
+        };
+      }
+
+      const absolutePath = await this.resolveSafePath(filePath);
+      if (options.diffAgainst) {
+        return await this.openDiffView(filePath, absolutePath, options.diffAgainst);
+      }
+      this.log(`Opening file: ${absolutePath}${at}`);
+      
+      // Build VSCode command
+      const args = position ? ['--goto', `${absolutePath}:${position}`] : [absolutePath];
+      await this.processes.run(this.editor.cli, args);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Successfully opened ${filePath}${at} in VSCode`
+        }]
+      };
+    } catch (error) {
+      throw new Error(`Failed to open file: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // VSCode's diff view of a file against a commit; the old side is a scratch copy of the file at that commit
+  private async openDiffView(filePath: string, absolutePath: string, ref: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const original = await this.git.show(dirname(absolutePath), ref, basename(absolutePath));
+    const { dir, paths: [originalPath] } = await this.scratch.create([{ name: scratchName(absolutePath, ref), content: original ?? '' }]);
+    await this.showInEditor(['--diff', originalPath, absolutePath], dir);
+    return {
+      content: [{
+        type: 'text',
+        text: `Opened diff of ${filePath} against ${ref} in VSCode${original === null ? ` (not in ${ref}, compared with an empty file)` : ''}`
+      }]
+    };
+  }
+
+  // Runs a --diff or --merge view. With wait, `code --wait` returns once the view is closed and its scratch files are
+  // removed right away; otherwise they stay for the open view and a later call sweeps them.
+  private async showInEditor(args: string[], scratchDir: string | null, wait: boolean = false): Promise<void> {
+    let opened = false;
+    try {
+      this.log(`Opening view: ${args.join(' ')}${wait ? ' (waiting until it is closed)' : ''}`);
+      await this.processes.run(this.editor.cli, wait ? ['--wait', ...args] : args, wait ? { timeout: 0 } : {});
+      opened = true;
+    } finally {
+      if (scratchDir && (wait || !opened)) {
+        await this.scratch.remove(scratchDir);
+      }
+      await this.scratch.sweep();
+    }
+  }
+
+  // Either two files, or a file and proposed content for it that is not on disk yet
+  async openDiff(left: string, right?: string, options: { proposedContent?: string; wait?: boolean } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+  }> {
+    try {
+      if ((right === undefined) === (options.proposedContent === undefined)) {
+        throw new Error('Pass either a file to compare with or proposed content');
+      }
+      const leftPath = await this.resolveSafePath(left);
+
+      if (options.proposedContent !== undefined) {
+        // A proposal for a new file is compared with an empty one
+        const current = await readFile(leftPath, 'utf8').catch(() => null);
+        const scratch = await this.scratch.create([
+          ...(current === null ? [{ name: scratchName(leftPath, 'new file'), content: '' }] : []),
+          { name: scratchName(leftPath, 'proposed'), content: options.proposedContent }
+        ]);
+        const originalPath = current === null ? scratch.paths[0] : leftPath;
+        await this.showInEditor(['--diff', originalPath, scratch.paths[scratch.paths.length - 1]], scratch.dir, options.wait);
+        return { content: [{ type: 'text', text: `Opened diff of ${left} and the proposed content in VSCode${current === null ? ' (new file)' : ''}` }] };
+      }
+
+      const rightPath = await this.resolveSafePath(right!);
+      for (const [path, absolutePath] of [[left, leftPath], [right!, rightPath]]) {
+        try {
+          await access(absolutePath);
+        } catch {
+          throw new FileNotFoundError(absolutePath, `File does not exist: ${path}`);
+        }
+      }
+      await this.showInEditor(['--diff', leftPath, rightPath], null, options.wait);
+      return { content: [{ type: 'text', text: `Opened diff of ${left} and ${right} in VSCode` }] };
+    } catch (error) {
+      throw new Error(`Failed to open diff: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // VSCode's merge editor writing to result. Without explicit sides, they come from the conflict stages in the git index.
+  async openMerge(result: string, options: { ours?: string; theirs?: string; base?: string; wait?: boolean } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+  }> {
+    try {
+      const resultPath = await this.resolveSafePath(result);
+      const given = [options.ours, options.theirs, options.base].filter(side => side !== undefined);
+      let sides: string[];
+      let scratchDir: string | null = null;
+
+      if (given.length === 3) {
+        sides = [];
+        for (const side of given as string[]) {
+          const absolutePath = await this.resolveSafePath(side);
+          try {
+            await access(absolutePath);
+          } catch {
+            throw new FileNotFoundError(absolutePath, `File does not exist: ${side}`);
+          }
+          sides.push(absolutePath);
+        }
+      } else if (given.length === 0) {
+        const cwd = dirname(resultPath);
+        const file = basename(resultPath);
+        const [base, ours, theirs] = await Promise.all(([1, 2, 3] as const).map(stage => this.git.showStage(cwd, stage, file)));
+        if (ours === null || theirs === null) {
+          throw new Error(`${result} has no merge conflict in the git index`);
+        }
+        // Files added on both sides have no base
+        const scratch = await this.scratch.create([
+          { name: scratchName(resultPath, 'ours'), content: ours },
+          { name: scratchName(resultPath, 'theirs'), content: theirs },
+          { name: scratchName(resultPath, 'base'), content: base ?? '' }
+        ]);
+        sides = scratch.paths;
+        scratchDir = scratch.dir;
+      } else {
+        throw new Error('Pass all of ours, theirs and base, or none to take them from the git index');
+      }
+
+      await this.showInEditor(['--merge', ...sides, resultPath], scratchDir, options.wait);
+      return {
+        content: [{
+          type: 'text',
+          text: `Opened merge editor for ${result} in VSCode${scratchDir ? ' with the conflict stages from the git index' : ''}`
+        }]
+      };
+    } catch (error) {
+      throw new Error(`Failed to open merge editor: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // Every path coming from a caller goes through the path policy before it is touched. Relative paths are relative to
+  // the active workspace root, the same base search, workspace info and the approval policy use, not to the cwd.
+  private async resolveSafePath(filePath: string, base?: string): Promise<string> {
+    const { workspace, root } = await this.getLocalActiveWorkspace();
+    base = base ?? root;
+    const roots = workspace.folders.map(folder => folder.path);
+    try {
+      roots.push(...(await this.getOpenWorkspacesFast()).filter(w => !w.remote).flatMap(w => w.folders.map(folder => folder.path)));
+    } catch {
+      // Only the active workspace is allowed then
+    }
+
+    // In a multi-root workspace "<root name>/path" addresses a file in that root, like VSCode's relative paths
+    if (!isAbsolute(filePath) && workspace.folders.length > 1) {
+      const [first, ...rest] = filePath.split(/[\\/]/);
+      const folder = workspace.folders.find(f => f.name === first);
+      if (folder && !(await access(resolve(base, filePath)).then(() => true, () => false))) {
+        this.log(`Resolving ${filePath} against root ${folder.name}`);
+        base = folder.path;
+        filePath = rest.join('/') || '.';
+      }
+    }
+
+    const absolutePath = await this.pathPolicy.resolve(filePath, base, roots);
+    this.log(`Path policy allowed ${filePath} -> ${absolutePath}`);
+    return absolutePath;
+  }
+
+  // The approval policy classifies a call by the same paths its tool will touch
+  resolveToolPath(filePath: string): Promise<string> {
+    return this.resolveSafePath(filePath);
+  }
+
+  private async resolveInActiveWorkspace(filePath: string): Promise<{ workspace: string; absolutePath: string }> {
+    const workspace = await this.getActiveVSCodeWorkspace();
+    return { workspace, absolutePath: await this.resolveSafePath(filePath, workspace) };
+  }
+
+  private normalizeRange(range: Partial<EditorRange> & { startLine: number }): EditorRange {
+    return {
+      startLine: range.startLine,
+      startColumn: range.startColumn ?? 1,
+      endLine: range.endLine ?? range.startLine,
+      endColumn: range.endColumn
+    };
+  }
+
+  private formatRange(range: EditorRange): string {
+    const end = range.endColumn === undefined ? `${range.endLine}` : `${range.endLine}:${range.endColumn}`;
+    return `${range.startLine}:${range.startColumn}-${end}`;
+  }
+
+  // Ask the user in VSCode; rejects when there is no bridge to ask through
+  async requestApproval(message: string, detail: string, timeout: number = 120000): Promise<boolean> {
+    const activeWorkspace = await this.getActiveVSCodeWorkspace();
+    return this.bridge.confirm(message, detail, timeout, activeWorkspace);
+  }
+
+  async getSelection(): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    selection: EditorSelectionInfo | null;
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const selection = await this.bridge.getSelections(activeWorkspace);
+
+      if (!selection) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'No active text editor in VSCode'
+          }],
+          selection: null
+        };
+      }
+
+      const lines = selection.selections.map(s =>
+        s.isEmpty
+          ? `  Cursor at ${s.startLine}:${s.startColumn}`
+          : `  ${this.formatRange(s)}:\n${s.text.split('\n').map(line => `    ${line}`).join('\n')}`
+      );
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Selections in ${selection.fileName} (${selection.selections.length}):\n${lines.join('\n')}`
+        }],
+        selection
+      };
+    } catch (error) {
+      throw new Error(`Failed to get selection: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async setSelection(
+    filePath: string,
+    ranges: Array<Partial<EditorRange> & { startLine: number }>,
+    reveal: RevealMode = 'center'
+  ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      if (ranges.length === 0) {
+        throw new Error('At least one range is required');
+      }
+
+      const { workspace, absolutePath } = await this.resolveInActiveWorkspace(filePath);
+      const selections = ranges.map(range => this.normalizeRange(range));
+
+      if (await this.bridge.isAvailable(workspace)) {
+        await this.bridge.setSelections(absolutePath, selections, reveal, workspace);
+        return {
+          content: [{
+            type: 'text',
+            text: `Selected ${selections.map(r => this.formatRange(r)).join(', ')} in ${filePath}`
+          }]
+        };
+      }
+
+      // Without the bridge we can only place a single cursor via code --goto
+      const first = selections[0];
+      this.log('Editor bridge unavailable, falling back to code --goto');
+      await this.processes.run(this.editor.cli, ['--goto', `${absolutePath}:${first.startLine}:${first.startColumn}`]);
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Moved cursor to ${filePath}:${first.startLine}:${first.startColumn} (editor bridge unavailable, ranges and reveal mode not applied)`
+        }]
+      };
+    } catch (error) {
+      throw new Error(`Failed to set selection: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async revealRange(
+    filePath: string,
+    range: Partial<EditorRange> & { startLine: number },
+    reveal: RevealMode = 'center'
+  ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const { workspace, absolutePath } = await this.resolveInActiveWorkspace(filePath);
+      const target = this.normalizeRange(range);
+
+      if (await this.bridge.isAvailable(workspace)) {
+        await this.bridge.revealRange(absolutePath, target, reveal, workspace);
+      } else {
+        this.log('Editor bridge unavailable, falling back to code --goto');
+        await this.processes.run(this.editor.cli, ['--goto', `${absolutePath}:${target.startLine}:${target.startColumn}`]);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Revealed ${filePath}:${this.formatRange(target)}`
+        }]
+      };
+    } catch (error) {
+      throw new Error(`Failed to reveal range: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async runTerminalCommand(
+    command: string,
+    cwd?: string,
+    options: Omit<CommandOptions, 'cwd'> = {}
+  ): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    result: CommandResult;
+  }> {
+    try {
+      const workingDir = await this.resolveSafePath(cwd || '.');
+      this.log(`Running command in ${workingDir}: ${command}`);
+
+      const result = await runShellCommand(command, { ...options, cwd: workingDir });
+      this.log(`Command finished in ${result.durationMs}ms with ${result.signal ? `signal ${result.signal}` : `exit code ${result.exitCode}`}`);
+
+      const status = result.timedOut
+        ? `Timed out after ${options.timeout ?? DEFAULT_COMMAND_TIMEOUT}ms`
+        : result.signal ? `Killed by ${result.signal}` : `Exit code: ${result.exitCode}`;
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Command executed: ${command}\n${status}${result.truncated ? ' (output truncated)' : ''}\n\nOutput:\n${result.stdout}${result.stderr ? `\nSTDERR: ${result.stderr}` : ''}`
+        }],
+        result
+      };
+    } catch (error) {
+      throw new Error(`Failed to execute command: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  private describeTerminal(terminal: TerminalSnapshot): string {
+    const status = terminal.running
+      ? 'running'
+      : terminal.signal ? `killed by ${terminal.signal}` : `exited with code ${terminal.exitCode}`;
+    return `Terminal '${terminal.name}' (${status}, offset ${terminal.offset})`;
+  }
+
+  async terminalCreate(name: string, options: { cwd?: string; command?: string; shell?: string } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    terminal: TerminalSnapshot;
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const cwd = await this.resolveSafePath(options.cwd || '.', activeWorkspace);
+      this.log(`Creating terminal '${name}' in ${cwd}`);
+
+      const terminal = await this.bridge.createTerminal({ name, cwd, command: options.command, shell: options.shell }, activeWorkspace);
+      return {
+        content: [{
+          type: 'text',
+          text: `Created ${this.describeTerminal(terminal)} in ${cwd}`
+        }],
+        terminal
+      };
+    } catch (error) {
+      throw new Error(`Failed to create terminal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async terminalSend(name: string, input: string, newline: boolean = true): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    terminal: TerminalSnapshot;
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const terminal = await this.bridge.sendToTerminal(name, input, newline, activeWorkspace);
+      return {
+        content: [{
+          type: 'text',
+          text: `Sent input to ${this.describeTerminal(terminal)}`
+        }],
+        terminal
+      };
+    } catch (error) {
+      throw new Error(`Failed to send to terminal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async terminalRead(name: string, since?: number, waitForExit?: number): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    terminal: TerminalSnapshot;
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const terminal = await this.bridge.readTerminal(name, since, waitForExit, activeWorkspace);
+      return {
+        content: [{
+          type: 'text',
+          text: `${this.describeTerminal(terminal)}${terminal.truncated ? ' [older output dropped]' : ''}\n\nOutput:\n${terminal.output}`
+        }],
+        terminal
+      };
+    } catch (error) {
+      throw new Error(`Failed to read terminal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async terminalKill(name: string, signal?: string): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    terminal: TerminalSnapshot;
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const terminal = await this.bridge.killTerminal(name, signal, activeWorkspace);
+      return {
+        content: [{
+          type: 'text',
+          text: `Sent ${signal || 'SIGTERM'} to terminal '${name}'`
+        }],
+        terminal
+      };
+    } catch (error) {
+      throw new Error(`Failed to kill terminal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async terminalList(): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    terminals: TerminalSnapshot[];
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const terminals = await this.bridge.listTerminals(activeWorkspace);
+      return {
+        content: [{
+          type: 'text',
+          text: terminals.length > 0
+            ? `Terminal sessions (${terminals.length}):\n${terminals.map(t => `  ${this.describeTerminal(t)}`).join('\n')}`
+            : 'No terminal sessions'
+        }],
+        terminals
+      };
+    } catch (error) {
+      throw new Error(`Failed to list terminals: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async createFile(filePath: string, content: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const absolutePath = await this.resolveSafePath(filePath);
+      const dir = dirname(absolutePath);
+      
+      // Ensure directory exists
+      await mkdir(dir, { recursive: true });
+      
+      // Write file
+      await writeFile(absolutePath, content, 'utf8');
+      
+      // Open in VSCode
+      await this.openFile(filePath);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Successfully created file ${filePath} and opened in VSCode`
+        }]
+      };
+    } catch (error) {
+      throw new Error(`Failed to create file: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async applyEdit(
+    files: FileEditRequest[],
+    options: { patch?: string; save?: boolean } = {}
+  ): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    applied: { mode: 'editor' | 'disk'; files: Array<{ path: string; edits: number; created: boolean }> };
+  }> {
+    try {
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const useBridge = await this.bridge.isAvailable(activeWorkspace);
+      this.log(`Applying edits via ${useBridge ? 'editor bridge' : 'disk'} in ${activeWorkspace}`);
+
+      // Group everything by target file so a file touched twice is validated as a whole
+      const targets = new Map<string, { label: string; isNew: boolean; requests: FileEditRequest[] }>();
+      const addTarget = async (path: string, isNew: boolean, request: FileEditRequest) => {
+        const absolutePath = await this.resolveSafePath(path, activeWorkspace);
+        const target = targets.get(absolutePath) ?? { label: path, isNew: false, requests: [] };
+        target.isNew = target.isNew || isNew;
+        target.requests.push(request);
+        targets.set(absolutePath, target);
+      };
+
+      for (const file of files) {
+        const isNew = file.diff ? parseUnifiedDiff(file.diff).some(patch => patch.isNew) : false;
+        await addTarget(file.path, isNew, file);
+      }
+      if (options.patch) {
+        for (const patch of parseUnifiedDiff(options.patch)) {
+          if (!patch.path) {
+            throw new Error('Patch hunks must be preceded by ---/+++ file headers');
+          }
+          await addTarget(patch.path, patch.isNew, { path: patch.path, diff: options.patch });
+        }
+      }
+      if (targets.size === 0) {
+        throw new Error('No edits provided');
+      }
+
+      // Compute every file's result before writing anything, so one conflict rejects the whole batch
+      const prepared: Array<BridgeFileEdit & { label: string; original: string | null; updated: string }> = [];
+      for (const [absolutePath, target] of targets) {
+        let original: string | null = null;
+        let version: number | null = null;
+
+        const document = useBridge ? await this.bridge.readDocument(absolutePath, activeWorkspace) : null;
+        if (document) {
+          original = document.text;
+          version = document.version;
+        } else {
+          original = await readFile(absolutePath, 'utf8').catch(() => null);
+        }
+
+        if (original === null && !target.isNew) {
+          throw new FileNotFoundError(target.label);
+        }
+        if (original !== null && target.isNew) {
+          throw new Error(`Conflict: ${target.label} already exists`);
+        }
+
+        const content = original ?? '';
+        let edits: OffsetEdit[] = [];
+        for (const request of target.requests) {
+          if (request.edits) {
+            edits.push(...rangesToOffsetEdits(content, request.edits, target.label));
+          }
+          if (request.diff) {
+            // Patch paths go through the same resolver as the targets, so `<root name>/path` matches in multi-root workspaces
+            const patches = [];
+            for (const patch of parseUnifiedDiff(request.diff)) {
+              if (patch.path === null || await this.resolveSafePath(patch.path, activeWorkspace) === absolutePath) {
+                patches.push(patch);
+              }
+            }
+            if (!patches.some(patch => patch.hunks.length > 0 || patch.isNew)) {
+              throw new Error(`The diff for ${target.label} contains no hunks for that file`);
+            }
+            for (const patch of patches) {
+              edits.push(...hunksToOffsetEdits(content, patch.hunks, target.label));
+            }
+          }
+        }
+        edits = normalizeOffsetEdits(edits, target.label);
+
+        prepared.push({
+          fileName: absolutePath,
+          label: target.label,
+          version,
+          create: original === null,
+          edits,
+          original,
+          updated: applyOffsetEdits(content, edits)
+        });
+      }
+
+      if (useBridge) {
+        await this.bridge.applyEdit(
+          prepared.map(({ fileName, version, create, edits }) => ({ fileName, version, create, edits })),
+          options.save ?? false,
+          activeWorkspace
+        );
+      } else {
+        await this.writeFilesAtomically(prepared.map(file => ({ path: file.fileName, original: file.original, updated: file.updated })));
+      }
+
+      const applied = {
+        mode: useBridge ? 'editor' as const : 'disk' as const,
+        files: prepared.map(file => ({ path: file.label, edits: file.edits.length, created: file.create }))
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Applied edits to ${applied.files.length} file(s) via ${useBridge ? 'VSCode editor buffers' : 'disk'}:\n${applied.files.map(f => `  ${f.path}: ${f.edits} edit(s)${f.created ? ' (created)' : ''}`).join('\n')}`
+        }],
+        applied
+      };
+    } catch (error) {
+      throw new Error(`Failed to apply edits: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  private async writeFilesAtomically(files: Array<{ path: string; original: string | null; updated: string }>): Promise<void> {
+    // Stage everything next to its target first, then swap the files in with renames
+    const staged: string[] = [];
+    try {
+      for (const file of files) {
+        const tempPath = `${file.path}.vscode-helper-${process.pid}.tmp`;
+        await mkdir(dirname(file.path), { recursive: true });
+        await writeFile(tempPath, file.updated, 'utf8');
+        staged.push(tempPath);
+      }
+    } catch (error) {
+      await Promise.all(staged.map(tempPath => unlink(tempPath).catch(() => {})));
+      throw error;
+    }
+
+    const committed: typeof files = [];
+    try {
+      for (let i = 0; i < files.length; i++) {
+        await rename(staged[i], files[i].path);
+        committed.push(files[i]);
+      }
+    } catch (error) {
+      // Roll back the files that were already replaced
+      for (const file of committed) {
+        if (file.original === null) {
+          await unlink(file.path).catch(() => {});
+        } else {
+          await writeFile(file.path, file.original, 'utf8').catch(() => {});
+        }
+      }
+      await Promise.all(staged.slice(committed.length).map(tempPath => unlink(tempPath).catch(() => {})));
+      throw error;
+    }
+  }
+
+  private formatSearchMatches(result: ContentSearchResult): string {
+    const lines: string[] = [];
+    for (const match of result.matches) {
+      match.before.forEach((text, i) => lines.push(`${match.file}-${match.line - match.before.length + i}-${text}`));
+      lines.push(`${match.file}:${match.line}:${match.column}:${match.preview}`);
+      match.after.forEach((text, i) => lines.push(`${match.file}-${match.line + i + 1}-${text}`));
+    }
+    if (result.truncated) {
+      lines.push(`... stopped after ${result.matches.length} matches`);
+    }
+    return lines.join('\n');
+  }
+
+  async searchContent(query: string, options: ContentSearchOptions = {}, overrides: IgnoreOverrides = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    search: ContentSearchResult;
+  }> {
+    try {
+      const searchRoot = await this.resolveSafePath('.');
+      const ignore = await WorkspaceIgnore.load(searchRoot, this.withConfigExcludes(overrides), this.ignoreContext());
+      const search = await this.contentSearcher.search(searchRoot, query, options, ignore, file => this.pathPolicy.matchDenied(file) !== null);
+      this.log(`Content search via ${search.engine} found ${search.matches.length} matches${search.truncated ? ' (truncated)' : ''}`);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(search, null, 2)
+        }],
+        search
+      };
+    } catch (error) {
+      throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // Excludes from the configuration apply on top of each call's own
+  private withConfigExcludes(overrides: IgnoreOverrides): IgnoreOverrides {
+    return { ...overrides, exclude: [...this.config.exclude, ...(overrides.exclude ?? [])] };
+  }
+
+  private ignoreContext() {
+    return { userSettingsPath: userSettingsPath(this.editor), log: (message: string, ...args: any[]) => this.log(message, ...args) };
+  }
+
+  // Files VSCode would show, after ignore files, exclude settings and the path policy
+  private async listWorkspaceFiles(root: string, purpose: IgnorePurpose, overrides: IgnoreOverrides = {}): Promise<string[]> {
+    const ignore = await WorkspaceIgnore.load(root, this.withConfigExcludes(overrides), this.ignoreContext());
+    const { files } = await ignore.listFiles(purpose);
+    return files.filter(file => !this.pathPolicy.matchDenied(file));
+  }
+
+  async findFiles(query: string, limit: number = 50, overrides: IgnoreOverrides = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    files: FuzzyMatch[];
+  }> {
+    try {
+      const root = await this.resolveSafePath('.');
+      const candidates = await this.listWorkspaceFiles(root, 'search', overrides);
+      const files = rankPaths(query, candidates, limit);
+      this.log(`Fuzzy find "${query}": ${files.length} of ${candidates.length} files`);
+
+      return {
+        content: [{
+          type: 'text',
+          text: files.length > 0
+            ? `Found ${files.length} files matching "${query}":\n${files.map(file => file.path).join('\n')}`
+            : `No files matching "${query}"`
+        }],
+        files
+      };
+    } catch (error) {
+      throw new Error(`Failed to find files: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async searchWorkspace(query: string, type: 'files' | 'content', overrides: IgnoreOverrides = {}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const searchRoot = await this.resolveSafePath('.');
+
+      if (type === 'files') {
+        const files = rankPaths(query, await this.listWorkspaceFiles(searchRoot, 'search', overrides), 200).map(file => file.path);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: `Found ${files.length} files matching "${query}":\n${files.join('\n')}`
+          }]
+        };
+      } else {
+        // Same semantics as the plain rg/grep search this replaced: case-sensitive regular expressions
+        const ignore = await WorkspaceIgnore.load(searchRoot, this.withConfigExcludes(overrides), this.ignoreContext());
+        const result = await this.contentSearcher.search(searchRoot, query, { regex: true, caseSensitive: true }, ignore, file => this.pathPolicy.matchDenied(file) !== null);
+        return {
+          content: [{
+            type: 'text',
+            text: `Content search results for "${query}":\n${this.formatSearchMatches(result)}`
+          }]
+        };
+      }
+    } catch (error) {
+      throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // Workspace-relative form of a directory argument, '' for the root
+  private async resolveWorkspaceDirectory(root: string, dir: string | undefined): Promise<string> {
+    if (!dir || dir === '.' || dir === '/') {
+      return '';
+    }
+    const absolutePath = await this.resolveSafePath(dir, root);
+    return relative(root, absolutePath).split('\\').join('/');
+  }
+
+  async getWorkspaceFiles(options: { dir?: string; cursor?: string; pageSize?: number; overrides?: IgnoreOverrides } = {}): Promise<{
+    contents: Array<{ uri: string; mimeType: string; text: string }>;
+    page: FilePage;
+  }> {
+    try {
+      const root = await this.resolveSafePath('.');
+      const dir = await this.resolveWorkspaceDirectory(root, options.dir);
+      const files = await this.listWorkspaceFiles(root, 'files', options.overrides);
+      const page = await pageFiles(root, files, dir, options.cursor, options.pageSize);
+      this.log(`Files page for ${dir || '.'}: ${page.files.length} of ${page.total}`);
+
+      return {
+        contents: [{
+          uri: dir ? `vscode://workspace/files/${dir.split('/').map(encodeURIComponent).join('/')}` : 'vscode://workspace/files',
+          mimeType: 'application/json',
+          text: JSON.stringify(page, null, 2)
+        }],
+        page
+      };
+    } catch (error) {
+      throw new Error(`Failed to get workspace files: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async getWorkspaceTree(options: { dir?: string; depth?: number; overrides?: IgnoreOverrides } = {}): Promise<{
+    contents: Array<{ uri: string; mimeType: string; text: string }>;
+    tree: TreeNode;
+  }> {
+    try {
+      const root = await this.resolveSafePath('.');
+      const dir = await this.resolveWorkspaceDirectory(root, options.dir);
+      const files = await this.listWorkspaceFiles(root, 'files', options.overrides);
+      const tree = await buildTree(root, files, dir, options.depth ?? DEFAULT_TREE_DEPTH);
+
+      return {
+        contents: [{
+          uri: dir ? `vscode://workspace/tree/${dir.split('/').map(encodeURIComponent).join('/')}` : 'vscode://workspace/tree',
+          mimeType: 'application/json',
+          text: JSON.stringify(tree, null, 2)
+        }],
+        tree
+      };
+    } catch (error) {
+      throw new Error(`Failed to get workspace tree: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async getRecentlyOpened(): Promise<{
+    contents: Array<{ uri: string; mimeType: string; text: string }>;
+    state: EditorState;
+  }> {
+    try {
+      const state = await this.stateReader.read(this.editor);
+      return {
+        contents: [{
+          uri: 'vscode://workspace/recent',
+          mimeType: 'application/json',
+          text: JSON.stringify(state, null, 2)
+        }],
+        state
+      };
+    } catch (error) {
+      throw new Error(`Failed to read recently opened: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // git runs in the active workspace root and is limited to it; a path narrows a command to that file or directory
+  private async gitScope(path?: string): Promise<{ root: string; pathspecs: string[] }> {
+    const { root } = await this.getLocalActiveWorkspace();
+    if (!path) {
+      return { root, pathspecs: ['.'] };
+    }
+    const relativePath = relative(root, await this.resolveSafePath(path, root));
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new PathPolicyError(`Path '${path}' is outside the active workspace ${root}`, 'outside_workspace', path);
+    }
+    return { root, pathspecs: [`:(literal)${relativePath || '.'}`] };
+  }
+
+  // Files matching a deny pattern are left out of git output like everywhere else
+  private isGitPathDenied(...paths: Array<string | null>): boolean {
+    return paths.some(path => path !== null && this.pathPolicy.matchDenied(path) !== null);
+  }
+
+  async gitStatus(path?: string): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    status: GitStatus;
+  }> {
+    try {
+      const { root, pathspecs } = await this.gitScope(path);
+      const result = await this.git.status(root, pathspecs);
+      const status = { ...result, entries: result.entries.filter(entry => !this.isGitPathDenied(entry.path, entry.origPath)) };
+
+      const { head, upstream, ahead, behind } = status.branch;
+      const lines = [`On ${head ? `branch ${head}` : 'detached HEAD'}${upstream ? ` (${upstream}, ahead ${ahead}, behind ${behind})` : ''}`];
+      for (const entry of status.entries) {
+        const code = entry.kind === 'untracked' ? '??' : `${entry.index}${entry.worktree}`.replace(/\./g, ' ');
+        lines.push(`${code} ${entry.path}${entry.origPath ? ` <- ${entry.origPath}` : ''}`);
+      }
+      if (status.entries.length === 0) {
+        lines.push('Nothing to commit, working tree clean');
+      }
+
+      return { content: [{ type: 'text', text: lines.join('\n') }], status };
+    } catch (error) {
+      throw new Error(`Failed to get git status: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async gitDiff(options: GitDiffOptions & { path?: string } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    diff: GitDiff;
+  }> {
+    try {
+      const { root, pathspecs } = await this.gitScope(options.path);
+      const files = await this.git.diffFiles(root, options, pathspecs);
+      const denied = files.filter(file => this.isGitPathDenied(file.path, file.oldPath));
+      // Denied files are excluded from the patch by repository-relative pathspecs
+      const excludes = denied.flatMap(file => [file.path, file.oldPath]).filter((p): p is string => p !== null).map(p => `:(top,exclude,literal)${p}`);
+      const diff = await this.git.diff(root, options, [...pathspecs, ...excludes], files.filter(file => !denied.includes(file)));
+
+      const text = diff.files.length === 0
+        ? 'No changes'
+        : diff.patch + (diff.truncated ? `\n... patch truncated after ${diff.patch.length} characters` : '');
+      return { content: [{ type: 'text', text }], diff };
+    } catch (error) {
+      throw new Error(`Failed to get git diff: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  private async findWorkspacePathByName(workspaceName: string): Promise<string | null> {
+  async gitLog(options: { ref?: string; path?: string; limit?: number } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    commits: GitCommit[];
+  }> {
     try {
-      // Check VSCode's workspace storage for exact matches
+      const { root, pathspecs } = await this.gitScope(options.path);
+      const commits = await this.git.history(root, options, pathspecs);
+      const text = commits.map(commit => `${commit.shortHash} ${commit.date.slice(0, 10)} ${commit.author}: ${commit.subject}`).join('\n');
+      return { content: [{ type: 'text', text: text || 'No commits' }], commits };
+    } catch (error) {
+      throw new Error(`Failed to get git log: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  async gitBlame(filePath: string, options: { startLine?: number; endLine?: number; ref?: string } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    lines: GitBlameLine[];
+  }> {
+    try {
+      const { root } = await this.getLocalActiveWorkspace();
+      const absolutePath = await this.resolveSafePath(filePath, root);
+      const lines = await this.git.blame(dirname(absolutePath), basename(absolutePath), options);
+      const text = lines
+        .map(line => `${line.uncommitted ? 'uncommitted' : line.commit.slice(0, 11)} (${line.author} ${line.date.slice(0, 10)} ${line.line}) ${line.text}`)
+        .join('\n');
+      return { content: [{ type: 'text', text }], lines };
+    } catch (error) {
+      throw new Error(`Failed to get git blame: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // The Problems panel through the editor bridge, else the workspace's own tsc and eslint if the user allows running them
+  private async collectProblems(root: string): Promise<ProblemsResult> {
+    let bridgeFailure: string | null = null;
+    if (await this.bridge.isAvailable(root)) {
       try {
-        const { stdout } = await execAsync('find ~/.config/Code/User/workspaceStorage -name "workspace.json"');
-        const workspaceFiles = stdout.trim().split('\n');
-        
-        for (const workspaceFile of workspaceFiles) {
-          try {
-            const workspaceData = JSON.parse(await readFile(workspaceFile, 'utf8'));
-            if (workspaceData.folder && workspaceData.folder.startsWith('file://')) {
-              const workspacePath = workspaceData.folder.replace('file://', '');
-              const pathName = workspacePath.split('/').pop() || '';
-              
-              if (pathName === workspaceName) {
-                await access(workspacePath);
-                this.log(`Found exact workspace path for ${workspaceName}: ${workspacePath}`);
-                return workspacePath;
-              }
-            }
-          } catch {
-            // Invalid JSON or file read error, continue
-          }
-        }
-      } catch {
-        // find command failed
+        const diagnostics = await this.bridge.getDiagnostics(root);
+        return {
+          collectors: [{ collector: 'bridge', status: 'ok', detail: `${diagnostics.length} problems from the Problems panel` }],
+          problems: diagnostics.map(({ fileName, source, ...diagnostic }) => ({ ...diagnostic, file: fileName, source: source ?? 'vscode' }))
+        };
+      } catch (error) {
+        // Bridge extensions older than the request fall back like a missing bridge
+        bridgeFailure = error instanceof Error ? error.message : 'Unknown error';
+        this.log(`Editor bridge diagnostics failed: ${bridgeFailure}`);
       }
+    }
 
-      // Fallback: search common project directories
-      const searchPaths = [
-        `/home/ubuntu/projects/*/*/${workspaceName}`,
-        `/home/ubuntu/projects/*/${workspaceName}`,
-        `/home/ubuntu/${workspaceName}`
-      ];
+    // The workspace's node_modules/.bin and ESLint config are code the repository controls
+    const runs = this.config.runProblemCommands
+      ? [await this.problemCollector.tsc(root), await this.problemCollector.eslint(root)]
+      : (['tsc', 'eslint'] as const).map(collector => ({
+        run: { collector, status: 'skipped' as const, detail: 'not run: enable runProblemCommands in the user config to run the workspace\'s own tools' },
+        problems: []
+      }));
+    return {
+      collectors: [
+        bridgeFailure
+          ? { collector: 'bridge', status: 'failed', detail: bridgeFailure }
+          : { collector: 'bridge', status: 'skipped', detail: 'editor bridge extension not running for this workspace' },
+        ...runs.map(run => run.run)
+      ],
+      problems: runs.flatMap(run => run.problems)
+    };
+  }
 
-      for (const searchPath of searchPaths) {
-        try {
-          const { stdout } = await execAsync(`ls -d ${searchPath} 2>/dev/null | head -1`);
-          if (stdout.trim()) {
-            const path = stdout.trim();
-            await access(path);
-            this.log(`Found workspace path via search for ${workspaceName}: ${path}`);
-            return path;
-          }
-        } catch {
-          // Continue to next search path
-        }
+  async getProblems(filter: { file?: string; severity?: ProblemSeverity } = {}): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    problems: ProblemsResult;
+  }> {
+    try {
+      if (filter.severity && !PROBLEM_SEVERITIES.includes(filter.severity)) {
+        throw new Error(`Severity must be one of ${PROBLEM_SEVERITIES.join(', ')}`);
       }
+      const { root } = await this.getLocalActiveWorkspace();
+      const target = filter.file ? await this.resolveSafePath(filter.file) : null;
+      const inside = (path: string, dir: string) => {
+        const relativePath = relative(dir, path);
+        return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+      };
 
-      return null;
-    } catch {
-      return null;
+      const collected = await this.collectProblems(root);
+      const problems = collected.problems
+        .filter(problem => problem.file === null ? !target : inside(problem.file, root) && (!target || inside(problem.file, target)))
+        .filter(problem => problem.file === null || !this.pathPolicy.matchDenied(relative(root, problem.file)))
+        .filter(problem => !filter.severity || atLeast(problem.severity, filter.severity))
+        .sort((a, b) =>
+          PROBLEM_SEVERITIES.indexOf(a.severity) - PROBLEM_SEVERITIES.indexOf(b.severity) ||
+          (a.file ?? '').localeCompare(b.file ?? '') ||
+          a.range.startLine - b.range.startLine ||
+          a.range.startColumn - b.range.startColumn);
+      this.log(`Problems: ${problems.length} of ${collected.problems.length} after filtering`);
+
+      const lines = problems.map(problem => {
+        const location = problem.file ? `${relative(root, problem.file)}:${problem.range.startLine}:${problem.range.startColumn}` : '(project)';
+        return `${location} ${problem.severity} ${problem.message} [${problem.source}${problem.code ? ` ${problem.code}` : ''}]`;
+      });
+      const used = collected.collectors.filter(run => run.status === 'ok').map(run => run.collector);
+      const count = (severity: ProblemSeverity) => problems.filter(problem => problem.severity === severity).length;
+      lines.push(`${count('error')} errors, ${count('warning')} warnings${used.length > 0 ? ` (from ${used.join(', ')})` : ' (no problem source available)'}`);
+
+      return { content: [{ type: 'text', text: lines.join('\n') }], problems: { collectors: collected.collectors, problems } };
+    } catch (error) {
+      throw new Error(`Failed to get problems: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  private async getActiveVSCodeWorkspace(): Promise<string> {
-    try {
-      // Approach 1: Use fast workspace detection (most reliable and fast)
+  async getProblemsResource(filter: { file?: string; severity?: ProblemSeverity } = {}): Promise<{
+    contents: Array<{ uri: string; mimeType: string; text: string }>;
+    problems: ProblemsResult;
+  }> {
+    const { problems } = await this.getProblems(filter);
+    return {
+      contents: [{
+        uri: 'vscode://workspace/diagnostics',
+        mimeType: 'application/json',
+        text: JSON.stringify(problems, null, 2)
+      }],
+      problems
+    };
+  }
+
+  // A language provider through the editor bridge, else the configured language server started in the workspace root
+  private async lookUp<T>(root: string, fromBridge: () => Promise<T>, fromServer: () => Promise<T>): Promise<{ result: T; source: CodeIntelSource }> {
+    if (await this.bridge.isAvailable(root)) {
       try {
-        const workspaces = await this.getOpenWorkspacesFast();
-        
-        if (workspaces.length > 0) {
-          this.log(`Found ${workspaces.length} open VSCode workspaces: ${workspaces.map(w => w.name).join(', ')}`);
-          
-          // Try to determine which workspace is active
-          // First, check if current working directory is within any workspace
-          const currentDir = process.cwd();
-          for (const workspace of workspaces) {
-            if (currentDir.startsWith(workspace.path)) {
-              this.log(`Current directory is within workspace: ${workspace.name}`);
-              return workspace.path;
-            }
-          }
-          
-          // If not, return the first workspace (most recent or active)
-          this.log(`Using first workspace: ${workspaces[0].name}`);
-          return workspaces[0].path;
-        }
+        return { result: await fromBridge(), source: 'bridge' };
       } catch (error) {
-        this.log(`VSCode status command failed: ${error}`);
+        // Bridge extensions older than the request fall back like a missing bridge
+        this.log(`Editor bridge lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+    }
+    return { result: await fromServer(), source: 'language-server' };
+  }
 
-      // Approach 2: Check for workspace indicators in current directory and parents
-      let currentDir = process.cwd();
-      const rootDir = '/';
-      const homeDir = process.env.HOME || '/home/ubuntu';
-      
-      while (currentDir !== rootDir) {
-        try {
-          // Check for workspace indicators
-          const indicators = ['.git', 'package.json', 'Cargo.toml', 'go.mod', 'pom.xml', 'pyproject.toml', '.vscode'];
-          
-          for (const indicator of indicators) {
-            try {
-              await access(join(currentDir, indicator));
-              
-              // Skip .vscode in home directory unless it has a settings.json with workspace-specific config
-              if (indicator === '.vscode' && currentDir === homeDir) {
-                try {
-                  const settingsPath = join(currentDir, '.vscode', 'settings.json');
-                  await access(settingsPath);
-                  const settings = JSON.parse(await readFile(settingsPath, 'utf8'));
-                  // Only consider it a workspace if it has project-specific settings
-                  if (Object.keys(settings).length === 0) {
-                    continue;
-                  }
-                } catch {
-                  // No settings.json or invalid JSON, skip this .vscode
-                  continue;
-                }
-              }
-              
-              this.log(`Found workspace indicator ${indicator} in ${currentDir}`);
-              return currentDir;
-            } catch {
-              // Indicator not found, continue
-            }
-          }
-          
-          // Move up one directory
-          const parentDir = dirname(currentDir);
-          if (parentDir === currentDir) {
-            break; // Reached filesystem root
-          }
-          currentDir = parentDir;
-        } catch {
-          break;
-        }
-      }
-      
-      // Approach 3: Check VSCode's recent workspaces
-      try {
-        const { stdout } = await execAsync('ls -t ~/.config/Code/User/workspaceStorage/*/workspace.json');
-        const workspaceFiles = stdout.trim().split('\n').slice(0, 3); // Get 3 most recent
-        
-        for (const workspaceFile of workspaceFiles) {
-          try {
-            const workspaceData = JSON.parse(await readFile(workspaceFile, 'utf8'));
-            if (workspaceData.folder && workspaceData.folder.startsWith('file://')) {
-              const workspacePath = workspaceData.folder.replace('file://', '');
-              try {
-                await access(workspacePath);
-                this.log(`Found recent VSCode workspace: ${workspacePath}`);
-                return workspacePath;
-              } catch {
-                // Workspace path doesn't exist anymore
-              }
-            }
-          } catch {
-            // Invalid JSON or file read error
-          }
-        }
-      } catch {
-        // Unable to read VSCode workspace storage
-      }
+  private async resolvePosition(filePath: string, line: number, column: number): Promise<{ root: string; absolutePath: string }> {
+    if (!Number.isInteger(line) || line < 1 || !Number.isInteger(column) || column < 1) {
+      throw new Error('Line and column must be positive integers (1-based)');
+    }
+    const { root } = await this.getLocalActiveWorkspace();
+    return { root, absolutePath: await this.resolveSafePath(filePath, root) };
+  }
 
-      // Approach 4: Fallback to current working directory
-      this.log('No workspace indicators or recent workspaces found, using current directory');
-      return process.cwd();
+  // Drops locations in denied files and adds previews; files outside the workspace, such as type libraries, stay without one
+  private async finishLocations(locations: CodeLocation[], root: string): Promise<CodeLocation[]> {
+    const allowed = locations.filter(location => !this.pathPolicy.matchDenied(relative(root, location.file)));
+    await addPreviews(allowed, root);
+    return allowed;
+  }
+
+  private formatLocation(location: CodeLocation, root: string): string {
+    const relativePath = relative(root, location.file);
+    const file = relativePath.startsWith('..') || isAbsolute(relativePath) ? location.file : relativePath;
+    return `${file}:${location.line}:${location.column}${location.preview ? `  ${location.preview}` : ''}`;
+  }
+
+  private formatSymbols(symbols: CodeSymbol[], root: string): string {
+    return symbols
+      .map(symbol => `${symbol.kind} ${symbol.containerName ? `${symbol.containerName}.` : ''}${symbol.name} ${this.formatLocation({ ...symbol.location, preview: null }, root)}`)
+      .join('\n');
+  }
+
+  async findDefinition(filePath: string, line: number, column: number): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    source: CodeIntelSource;
+    locations: CodeLocation[];
+  }> {
+    try {
+      const { root, absolutePath } = await this.resolvePosition(filePath, line, column);
+      const { result, source } = await this.lookUp(root,
+        () => this.bridge.getDefinitions(absolutePath, line, column, root),
+        () => this.navigator.definitions(root, absolutePath, line, column));
+      const locations = await this.finishLocations(result.map(toCodeLocation), root);
+      const text = locations.map(location => this.formatLocation(location, root)).join('\n');
+      return { content: [{ type: 'text', text: text || `No definition found at ${filePath}:${line}:${column}` }], source, locations };
     } catch (error) {
-      this.log(`Failed to detect workspace: ${error}, falling back to cwd`);
-      return process.cwd();
+      throw new Error(`Failed to find definition: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  async openFile(filePath: string, line?: number): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  async findReferences(filePath: string, line: number, column: number, includeDeclaration: boolean = true): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    source: CodeIntelSource;
+    locations: CodeLocation[];
+  }> {
     try {
-      const absolutePath = resolve(this.workspaceRoot, filePath);
-      this.log(`Opening file: ${absolutePath}${line ? ` at line ${line}` : ''}`);
-      
-      // Build VSCode command
-      let command = `code "${absolutePath}"`;
-      if (line) {
-        command = `code --goto "${absolutePath}:${line}"`;
-      }
-
-      this.log(`Executing command: ${command}`);
-      await execAsync(command);
-      
+      const { root, absolutePath } = await this.resolvePosition(filePath, line, column);
+      const { result, source } = await this.lookUp(root,
+        () => this.bridge.getReferences(absolutePath, line, column, includeDeclaration, root),
+        () => this.navigator.references(root, absolutePath, line, column, includeDeclaration));
+      const locations = await this.finishLocations(result.map(toCodeLocation), root);
+      const text = locations.map(location => this.formatLocation(location, root)).join('\n');
       return {
-        content: [{
-          type: 'text',
-          text: `Successfully opened ${filePath}${line ? ` at line ${line}` : ''} in VSCode`
-        }]
+        content: [{ type: 'text', text: text ? `${text}\n${locations.length} reference${locations.length === 1 ? '' : 's'}` : `No references found at ${filePath}:${line}:${column}` }],
+        source,
+        locations
       };
     } catch (error) {
-      throw new Error(`Failed to open file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to find references: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  async runTerminalCommand(command: string, cwd?: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  async getDocumentSymbols(filePath: string): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    source: CodeIntelSource;
+    symbols: CodeSymbol[];
+  }> {
     try {
-      const workingDir = cwd ? resolve(this.workspaceRoot, cwd) : this.workspaceRoot;
-      
-      // Use VSCode's integrated terminal by opening a new terminal and sending the command
-      const terminalScript = `
-        tell application "System Events"
-          tell application "Visual Studio Code" to activate
-          delay 0.5
-          keystroke "\`" using {control down}
-          delay 0.5
-          keystroke "${command.replace(/"/g, '\\"')}"
-          keystroke return
-        end tell
-      `;
-
-      // For Linux, we'll use a different approach - execute directly and show in VSCode terminal
-      const { stdout, stderr } = await execAsync(command, { 
-        cwd: workingDir,
-        env: process.env 
-      });
-
-      const output = stdout + (stderr ? `\nSTDERR: ${stderr}` : '');
-      
-      // Also try to open a terminal in VSCode (this works if VSCode is already open)
-      try {
-        await execAsync(`code --command "workbench.action.terminal.new"`);
-      } catch {
-        // Ignore if VSCode command fails
-      }
+      const { root } = await this.getLocalActiveWorkspace();
+      const absolutePath = await this.resolveSafePath(filePath, root);
+      const { result, source } = await this.lookUp(root,
+        () => this.bridge.getDocumentSymbols(absolutePath, root),
+        () => this.navigator.documentSymbols(root, absolutePath));
+      const symbols = result.map(toCodeSymbol);
+      await addPreviews(symbols.map(symbol => symbol.location), root);
+      return { content: [{ type: 'text', text: this.formatSymbols(symbols, root) || `No symbols in ${filePath}` }], source, symbols };
+    } catch (error) {
+      throw new Error(`Failed to get document symbols: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
 
+  async findWorkspaceSymbols(query: string, limit: number = 100): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    source: CodeIntelSource;
+    symbols: CodeSymbol[];
+    truncated: boolean;
+  }> {
+    try {
+      const { root } = await this.getLocalActiveWorkspace();
+      const { result, source } = await this.lookUp(root,
+        () => this.bridge.getWorkspaceSymbols(query, root),
+        () => this.navigator.workspaceSymbols(root, query));
+      const allowed = result.map(toCodeSymbol).filter(symbol => !this.pathPolicy.matchDenied(relative(root, symbol.location.file)));
+      const symbols = allowed.slice(0, limit);
+      await addPreviews(symbols.map(symbol => symbol.location), root);
+      const text = this.formatSymbols(symbols, root);
       return {
         content: [{
           type: 'text',
-          text: `Command executed: ${command}\n\nOutput:\n${output}`
-        }]
+          text: text
+            ? `${text}${allowed.length > limit ? `\n... ${allowed.length - limit} more, refine the query` : ''}`
+            : `No symbols matching '${query}'`
+        }],
+        source,
+        symbols,
+        truncated: allowed.length > limit
       };
     } catch (error) {
-      throw new Error(`Failed to execute command: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to find workspace symbols: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  async createFile(filePath: string, content: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  // Why a workspace storage entry does or does not yield a workspace
+  private async explainStorageEntry(workspaceFile: string): Promise<{ workspace: Workspace | null; reason: string }> {
+    let entry: StorageEntry;
     try {
-      const absolutePath = resolve(this.workspaceRoot, filePath);
-      const dir = dirname(absolutePath);
-      
-      // Ensure directory exists
-      await mkdir(dir, { recursive: true });
-      
-      // Write file
-      await writeFile(absolutePath, content, 'utf8');
-      
-      // Open in VSCode
-      await this.openFile(filePath);
-      
+      entry = JSON.parse(await readFile(workspaceFile, 'utf8'));
+    } catch (error) {
+      return { workspace: null, reason: `unreadable workspace.json: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    const uri = entry.folder ?? entry.workspace;
+    const location = uri ? parseWorkspaceUri(uri) : null;
+    if (!uri) {
+      return { workspace: null, reason: 'empty window without a folder or workspace' };
+    }
+    if (!location) {
+      return { workspace: null, reason: `unsupported URI ${uri}` };
+    }
+
+    const workspace = await workspaceFromStorage(entry);
+    if (!workspace) {
       return {
-        content: [{
-          type: 'text',
-          text: `Successfully created file ${filePath} and opened in VSCode`
-        }]
+        workspace: null,
+        reason: entry.folder ? `folder no longer exists: ${location.path}` : `workspace file missing, unreadable or without folders: ${location.path}`
       };
-    } catch (error) {
-      throw new Error(`Failed to create file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    return { workspace, reason: workspace.remote ? `${describeRemote(workspace.remote)} ${workspace.path}` : workspace.configFile ?? workspace.path };
+  }
+
+  // External tools the selected window manager backend and the other features rely on
+  private toolRequirements(): ToolRequirement[] {
+    const backendTools: Record<string, ToolRequirement[]> = {
+      x11: [
+        { tool: 'wmctrl', args: ['-m'], purpose: 'listing and focusing windows', fix: 'sudo apt install wmctrl' },
+        { tool: 'xprop', args: ['-root', '_NET_ACTIVE_WINDOW'], purpose: 'finding the focused window', fix: 'sudo apt install x11-utils' },
+        { tool: 'xdotool', args: ['version'], purpose: 'opening terminals with a key press', optional: true, fix: 'sudo apt install xdotool' }
+      ],
+      sway: [
+        { tool: 'swaymsg', args: ['-t', 'get_version'], purpose: 'listing and focusing windows', fix: 'Run inside a Sway session, or set VSCODE_HELPER_WINDOW_MANAGER' },
+        { tool: 'wtype', args: [], purpose: 'opening terminals with a key press', optional: true, fix: 'sudo apt install wtype', allowedExitCodes: [1] }
+      ],
+      hyprland: [
+        { tool: 'hyprctl', args: ['version'], purpose: 'listing and focusing windows', fix: 'Run inside a Hyprland session, or set VSCODE_HELPER_WINDOW_MANAGER' },
+        { tool: 'wtype', args: [], purpose: 'opening terminals with a key press', optional: true, fix: 'sudo apt install wtype', allowedExitCodes: [1] }
+      ],
+      status: []
+    };
+
+    return [
+      {
+        tool: this.editor.cli,
+        args: ['--version'],
+        purpose: 'opening files and windows',
+        fix: `Install ${this.editor.displayName} and put its \`${this.editor.cli}\` command on PATH (Command Palette: "Shell Command: Install '${this.editor.cli}' command in PATH")`
+      },
+      ...(backendTools[this.windows.name] ?? []),
+      { tool: 'rg', args: ['--version'], purpose: 'fast content search; a slower built-in search is used otherwise', optional: true, fix: 'sudo apt install ripgrep' },
+      { tool: 'sqlite3', args: ['--version'], purpose: 'reading recently opened workspaces', optional: true, fix: 'sudo apt install sqlite3' },
+      { tool: 'git', args: ['--version'], purpose: 'git status, diff, log and blame tools', optional: true, fix: 'sudo apt install git' },
+      {
+        tool: this.config.languageServer[0],
+        args: ['--version'],
+        purpose: 'definitions, references and symbols without the bridge extension',
+        optional: true,
+        fix: 'npm install -g typescript-language-server typescript, or set languageServer in the user config'
+      }
+    ];
   }
 
-  async searchWorkspace(query: string, type: 'files' | 'content'): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  // Runs every detection strategy on its own and reports what each found and why candidates were rejected
+  async getDiagnostics(): Promise<{ content: Array<{ type: 'text'; text: string }>; report: DiagnosticsReport }> {
     try {
-      if (type === 'files') {
-        // Search for files by name
-        const files = await glob(`**/*${query}*`, {
-          cwd: this.workspaceRoot,
-          ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
-          onlyFiles: true
+      const message = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+      const { displayName } = this.editor;
+
+      // Environment
+      const environment: DiagnosticCheck[] = [
+        { status: 'info', name: 'Platform', detail: `${process.platform}, Node.js ${process.version}` },
+        {
+          status: 'info',
+          name: 'Session',
+          detail: ['XDG_SESSION_TYPE', 'DISPLAY', 'WAYLAND_DISPLAY'].map(name => `${name}=${process.env[name] || '(unset)'}`).join(', ')
+        },
+        {
+          status: 'info',
+          name: 'Editor',
+          detail: `${displayName} (${this.editor.id}), ${this.config.editor ? 'chosen in the configuration, VSCODE_HELPER_EDITOR or --editor' : 'detected as the most recently used'}`
+        },
+        {
+          status: 'info',
+          name: 'Editor profile',
+          detail: `launcher ${this.editor.cli}, extensions in ${this.editor.extensionsDir}${this.config.editorProfiles.some(profile => profile.id === this.editor.id) ? ', from editorProfiles in the user config' : ''}`
+        }
+      ];
+      try {
+        await access(this.editor.userDataDir);
+        environment.push({ status: 'ok', name: 'Data directory', detail: this.editor.userDataDir });
+      } catch {
+        environment.push({
+          status: 'fail',
+          name: 'Data directory',
+          detail: `${this.editor.userDataDir} does not exist`,
+          fix: `Choose the editor you use with --editor (${getEditorProfiles(this.config.editorProfiles).map(profile => profile.id).join(', ')}), set its userDataDir in editorProfiles, or point VSCODE_HELPER_USER_DATA_DIR at its data directory`
         });
-        
-        return {
-          content: [{
-            type: 'text',
-            text: `Found ${files.length} files matching "${query}":\n${files.join('\n')}`
-          }]
-        };
-      } else {
-        // Search for content using ripgrep or grep
+      }
+      const waylandSession = process.env.XDG_SESSION_TYPE === 'wayland' || Boolean(process.env.WAYLAND_DISPLAY);
+      environment.push(
+        this.windows.name === 'status'
+          ? {
+            status: 'warn',
+            name: 'Window manager backend',
+            detail: 'status: window titles come from `code --status`; windows cannot be focused and no keys can be sent',
+            fix: 'On X11, Sway or Hyprland set VSCODE_HELPER_WINDOW_MANAGER to x11, sway or hyprland'
+          }
+          : this.windows.name === 'x11' && waylandSession
+            ? {
+              status: 'warn',
+              name: 'Window manager backend',
+              detail: 'x11 on a Wayland session only sees XWayland windows',
+              fix: 'Run the editor under XWayland, or use VSCODE_HELPER_WINDOW_MANAGER=status'
+            }
+            : { status: 'ok', name: 'Window manager backend', detail: this.windows.name }
+      );
+
+      // Tools
+      const tools: DiagnosticCheck[] = [];
+      for (const requirement of this.toolRequirements()) {
+        tools.push(await checkTool(this.processes, requirement));
+      }
+
+      // Workspace storage, the source of workspace paths for window titles
+      const storage: DiagnosticCheck[] = [];
+      const candidates: Workspace[] = [];
+      const storageFiles = await this.listWorkspaceStorageFiles();
+      if (storageFiles.length === 0) {
+        storage.push({
+          status: 'fail',
+          name: 'workspaceStorage',
+          detail: `no entries in ${workspaceStorageDir(this.editor)}`,
+          fix: `Open a folder in ${displayName} once, or check the data directory above`
+        });
+      }
+      for (const workspaceFile of storageFiles) {
+        const { workspace, reason } = await this.explainStorageEntry(workspaceFile);
+        const name = basename(dirname(workspaceFile));
+        if (workspace && !candidates.some(w => (w.configFile ?? w.path) === (workspace.configFile ?? workspace.path))) {
+          candidates.push(workspace);
+          storage.push({ status: 'ok', name, detail: `${workspace.name}: ${reason}` });
+        } else {
+          storage.push({ status: 'info', name, detail: workspace ? `duplicate of ${workspace.name}` : `rejected, ${reason}` });
+        }
+      }
+
+      // Strategy 1: editor windows from the window manager, matched to storage entries by title
+      const windowChecks: DiagnosticCheck[] = [];
+      try {
+        const { windows, ordered } = await this.windows.listWindows(this.editor);
+        windowChecks.push(windows.length > 0
+          ? { status: 'ok', name: 'Editor windows', detail: `${windows.length} found${ordered ? ', most recently used first' : ''}` }
+          : {
+            status: 'warn',
+            name: 'Editor windows',
+            detail: `no ${displayName} windows (matched by class ${this.editor.windowClass} or app id ${this.editor.appIds.join(', ')})`,
+            fix: `Start ${displayName}, or choose the editor you use with --editor`
+          });
+
         try {
-          const { stdout } = await execAsync(`rg --type-not binary -n "${query}" .`, {
-            cwd: this.workspaceRoot
+          const activeId = await this.windows.getActiveWindowId();
+          const active = windows.find(window => window.id === activeId);
+          windowChecks.push({
+            status: 'info',
+            name: 'Focused window',
+            detail: active ? `${active.id} ${active.title}` : activeId ? `${activeId} (not an editor window)` : 'unknown'
           });
-          
-          return {
-            content: [{
-              type: 'text',
-              text: `Content search results for "${query}":\n${stdout}`
-            }]
-          };
-        } catch (rgError) {
-          // Fallback to grep if ripgrep not available
-          try {
-            const { stdout } = await execAsync(`grep -r -n --exclude-dir=node_modules --exclude-dir=.git "${query}" .`, {
-              cwd: this.workspaceRoot
+        } catch (error) {
+          windowChecks.push({ status: 'warn', name: 'Focused window', detail: message(error) });
+        }
+
+        for (const window of windows) {
+          const workspaceName = this.extractWorkspaceFromTitle(window.title);
+          const workspace = workspaceName ? this.matchWorkspaceName(workspaceName, candidates) : undefined;
+          if (!workspaceName) {
+            windowChecks.push({ status: 'warn', name: window.id, detail: `"${window.title}" rejected: title does not end with " - ${displayName}"` });
+          } else if (!workspace) {
+            windowChecks.push({
+              status: 'warn',
+              name: window.id,
+              detail: `"${window.title}" rejected: no workspace storage entry named '${workspaceName}'`,
+              fix: 'Keep the default window.title setting so titles contain the folder name'
             });
-            
-            return {
-              content: [{
-                type: 'text',
-                text: `Content search results for "${query}":\n${stdout}`
-              }]
-            };
-          } catch (grepError) {
-            throw new Error('Neither ripgrep nor grep available for content search');
+          } else {
+            windowChecks.push({ status: 'ok', name: window.id, detail: `"${window.title}" -> ${workspace.name} (${workspace.folders.map(f => f.path).join(', ') || workspace.path})` });
           }
         }
+      } catch (error) {
+        windowChecks.push({
+          status: 'fail',
+          name: 'Editor windows',
+          detail: `${this.windows.name} backend failed: ${message(error)}`,
+          fix: findHelperError(error)?.code === 'external_tool_missing' ? 'Install the missing tool (see Tools)' : undefined
+        });
       }
-    } catch (error) {
-      throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 
-  async getWorkspaceFiles(): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
-    try {
-      const files = await glob('**/*', {
-        cwd: this.workspaceRoot,
-        ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**', '**/*.{jpg,jpeg,png,gif,bmp,ico,svg}'],
-        onlyFiles: true
-      });
+      // Strategy 2: `code --status`
+      const statusChecks: DiagnosticCheck[] = [];
+      try {
+        const workspaces = await this.parseVSCodeStatusSlow();
+        statusChecks.push(workspaces.length > 0
+          ? { status: 'ok', name: `${this.editor.cli} --status`, detail: workspaces.map(w => `${w.name} (${w.path})`).join(', ') }
+          : { status: 'warn', name: `${this.editor.cli} --status`, detail: 'no workspace folders reported', fix: `Make sure ${displayName} is running` });
+      } catch (error) {
+        statusChecks.push({ status: 'warn', name: `${this.editor.cli} --status`, detail: message(error) });
+      }
 
-      const fileList = files.map(file => ({
-        path: file,
-        size: 'unknown',
-        type: 'file'
-      }));
+      // Active workspace, each approach on its own, then the combined result
+      const activeChecks: DiagnosticCheck[] = [];
+      const approaches: Array<[string, () => Promise<DetectedWorkspace | null>]> = [
+        ['Open windows', async () => this.activeFromOpenWorkspaces(await this.getOpenWorkspacesFast())],
+        ['Workspace indicators', () => this.activeFromIndicators()],
+        ['Recently opened', () => this.activeFromRecent()]
+      ];
+      for (const [name, detect] of approaches) {
+        try {
+          const detected = await detect();
+          activeChecks.push(detected
+            ? { status: 'ok', name, detail: `${detected.root} (${detected.reason})` }
+            : { status: 'info', name, detail: 'nothing found' });
+        } catch (error) {
+          activeChecks.push({
+            status: 'warn',
+            name,
+            detail: message(error),
+            fix: findHelperError(error)?.code === 'external_tool_missing' ? 'Install the missing tool (see Tools)' : undefined
+          });
+        }
+      }
+      const active = await this.getActiveWorkspaceModel();
+      activeChecks.push({ status: 'info', name: 'Result', detail: `${active.root} (${active.reason})` });
+
+      // Editor bridge
+      const bridgeWindows = await this.bridge.listWindows();
+      const bridgeChecks: DiagnosticCheck[] = [bridgeWindows.length > 0
+        ? { status: 'ok', name: 'Bridge windows', detail: bridgeWindows.map(window => window.workspaceFolders.join(', ') || `pid ${window.pid}`).join('; ') }
+        : {
+          status: 'info',
+          name: 'Bridge windows',
+          detail: 'none registered; selections, buffer edits and terminal sessions are unavailable',
+          fix: 'Install the vscode-helper-bridge extension from extension/'
+        }];
 
+      const report = createReport([
+        { title: 'Environment', checks: environment },
+        { title: 'Tools', checks: tools },
+        { title: 'Workspace storage', checks: storage },
+        { title: `Windows (${this.windows.name} backend)`, checks: windowChecks },
+        { title: 'VSCode status', checks: statusChecks },
+        { title: 'Active workspace', checks: activeChecks },
+        { title: 'Editor bridge', checks: bridgeChecks }
+      ]);
       return {
-        contents: [{
-          uri: 'vscode://workspace/files',
-          mimeType: 'application/json',
-          text: JSON.stringify(fileList, null, 2)
-        }]
+        content: [{ type: 'text', text: formatDiagnostics(report) }],
+        report
       };
     } catch (error) {
-      throw new Error(`Failed to get workspace files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to run diagnostics: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async getCurrentEditorContent(): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
     try {
-      // This is a limitation - we can't easily get the current editor content without a VSCode extension
-      // For now, we'll return a message explaining this limitation
+      // Editor buffers are only reachable through the companion extension's bridge
+      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const editor = await this.bridge.getActiveEditor(activeWorkspace);
+      if (!editor) {
+        throw new EditorUnavailableError('No active text editor in VSCode');
+      }
+
+      this.log(`Read active editor: ${editor.uri}${editor.isDirty ? ' (unsaved changes)' : ''}`);
+
       return {
         contents: [{
           uri: 'vscode://editor/content',
-          mimeType: 'text/plain',
-          text: 'Current editor content access requires VSCode extension. This feature will be implemented in the extension component.'
+          mimeType: 'application/json',
+          text: JSON.stringify(editor, null, 2)
         }]
       };
     } catch (error) {
-      throw new Error(`Failed to get editor content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get editor content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async revealInExplorer(filePath: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      const absolutePath = resolve(this.workspaceRoot, filePath);
+      const absolutePath = await this.resolveSafePath(filePath);
       
       // Check if file exists
       try {
         await access(absolutePath);
       } catch {
-        throw new Error(`File does not exist: ${filePath}`);
+        throw new FileNotFoundError(filePath);
       }
 
       // Use VSCode command to reveal file in explorer
-      const command = `code --command "revealFileInOS" "${absolutePath}"`;
-      await execAsync(command);
+      await this.processes.run(this.editor.cli, ['--command', 'revealFileInOS', absolutePath]);
 
       // Also try to reveal in VSCode's file explorer
-      const revealCommand = `code --command "workbench.files.action.showActiveFileInExplorer" "${absolutePath}"`;
       try {
-        await execAsync(revealCommand);
+        await this.processes.run(this.editor.cli, ['--command', 'workbench.files.action.showActiveFileInExplorer', absolutePath]);
       } catch {
         // If that fails, try alternative command
-        const altCommand = `code --command "explorer.openToSide" "${absolutePath}"`;
-        await execAsync(altCommand);
+        await this.processes.run(this.editor.cli, ['--command', 'explorer.openToSide', absolutePath]);
       }
 
       return {
@@ -564,15 +1968,14 @@ export class VSCodeController {
         }]
       };
     } catch (error) {
-      throw new Error(`Failed to reveal file in explorer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to reveal file in explorer: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async focusExplorer(): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
       // Focus the file explorer view
-      const command = `code --command "workbench.view.explorer"`;
-      await execAsync(command);
+      await this.processes.run(this.editor.cli, ['--command', 'workbench.view.explorer']);
 
       return {
         content: [{
@@ -581,35 +1984,50 @@ export class VSCodeController {
         }]
       };
     } catch (error) {
-      throw new Error(`Failed to focus explorer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to focus explorer: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  async getActiveWorkspace(): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  async getActiveWorkspace(): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    workspace: Workspace;
+    root: string;
+  }> {
     try {
-      const activeWorkspace = await this.getActiveVSCodeWorkspace();
+      const { workspace, root } = await this.getActiveWorkspaceModel();
+      const roots = workspace.folders.length > 1
+        ? `\nRoots:\n${workspace.folders.map(f => `  ${f.name} - ${f.path}${f.path === root ? ' (active)' : ''}`).join('\n')}`
+        : '';
       
       return {
         content: [{
           type: 'text',
-          text: `Active VSCode workspace: ${activeWorkspace}`
-        }]
+          text: `Active VSCode workspace: ${root}${workspace.configFile ? `\nWorkspace file: ${workspace.configFile}` : ''}${roots}`
+        }],
+        workspace,
+        root
       };
     } catch (error) {
-      throw new Error(`Failed to get active workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get active workspace: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async getAllWorkspaces(): Promise<{ 
     content: Array<{ type: 'text'; text: string }>;
-    workspaces: Array<{ name: string; path: string }>;
+    workspaces: Workspace[];
   }> {
     try {
       // Use fast workspace detection
       const workspaces = await this.getOpenWorkspacesFast();
       
+      const describe = (w: Workspace) => {
+        const remote = w.remote ? ` [${describeRemote(w.remote)}]` : '';
+        return w.configFile
+          ? `  ${w.name} - ${w.configFile}${remote}${w.folders.map(f => `\n    ${f.name} - ${f.path}`).join('')}`
+          : `  ${w.name} - ${w.path}${remote}`;
+      };
       const workspaceText = workspaces.length > 0 
-        ? `Open VSCode workspaces (${workspaces.length}):\n${workspaces.map(w => `  ${w.name} - ${w.path}`).join('\n')}`
+        ? `Open VSCode workspaces (${workspaces.length}):\n${workspaces.map(describe).join('\n')}`
         : 'No open VSCode workspaces found';
       
       return {
@@ -620,7 +2038,7 @@ export class VSCodeController {
         workspaces
       };
     } catch (error) {
-      throw new Error(`Failed to get workspaces: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get workspaces: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
@@ -631,95 +2049,103 @@ export class VSCodeController {
 
   async getWorkspaceInfo(workspaceName: string): Promise<{ 
     content: Array<{ type: 'text'; text: string }>;
-    workspace: { name: string; path: string; status: string };
+    workspace: Workspace & { status: string };
   }> {
     try {
       // Find the workspace by name using fast method
       const workspaces = await this.getOpenWorkspacesFast();
       
-      const targetWorkspace = workspaces.find(w => 
-        w.name.toLowerCase().includes(workspaceName.toLowerCase()) ||
-        workspaceName.toLowerCase().includes(w.name.toLowerCase())
-      );
+      const targetWorkspace = this.matchWorkspaceName(workspaceName, workspaces);
       
       if (!targetWorkspace) {
-        throw new Error(`Workspace '${workspaceName}' not found. Available workspaces: ${workspaces.map(w => w.name).join(', ')}`);
+        throw new WorkspaceNotFoundError(workspaceName, workspaces.map(w => w.name));
       }
 
       this.log(`Found workspace info for: ${targetWorkspace.name}`);
 
       // Check if this is the currently active workspace
       const activeWorkspace = await this.getActiveVSCodeWorkspace();
-      const isActive = activeWorkspace === targetWorkspace.path;
+      const isActive = targetWorkspace.folders.some(folder => folder.path === activeWorkspace);
 
-      // Get basic file count info (optional enhancement)
+      // Get basic file count info (optional enhancement); remote files cannot be counted from here
       let fileCount = 'unknown';
-      try {
-        const { stdout: fileCountOutput } = await execAsync(`find "${targetWorkspace.path}" -type f 2>/dev/null | wc -l`);
-        fileCount = fileCountOutput.trim();
-      } catch {
-        // Ignore file count errors
+      if (!targetWorkspace.remote) {
+        try {
+          const { stdout: fileListOutput } = await this.processes.run('find', [...targetWorkspace.folders.map(f => f.path), '-type', 'f'], {
+            timeout: 30000,
+            maxBuffer: 256 * 1024 * 1024
+          });
+          fileCount = String(fileListOutput.split('\n').filter(Boolean).length);
+        } catch {
+          // Ignore file count errors
+        }
       }
 
       const status = isActive ? 'active' : 'open';
       const workspaceInfo = {
-        name: targetWorkspace.name,
-        path: targetWorkspace.path,
+        ...targetWorkspace,
         status: status
       };
+      const location = targetWorkspace.configFile
+        ? `Workspace file: ${targetWorkspace.configFile}\nRoots:\n${targetWorkspace.folders.map(f => `  ${f.name} - ${f.path}`).join('\n')}`
+        : `Path: ${targetWorkspace.path}`;
+      const remote = targetWorkspace.remote
+        ? `\nRemote: ${describeRemote(targetWorkspace.remote)} (local filesystem tools are unavailable)`
+        : '';
 
       return {
         content: [{
           type: 'text',
-          text: `Workspace: ${targetWorkspace.name}\nPath: ${targetWorkspace.path}\nStatus: ${status}${fileCount !== 'unknown' ? `\nFiles: ~${fileCount}` : ''}`
+          text: `Workspace: ${targetWorkspace.name}\n${location}${remote}\nStatus: ${status}${fileCount !== 'unknown' ? `\nFiles: ~${fileCount}` : ''}`
         }],
         workspace: workspaceInfo
       };
     } catch (error) {
       this.log(`Error getting workspace info: ${error}`);
-      throw new Error(`Failed to get workspace info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get workspace info: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async openTerminalInWorkspace(workspaceName?: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
       let targetWorkspacePath: string;
+      let targetWorkspace: Workspace;
       
       if (workspaceName) {
         // Find the workspace by name using fast method
         const workspaces = await this.getOpenWorkspacesFast();
         
-        const targetWorkspace = workspaces.find(w => 
-          w.name.toLowerCase().includes(workspaceName.toLowerCase()) ||
-          workspaceName.toLowerCase().includes(w.name.toLowerCase())
-        );
+        const foundWorkspace = this.matchWorkspaceName(workspaceName, workspaces);
         
-        if (!targetWorkspace) {
-          throw new Error(`Workspace '${workspaceName}' not found. Available workspaces: ${workspaces.map(w => w.name).join(', ')}`);
+        if (!foundWorkspace) {
+          throw new WorkspaceNotFoundError(workspaceName, workspaces.map(w => w.name));
         }
         
-        targetWorkspacePath = targetWorkspace.path;
-        this.log(`Found target workspace: ${targetWorkspace.name} at ${targetWorkspacePath}`);
+        targetWorkspace = foundWorkspace;
+        targetWorkspacePath = foundWorkspace.path;
+        this.log(`Found target workspace: ${foundWorkspace.name} at ${targetWorkspacePath}`);
       } else {
         // Use active workspace
-        targetWorkspacePath = await this.getActiveVSCodeWorkspace();
+        const { workspace, root } = await this.getActiveWorkspaceModel();
+        targetWorkspace = workspace;
+        targetWorkspacePath = root;
         this.log(`Using active workspace: ${targetWorkspacePath}`);
       }
 
-      // First focus/open the workspace
-      const openCommand = `code "${targetWorkspacePath}"`;
-      this.log(`Opening workspace: ${openCommand}`);
-      await execAsync(openCommand);
+      // First focus/open the workspace; multi-root windows open through their workspace file
+      const openArgs = this.codeOpenArgs(targetWorkspace);
+      this.log(`Opening workspace: ${openArgs.join(' ')}`);
+      await this.processes.run(this.editor.cli, openArgs);
 
       // Wait a moment for VSCode to focus
       await new Promise(resolve => setTimeout(resolve, 500));
 
       // Use keyboard shortcut to open new terminal (Ctrl+Shift+`)
       try {
-        await execAsync('xdotool key ctrl+shift+grave');
+        await this.windows.sendKeys('ctrl+shift+grave');
         this.log('Sent keyboard shortcut to open terminal');
-      } catch (xdotoolError) {
-        this.log(`xdotool failed: ${xdotoolError}, workspace opened but terminal may not have been created`);
+      } catch (keysError) {
+        this.log(`Sending keys through ${this.windows.name} failed: ${keysError}, workspace opened but terminal may not have been created`);
         // Don't throw error - workspace was still opened successfully
       }
 
@@ -732,25 +2158,22 @@ export class VSCodeController {
       };
     } catch (error) {
       this.log(`Error opening terminal: ${error}`);
-      throw new Error(`Failed to open terminal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to open terminal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   async focusWorkspace(workspaceName?: string): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      let targetWorkspace: { name: string; path: string };
+      let targetWorkspace: Workspace;
       
       if (workspaceName) {
         // Find the workspace by name using fast method
         const workspaces = await this.getOpenWorkspacesFast();
         
-        const foundWorkspace = workspaces.find(w => 
-          w.name.toLowerCase().includes(workspaceName.toLowerCase()) ||
-          workspaceName.toLowerCase().includes(w.name.toLowerCase())
-        );
+        const foundWorkspace = this.matchWorkspaceName(workspaceName, workspaces);
         
         if (!foundWorkspace) {
-          throw new Error(`Workspace '${workspaceName}' not found. Available workspaces: ${workspaces.map(w => w.name).join(', ')}`);
+          throw new WorkspaceNotFoundError(workspaceName, workspaces.map(w => w.name));
         }
         
         targetWorkspace = foundWorkspace;
@@ -760,43 +2183,35 @@ export class VSCodeController {
         const activeWorkspacePath = await this.getActiveVSCodeWorkspace();
         const workspaces = await this.getOpenWorkspacesFast();
         
-        const foundWorkspace = workspaces.find(w => w.path === activeWorkspacePath);
+        const foundWorkspace = workspaces.find(w => w.folders.some(folder => folder.path === activeWorkspacePath));
         if (!foundWorkspace) {
-          throw new Error('Could not find active workspace in open workspaces list');
+          throw new WorkspaceNotFoundError(activeWorkspacePath, workspaces.map(w => w.name));
         }
         
         targetWorkspace = foundWorkspace;
         this.log(`Using active workspace: ${targetWorkspace.name}`);
       }
 
-      // Method 1: Try to focus using wmctrl (Linux window manager control)
-      try {
-        // Get VSCode windows and find the one with matching workspace name
-        const { stdout: wmctrlOutput } = await execAsync('wmctrl -l');
-        const vscodeWindows = wmctrlOutput.split('\n').filter(line => 
-          line.includes('Visual Studio Code') && line.includes(targetWorkspace.name)
-        );
-        
-        if (vscodeWindows.length > 0) {
-          // Extract window ID (first column)
-          const windowId = vscodeWindows[0].split(/\s+/)[0];
-          await execAsync(`wmctrl -i -a ${windowId}`);
-          
+      // Method 1: Raise the window the workspace was found in
+      const windowId = this.workspaceWindows.get(targetWorkspace);
+      if (windowId) {
+        try {
+          await this.windows.focusWindow(windowId);
           return {
             content: [{
               type: 'text',
               text: `Successfully focused workspace '${targetWorkspace.name}' window`
             }]
           };
+        } catch (focusError) {
+          this.log(`Focusing window ${windowId} failed: ${focusError}, trying alternative method`);
         }
-      } catch (wmctrlError) {
-        this.log(`wmctrl method failed: ${wmctrlError}, trying alternative method`);
       }
 
       // Method 2: Fallback to opening the workspace (will bring it to focus)
-      const command = `code "${targetWorkspace.path}"`;
-      this.log(`Executing fallback command: ${command}`);
-      await execAsync(command);
+      const openArgs = this.codeOpenArgs(targetWorkspace);
+      this.log(`Falling back to opening ${openArgs.join(' ')}`);
+      await this.processes.run(this.editor.cli, openArgs);
 
       return {
         content: [{
@@ -806,7 +2221,7 @@ export class VSCodeController {
       };
     } catch (error) {
       this.log(`Error focusing workspace: ${error}`);
-      throw new Error(`Failed to focus workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to focus workspace: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
@@ -817,7 +2232,7 @@ export class VSCodeController {
       this.log(`Using active workspace: ${activeWorkspace}`);
       
       // Resolve the file path relative to the active workspace
-      const absolutePath = resolve(activeWorkspace, filePath);
+      const absolutePath = await this.resolveSafePath(filePath, activeWorkspace);
       this.log(`Selecting file in explorer: ${absolutePath}`);
       
       // Check if file exists
@@ -826,14 +2241,14 @@ export class VSCodeController {
       } catch {
         // If file doesn't exist relative to workspace, try as absolute path
         if (!filePath.startsWith('/')) {
-          throw new Error(`File does not exist: ${filePath} (looked in ${activeWorkspace})`);
+          throw new FileNotFoundError(filePath, `File does not exist: ${filePath} (looked in ${activeWorkspace})`);
         }
         
         // Try the file path as absolute
         try {
           await access(filePath);
         } catch {
-          throw new Error(`File does not exist: ${filePath}`);
+          throw new FileNotFoundError(filePath);
         }
       }
 
@@ -842,9 +2257,7 @@ export class VSCodeController {
       
       // Single command approach to avoid opening multiple VSCode instances
       // Open the file and reveal it in explorer in one go
-      const command = `code "${finalPath}" --command "workbench.files.action.showActiveFileInExplorer"`;
-      this.log(`Executing command: ${command}`);
-      await execAsync(command);
+      await this.processes.run(this.editor.cli, [finalPath, '--command', 'workbench.files.action.showActiveFileInExplorer']);
 
       return {
         content: [{
@@ -854,7 +2267,7 @@ export class VSCodeController {
       };
     } catch (error) {
       this.log(`Error selecting file: ${error}`);
-      throw new Error(`Failed to select file in explorer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to select file in explorer: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  X11WindowManager,
+  SwayWindowManager,
+  HyprlandWindowManager,
+  StatusWindowManager,
+  FocusHistory,
+  createWindowManager,
+  normalizeWindowId
+} from './window-manager';
+import { ProcessRunner, ExecResult } from './process-exec';
+import { resolveEditorProfile } from './editor-profiles';
+
+const code = resolveEditorProfile('code');
+
+// Answers commands from a table keyed by "file arg arg..."; anything missing fails like a tool that is not there
+function fakeRunner(outputs: Record<string, string>): { runner: ProcessRunner; calls: string[][] } {
+  const calls: string[][] = [];
+  const runner = new ProcessRunner();
+  runner.run = async (file: string, args: string[] = []): Promise<ExecResult> => {
+    calls.push([file, ...args]);
+    const stdout = outputs[[file, ...args].join(' ')];
+    if (stdout === undefined) {
+      throw new Error(`${file} failed`);
+    }
+    return { stdout, stderr: '', exitCode: 0 };
+  };
+  return { runner, calls };
+}
+
+describe('X11WindowManager', () => {
+  const wmctrl = [
+    '0x03400004  0 code.Code             host api.ts - api - Visual Studio Code',
+    '0x01e00003  0 gnome-terminal-server.Gnome-terminal  host Terminal',
+    '0x03400010  0 code.Code             host web - Visual Studio Code',
+    '0x03800001  0 code - insiders.Code - Insiders  host x - y - Visual Studio Code - Insiders'
+  ].join('\n');
+
+  it('lists the editor windows most recently raised first', async () => {
+    const { runner } = fakeRunner({
+      'wmctrl -l -x': wmctrl,
+      'xprop -root _NET_CLIENT_LIST_STACKING': '_NET_CLIENT_LIST_STACKING(WINDOW): window id # 0x3400010, 0x1e00003, 0x3400004'
+    });
+    expect(await new X11WindowManager(runner).listWindows(code)).toEqual({
+      windows: [
+        { id: '0x3400004', title: 'api.ts - api - Visual Studio Code' },
+        { id: '0x3400010', title: 'web - Visual Studio Code' }
+      ],
+      ordered: true
+    });
+  });
+
+  it('keeps the creation order without stacking information', async () => {
+    const { runner } = fakeRunner({ 'wmctrl -l -x': wmctrl });
+    const { windows, ordered } = await new X11WindowManager(runner).listWindows(code);
+    expect(windows.map(window => window.id)).toEqual(['0x3400004', '0x3400010']);
+    expect(ordered).toBe(false);
+  });
+
+  it('matches window classes with spaces', async () => {
+    const { runner } = fakeRunner({ 'wmctrl -l -x': wmctrl });
+    const { windows } = await new X11WindowManager(runner).listWindows(resolveEditorProfile('insiders'));
+    expect(windows).toEqual([{ id: '0x3800001', title: 'x - y - Visual Studio Code - Insiders' }]);
+  });
+
+  it('reads the active window from xprop, falling back to xdotool', async () => {
+    const xprop = fakeRunner({ 'xprop -root _NET_ACTIVE_WINDOW': '_NET_ACTIVE_WINDOW(WINDOW): window id # 0x3400004' });
+    expect(await new X11WindowManager(xprop.runner).getActiveWindowId()).toBe('0x3400004');
+    const xdotool = fakeRunner({ 'xdotool getactivewindow': '54525956\n' });
+    expect(await new X11WindowManager(xdotool.runner).getActiveWindowId()).toBe('0x3400004');
+  });
+
+  it('focuses windows and sends keys', async () => {
+    const { runner, calls } = fakeRunner({ 'wmctrl -i -a 0x3400004': '', 'xdotool key ctrl+shift+grave': '' });
+    const manager = new X11WindowManager(runner);
+    await manager.focusWindow('0x3400004');
+    await manager.sendKeys('ctrl+shift+grave');
+    expect(calls).toEqual([['wmctrl', '-i', '-a', '0x3400004'], ['xdotool', 'key', 'ctrl+shift+grave']]);
+  });
+});
+
+describe('SwayWindowManager', () => {
+  const tree = {
+    id: 1,
+    focus: [3, 2],
+    nodes: [
+      { id: 2, nodes: [{ id: 10, app_id: 'code', name: 'web - Visual Studio Code' }] },
+      {
+        id: 3,
+        focus: [21, 20],
+        nodes: [
+          { id: 20, app_id: 'foot', name: 'shell' },
+          { id: 21, app_id: null, window_properties: { class: 'Code', instance: 'code' }, name: 'api - Visual Studio Code', focused: true }
+        ]
+      }
+    ]
+  };
+
+  it('lists native and Xwayland editor windows in focus order', async () => {
+    const { runner } = fakeRunner({ 'swaymsg -r -t get_tree': JSON.stringify(tree) });
+    const manager = new SwayWindowManager(runner);
+    expect(await manager.listWindows(code)).toEqual({
+      windows: [{ id: '21', title: 'api - Visual Studio Code' }, { id: '10', title: 'web - Visual Studio Code' }],
+      ordered: true
+    });
+    expect(await manager.getActiveWindowId()).toBe('21');
+  });
+
+  it('focuses containers by id and types keys with wtype', async () => {
+    const { runner, calls } = fakeRunner({ 'swaymsg [con_id=21] focus': '', 'wtype -M ctrl -M shift -k grave -m shift -m ctrl': '' });
+    const manager = new SwayWindowManager(runner);
+    await manager.focusWindow('21');
+    await manager.sendKeys('ctrl+shift+grave');
+    await expect(manager.focusWindow('21] kill; [')).rejects.toThrow('Invalid sway container id');
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe('HyprlandWindowManager', () => {
+  const clients = [
+    { address: '0x5a1', class: 'code', title: 'web - Visual Studio Code', focusHistoryID: 2, mapped: true },
+    { address: '0x5a2', class: 'kitty', title: 'shell', focusHistoryID: 0, mapped: true },
+    { address: '0x5a3', class: 'code-url-handler', title: 'api - Visual Studio Code', focusHistoryID: 1, mapped: true },
+    { address: '0x5a4', class: 'code', title: 'hidden', focusHistoryID: 3, mapped: false }
+  ];
+
+  it('lists mapped editor windows by focus history', async () => {
+    const { runner } = fakeRunner({ 'hyprctl clients -j': JSON.stringify(clients) });
+    expect(await new HyprlandWindowManager(runner).listWindows(code)).toEqual({
+      windows: [{ id: '0x5a3', title: 'api - Visual Studio Code' }, { id: '0x5a1', title: 'web - Visual Studio Code' }],
+      ordered: true
+    });
+  });
+
+  it('reads the active window and treats {} as none', async () => {
+    expect(await new HyprlandWindowManager(fakeRunner({ 'hyprctl activewindow -j': '{"address":"0x5a3"}' }).runner).getActiveWindowId()).toBe('0x5a3');
+    expect(await new HyprlandWindowManager(fakeRunner({ 'hyprctl activewindow -j': '{}' }).runner).getActiveWindowId()).toBeNull();
+  });
+
+  it('only dispatches focus for window addresses', async () => {
+    const { runner, calls } = fakeRunner({ 'hyprctl dispatch focuswindow address:0x5a3': '' });
+    const manager = new HyprlandWindowManager(runner);
+    await manager.focusWindow('0x5a3');
+    await expect(manager.focusWindow('title:.*')).rejects.toThrow('Invalid Hyprland window address');
+    expect(calls).toEqual([['hyprctl', 'dispatch', 'focuswindow', 'address:0x5a3']]);
+  });
+});
+
+describe('StatusWindowManager', () => {
+  it('lists window titles from code --status and cannot focus', async () => {
+    const status = [
+      'Version:          Code 1.90.0',
+      'CPU %\tMem MB\t   PID\tProcess',
+      '    0\t   120\t  1234\tcode main',
+      '    0\t   300\t  1240\t  window [1] (api.ts - api - Visual Studio Code)',
+      '    0\t   280\t  1250\t  window [2] (web - Visual Studio Code)'
+    ].join('\n');
+    const manager = new StatusWindowManager(fakeRunner({ 'code --status': status }).runner);
+    expect(await manager.listWindows(code)).toEqual({
+      windows: [{ id: 'window-1', title: 'api.ts - api - Visual Studio Code' }, { id: 'window-2', title: 'web - Visual Studio Code' }],
+      ordered: false
+    });
+    expect(await manager.getActiveWindowId()).toBeNull();
+    await expect(manager.focusWindow('window-1')).rejects.toThrow('cannot focus');
+  });
+});
+
+describe('createWindowManager', () => {
+  const runner = new ProcessRunner();
+
+  it.each([
+    [{ HYPRLAND_INSTANCE_SIGNATURE: 'x', SWAYSOCK: '/run/sway', DISPLAY: ':0' }, 'hyprland'],
+    [{ SWAYSOCK: '/run/sway', WAYLAND_DISPLAY: 'wayland-1' }, 'sway'],
+    [{ XDG_SESSION_TYPE: 'wayland', DISPLAY: ':0' }, 'status'],
+    [{ WAYLAND_DISPLAY: 'wayland-0' }, 'status'],
+    [{ DISPLAY: ':0' }, 'x11'],
+    [{}, 'status']
+  ])('picks the backend for %j', (env, name) => {
+    expect(createWindowManager(runner, undefined, null, env).name).toBe(name);
+  });
+
+  it('uses the configured backend and rejects unknown ones', () => {
+    expect(createWindowManager(runner, undefined, 'sway', { DISPLAY: ':0' }).name).toBe('sway');
+    expect(() => createWindowManager(runner, undefined, 'gnome', {})).toThrow("Unknown window manager 'gnome'");
+  });
+});
+
+describe('FocusHistory', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vscode-helper-focus-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('orders windows by when they were last seen focused', async () => {
+    const history = new FocusHistory(join(dir, 'state', 'focus-history.json'));
+    const [a, b, c] = ['0x1', '0x2', '0x3'].map(id => ({ id, title: id }));
+    await history.record(a);
+    await history.record(b);
+    await history.record(a);
+    expect(await history.order([c, b, a])).toEqual([a, b, c]);
+  });
+});
+
+describe('normalizeWindowId', () => {
+  it('normalizes hex and decimal ids and rejects others', () => {
+    expect(['0x03400004', '0x3400004', '54525956'].map(normalizeWindowId)).toEqual(['0x3400004', '0x3400004', '0x3400004']);
+    expect(['0', 'abc', ''].map(normalizeWindowId)).toEqual([null, null, null]);
+  });
+});
@@ -0,0 +1,351 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { ProcessRunner } from './process-exec.js';
+import { EditorProfile } from './editor-profiles.js';
+
+export interface EditorWindow {
+  // Normalised so ids from different tools compare equal, e.g. '0x3400004'
+  id: string;
+  title: string;
+}
+
+// Enumerates and focuses top-level windows; tests and headless runs can supply their own
+export interface WindowManager {
+  readonly name: string;
+  // The editor's windows; `ordered` when they come most recently raised first
+  listWindows(editor: EditorProfile): Promise<{ windows: EditorWindow[]; ordered: boolean }>;
+  // Null when nothing has focus or the backend cannot tell
+  getActiveWindowId(): Promise<string | null>;
+  focusWindow(id: string): Promise<void>;
+  // Key combination in xdotool syntax, e.g. 'ctrl+shift+grave', sent to the focused window
+  sendKeys(keys: string): Promise<void>;
+}
+
+export const WINDOW_MANAGER_NAMES = ['x11', 'sway', 'hyprland', 'status'];
+
+export const FOCUS_HISTORY_FILE = join(process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state'), 'vscode-helper', 'focus-history.json');
+const MAX_FOCUS_HISTORY = 50;
+
+// wmctrl pads ids with zeros, xprop does not and xdotool prints decimal ids
+export function normalizeWindowId(id: string): string | null {
+  const value = /^0x[0-9a-f]+$/i.test(id) ? parseInt(id, 16) : /^\d+$/.test(id) ? parseInt(id, 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? `0x${value.toString(16)}` : null;
+}
+
+// "_NET_ACTIVE_WINDOW(WINDOW): window id # 0x3400004" or a list of ids for _NET_CLIENT_LIST_STACKING
+export function parseXpropWindowIds(output: string): string[] {
+  const hash = output.indexOf('#');
+  if (hash === -1) return [];
+  return output.slice(hash + 1)
+    .split(',')
+    .map(id => normalizeWindowId(id.trim()))
+    .filter((id): id is string => id !== null);
+}
+
+// `wmctrl -l -x` lines read "<id> <desktop> <class> <host> <title>"; the class may contain spaces, so it is matched as a whole
+export function parseWmctrlWindows(output: string, windowClass: string): EditorWindow[] {
+  const windows: EditorWindow[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\S+)\s+-?\d+\s+(.*)$/);
+    if (!match || !match[2].toLowerCase().startsWith(windowClass.toLowerCase())) continue;
+    const id = normalizeWindowId(match[1]);
+    if (!id) continue;
+    const hostAndTitle = match[2].slice(windowClass.length).trim();
+    windows.push({ id, title: hostAndTitle.slice(hostAndTitle.indexOf(' ') + 1) });
+  }
+  return windows;
+}
+
+export class X11WindowManager implements WindowManager {
+  readonly name = 'x11';
+
+  constructor(private processes: ProcessRunner) {}
+
+  async listWindows(editor: EditorProfile): Promise<{ windows: EditorWindow[]; ordered: boolean }> {
+    const { stdout } = await this.processes.run('wmctrl', ['-l', '-x']);
+    const windows = parseWmctrlWindows(stdout, editor.windowClass);
+
+    // The stacking order lists windows bottom to top, so the last raised one comes last
+    try {
+      const { stdout: stacking } = await this.processes.run('xprop', ['-root', '_NET_CLIENT_LIST_STACKING']);
+      const order = parseXpropWindowIds(stacking).reverse();
+      const rank = (window: EditorWindow) => {
+        const index = order.indexOf(window.id);
+        return index === -1 ? order.length : index;
+      };
+      windows.sort((a, b) => rank(a) - rank(b));
+      return { windows, ordered: order.length > 0 };
+    } catch {
+      // Window manager without stacking information; wmctrl lists windows by creation
+      return { windows, ordered: false };
+    }
+  }
+
+  async getActiveWindowId(): Promise<string | null> {
+    try {
+      const { stdout } = await this.processes.run('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+      return parseXpropWindowIds(stdout)[0] ?? null;
+    } catch {
+      const { stdout } = await this.processes.run('xdotool', ['getactivewindow']);
+      return normalizeWindowId(stdout.trim());
+    }
+  }
+
+  async focusWindow(id: string): Promise<void> {
+    await this.processes.run('wmctrl', ['-i', '-a', id]);
+  }
+
+  async sendKeys(keys: string): Promise<void> {
+    await this.processes.run('xdotool', ['key', keys]);
+  }
+}
+
+function matchesEditor(editor: EditorProfile, ...classes: Array<string | null | undefined>): boolean {
+  return classes.some(value => typeof value === 'string' && editor.appIds.includes(value.toLowerCase()));
+}
+
+// Wayland has no generic way to synthesise input; wtype speaks the virtual keyboard protocol of wlroots compositors
+function wtypeArgs(keys: string): string[] {
+  const parts = keys.split('+');
+  const key = parts.pop()!;
+  const modifiers = parts.map(modifier => ({ super: 'logo', control: 'ctrl' } as Record<string, string>)[modifier.toLowerCase()] ?? modifier.toLowerCase());
+  return [
+    ...modifiers.flatMap(modifier => ['-M', modifier]),
+    '-k', key,
+    ...[...modifiers].reverse().flatMap(modifier => ['-m', modifier])
+  ];
+}
+
+interface SwayNode {
+  id: number;
+  name?: string | null;
+  app_id?: string | null;
+  window_properties?: { class?: string; instance?: string };
+  focused?: boolean;
+  // Child ids, most recently focused first
+  focus?: number[];
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+}
+
+// Windows of a `swaymsg -t get_tree` tree in focus order, following each container's focus list
+export function parseSwayTree(tree: SwayNode): Array<SwayNode & { windowClass: string | null }> {
+  const windows: Array<SwayNode & { windowClass: string | null }> = [];
+  const visit = (node: SwayNode) => {
+    const children = [...(node.nodes ?? []), ...(node.floating_nodes ?? [])];
+    if (children.length === 0) {
+      if (node.app_id || node.window_properties) {
+        windows.push({ ...node, windowClass: node.app_id ?? node.window_properties?.class ?? null });
+      }
+      return;
+    }
+    const rank = (child: SwayNode) => {
+      const index = node.focus?.indexOf(child.id) ?? -1;
+      return index === -1 ? children.length : index;
+    };
+    children.sort((a, b) => rank(a) - rank(b)).forEach(visit);
+  };
+  visit(tree);
+  return windows;
+}
+
+export class SwayWindowManager implements WindowManager {
+  readonly name = 'sway';
+
+  constructor(private processes: ProcessRunner) {}
+
+  private async getTree(): Promise<ReturnType<typeof parseSwayTree>> {
+    const { stdout } = await this.processes.run('swaymsg', ['-r', '-t', 'get_tree']);
+    return parseSwayTree(JSON.parse(stdout));
+  }
+
+  async listWindows(editor: EditorProfile): Promise<{ windows: EditorWindow[]; ordered: boolean }> {
+    const windows = (await this.getTree())
+      .filter(node => matchesEditor(editor, node.app_id, node.window_properties?.class, node.window_properties?.instance))
+      .map(node => ({ id: String(node.id), title: node.name ?? '' }));
+    return { windows, ordered: true };
+  }
+
+  async getActiveWindowId(): Promise<string | null> {
+    const focused = (await this.getTree()).find(node => node.focused);
+    return focused ? String(focused.id) : null;
+  }
+
+  async focusWindow(id: string): Promise<void> {
+    if (!/^\d+$/.test(id)) {
+      throw new Error(`Invalid sway container id: ${id}`);
+    }
+    await this.processes.run('swaymsg', [`[con_id=${id}]`, 'focus']);
+  }
+
+  async sendKeys(keys: string): Promise<void> {
+    await this.processes.run('wtype', wtypeArgs(keys));
+  }
+}
+
+interface HyprlandClient {
+  address: string;
+  class?: string;
+  initialClass?: string;
+  title?: string;
+  // 0 for the most recently focused window
+  focusHistoryID?: number;
+  mapped?: boolean;
+}
+
+export class HyprlandWindowManager implements WindowManager {
+  readonly name = 'hyprland';
+
+  constructor(private processes: ProcessRunner) {}
+
+  async listWindows(editor: EditorProfile): Promise<{ windows: EditorWindow[]; ordered: boolean }> {
+    const { stdout } = await this.processes.run('hyprctl', ['clients', '-j']);
+    const windows = (JSON.parse(stdout) as HyprlandClient[])
+      .filter(client => client.mapped !== false && matchesEditor(editor, client.class, client.initialClass))
+      .sort((a, b) => (a.focusHistoryID ?? Infinity) - (b.focusHistoryID ?? Infinity))
+      .map(client => ({ id: client.address, title: client.title ?? '' }));
+    return { windows, ordered: true };
+  }
+
+  async getActiveWindowId(): Promise<string | null> {
+    const { stdout } = await this.processes.run('hyprctl', ['activewindow', '-j']);
+    // Prints {} when no window has focus
+    return (JSON.parse(stdout) as Partial<HyprlandClient>).address ?? null;
+  }
+
+  async focusWindow(id: string): Promise<void> {
+    if (!/^0x[0-9a-f]+$/i.test(id)) {
+      throw new Error(`Invalid Hyprland window address: ${id}`);
+    }
+    await this.processes.run('hyprctl', ['dispatch', 'focuswindow', `address:${id}`]);
+  }
+
+  async sendKeys(keys: string): Promise<void> {
+    await this.processes.run('wtype', wtypeArgs(keys));
+  }
+}
+
+// `code --status` lists every window as "window [N] (title)" in its process tree
+export function parseStatusWindows(output: string): EditorWindow[] {
+  const windows: EditorWindow[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/\bwindow \[(\d+)\] \((.*)\)\s*$/);
+    if (match) {
+      windows.push({ id: `window-${match[1]}`, title: match[2] });
+    }
+  }
+  return windows;
+}
+
+// Works on any session, but only knows window titles: no focus, ordering or input
+export class StatusWindowManager implements WindowManager {
+  readonly name = 'status';
+
+  constructor(private processes: ProcessRunner) {}
+
+  async listWindows(editor: EditorProfile): Promise<{ windows: EditorWindow[]; ordered: boolean }> {
+    const { stdout } = await this.processes.run(editor.cli, ['--status'], { timeout: 30000 });
+    return { windows: parseStatusWindows(stdout), ordered: false };
+  }
+
+  async getActiveWindowId(): Promise<string | null> {
+    return null;
+  }
+
+  async focusWindow(id: string): Promise<void> {
+    throw new Error(`The status backend cannot focus windows (${id})`);
+  }
+
+  async sendKeys(keys: string): Promise<void> {
+    throw new Error(`The status backend cannot send keys (${keys})`);
+  }
+}
+
+// Picks the backend for the current session; the windowManager setting (VSCODE_HELPER_WINDOW_MANAGER) overrides the choice
+export function createWindowManager(
+  processes: ProcessRunner,
+  log: (message: string, ...args: any[]) => void = () => {},
+  // The windowManager setting; null detects the backend from the session
+  configured: string | null = null,
+  env: NodeJS.ProcessEnv = process.env
+): WindowManager {
+  let name = configured ?? undefined;
+  let reason = 'configured';
+  if (name && !WINDOW_MANAGER_NAMES.includes(name)) {
+    throw new Error(`Unknown window manager '${name}'. Available window managers: ${WINDOW_MANAGER_NAMES.join(', ')}`);
+  }
+  if (!name) {
+    if (env.HYPRLAND_INSTANCE_SIGNATURE) {
+      [name, reason] = ['hyprland', 'HYPRLAND_INSTANCE_SIGNATURE is set'];
+    } else if (env.SWAYSOCK) {
+      [name, reason] = ['sway', 'SWAYSOCK is set'];
+    } else if (env.XDG_SESSION_TYPE === 'wayland' || (env.WAYLAND_DISPLAY && !env.DISPLAY)) {
+      // GNOME and KDE Plasma offer no window listing to other programs
+      [name, reason] = ['status', 'Wayland session without a supported compositor'];
+    } else if (env.DISPLAY) {
+      [name, reason] = ['x11', 'DISPLAY is set'];
+    } else {
+      [name, reason] = ['status', 'no graphical session detected'];
+    }
+  }
+
+  log(`Window manager backend: ${name} (${reason})`);
+  switch (name) {
+    case 'sway':
+      return new SwayWindowManager(processes);
+    case 'hyprland':
+      return new HyprlandWindowManager(processes);
+    case 'status':
+      return new StatusWindowManager(processes);
+    default:
+      return new X11WindowManager(processes);
+  }
+}
+
+interface FocusRecord {
+  windowId: string;
+  title: string;
+  // Epoch milliseconds when the window was seen focused
+  focusedAt: number;
+}
+
+// Editor windows seen focused, most recent first, kept across invocations so that
+// "the window I used last" still resolves after focus moved to a terminal
+export class FocusHistory {
+  constructor(
+    private file: string = FOCUS_HISTORY_FILE,
+    private log: (message: string, ...args: any[]) => void = () => {}
+  ) {}
+
+  async load(): Promise<FocusRecord[]> {
+    try {
+      const records = JSON.parse(await readFile(this.file, 'utf8'));
+      return Array.isArray(records) ? records : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async record(window: EditorWindow): Promise<void> {
+    const records = (await this.load()).filter(record => record.windowId !== window.id);
+    records.unshift({ windowId: window.id, title: window.title, focusedAt: Date.now() });
+    try {
+      await mkdir(dirname(this.file), { recursive: true });
+      await writeFile(this.file, JSON.stringify(records.slice(0, MAX_FOCUS_HISTORY), null, 2), 'utf8');
+    } catch (error) {
+      this.log(`Cannot write focus history ${this.file}: ${error}`);
+    }
+  }
+
+  // Open windows ordered by when they were last seen focused, for backends that cannot tell the stacking order;
+  // windows never seen keep their order at the end
+  async order(windows: EditorWindow[]): Promise<EditorWindow[]> {
+    const records = await this.load();
+    const rank = (window: EditorWindow) => {
+      const index = records.findIndex(record => record.windowId === window.id);
+      return index === -1 ? records.length : index;
+    };
+    return [...windows].sort((a, b) => rank(a) - rank(b));
+  }
+}
@@ -0,0 +1,40 @@
+import { pageFiles, buildTree, encodeCursor } from './workspace-files';
+
+// Paths only; files that do not exist on disk keep null metadata
+const root = '/nonexistent-root';
+const files = ['README.md', 'src/a.ts', 'src/b.ts', 'src/lib/c.ts', 'test/a.test.ts'];
+
+describe('pageFiles', () => {
+  it('pages through a directory with cursors', async () => {
+    const first = await pageFiles(root, files, 'src', undefined, 2);
+    expect(first.files.map(file => file.path)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(first.total).toBe(3);
+    expect(first.nextCursor).toBe(encodeCursor(2));
+    const second = await pageFiles(root, files, 'src', first.nextCursor!, 2);
+    expect(second.files.map(file => file.path)).toEqual(['src/lib/c.ts']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it.each([NaN, 0, -1, 1.5])('rejects the page size %p', async pageSize => {
+    await expect(pageFiles(root, files, '', undefined, pageSize)).rejects.toThrow('pageSize must be a positive integer');
+  });
+
+  it('rejects cursors it did not hand out', async () => {
+    await expect(pageFiles(root, files, '', 'bm90IGpzb24')).rejects.toThrow('Invalid cursor');
+  });
+});
+
+describe('buildTree', () => {
+  it('stops at the depth limit', async () => {
+    const tree = await buildTree(root, files, 'src', 1);
+    expect(tree.children?.map(node => [node.path, node.type, node.children === undefined])).toEqual([
+      ['src/lib', 'directory', true],
+      ['src/a.ts', 'file', true],
+      ['src/b.ts', 'file', true]
+    ]);
+  });
+
+  it.each([NaN, 0, 2.5])('rejects the depth %p', async depth => {
+    await expect(buildTree(root, files, '', depth)).rejects.toThrow('depth must be a positive integer');
+  });
+});
@@ -0,0 +1,204 @@
+import { stat } from 'fs/promises';
+import { extname, join, posix } from 'path';
+
+export interface FileEntry {
+  path: string;
+  size: number | null;
+  // ISO timestamp of the last modification
+  mtime: string | null;
+  language: string;
+}
+
+export interface DirectorySummary {
+  // Files anywhere below the directory
+  files: number;
+  // Direct subdirectories that contain files
+  directories: number;
+  // Most common languages first
+  languages: Array<{ language: string; files: number }>;
+}
+
+export interface FilePage {
+  dir: string;
+  total: number;
+  files: FileEntry[];
+  summary: DirectorySummary;
+  // Pass back to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface TreeNode {
+  name: string;
+  path: string;
+  type: 'directory' | 'file';
+  size?: number | null;
+  mtime?: string | null;
+  language?: string;
+  summary?: DirectorySummary;
+  // Left out for directories below the depth limit
+  children?: TreeNode[];
+}
+
+export const DEFAULT_PAGE_SIZE = 200;
+export const MAX_PAGE_SIZE = 2000;
+export const DEFAULT_TREE_DEPTH = 2;
+const DOMINANT_LANGUAGES = 3;
+const STAT_BATCH = 64;
+
+// Extension to VSCode language id, for the languages a workspace summary is likely to show
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+  '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+  '.json': 'json', '.jsonc': 'jsonc', '.md': 'markdown', '.py': 'python', '.rs': 'rust', '.go': 'go',
+  '.java': 'java', '.kt': 'kotlin', '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cc': 'cpp', '.hpp': 'cpp',
+  '.cs': 'csharp', '.rb': 'ruby', '.php': 'php', '.swift': 'swift', '.sh': 'shellscript', '.bash': 'shellscript',
+  '.html': 'html', '.css': 'css', '.scss': 'scss', '.less': 'less', '.vue': 'vue', '.svelte': 'svelte',
+  '.yml': 'yaml', '.yaml': 'yaml', '.toml': 'toml', '.xml': 'xml', '.sql': 'sql', '.lua': 'lua',
+  '.dart': 'dart', '.scala': 'scala', '.ex': 'elixir', '.exs': 'elixir', '.hs': 'haskell', '.txt': 'plaintext'
+};
+
+const LANGUAGES_BY_NAME: Record<string, string> = {
+  'Dockerfile': 'dockerfile',
+  'Makefile': 'makefile',
+  '.gitignore': 'ignore'
+};
+
+export function languageForPath(path: string): string {
+  const name = posix.basename(path);
+  return LANGUAGES_BY_NAME[name] ?? LANGUAGES[extname(name).toLowerCase()] ?? 'plaintext';
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor "${cursor}"`);
+}
+
+function checkPositiveInteger(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got ${value}`);
+  }
+}
+
+// Files below dir ('' for the workspace root), as paths relative to the root
+export function filesInDirectory(files: string[], dir: string): string[] {
+  const prefix = dir ? `${dir}/` : '';
+  return files.filter(file => file.startsWith(prefix));
+}
+
+export function summarizeDirectory(files: string[], dir: string): DirectorySummary {
+  const prefix = dir ? `${dir}/` : '';
+  const directories = new Set<string>();
+  const languages = new Map<string, number>();
+  for (const file of files) {
+    const rest = file.slice(prefix.length);
+    const slash = rest.indexOf('/');
+    if (slash !== -1) directories.add(rest.slice(0, slash));
+    const language = languageForPath(file);
+    languages.set(language, (languages.get(language) ?? 0) + 1);
+  }
+
+  return {
+    files: files.length,
+    directories: directories.size,
+    languages: [...languages.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, DOMINANT_LANGUAGES)
+      .map(([language, count]) => ({ language, files: count }))
+  };
+}
+
+// Size and mtime come from disk; files that vanished since listing keep null metadata
+export async function describeFiles(root: string, files: string[]): Promise<FileEntry[]> {
+  const entries: FileEntry[] = [];
+  for (let i = 0; i < files.length; i += STAT_BATCH) {
+    entries.push(...await Promise.all(files.slice(i, i + STAT_BATCH).map(async path => {
+      try {
+        const info = await stat(join(root, path));
+        return { path, size: info.size, mtime: info.mtime.toISOString(), language: languageForPath(path) };
+      } catch {
+        return { path, size: null, mtime: null, language: languageForPath(path) };
+      }
+    })));
+  }
+  return entries;
+}
+
+export async function pageFiles(root: string, files: string[], dir: string, cursor?: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<FilePage> {
+  checkPositiveInteger('pageSize', pageSize);
+  const inDirectory = filesInDirectory(files, dir);
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const size = Math.min(pageSize, MAX_PAGE_SIZE);
+  const end = offset + size;
+
+  return {
+    dir,
+    total: inDirectory.length,
+    files: await describeFiles(root, inDirectory.slice(offset, end)),
+    summary: summarizeDirectory(inDirectory, dir),
+    nextCursor: end < inDirectory.length ? encodeCursor(end) : null
+  };
+}
+
+// Directory tree under dir; directories at the depth limit only carry their summary
+export async function buildTree(root: string, files: string[], dir: string, depth: number = DEFAULT_TREE_DEPTH): Promise<TreeNode> {
+  checkPositiveInteger('depth', depth);
+  const inDirectory = filesInDirectory(files, dir);
+  const prefix = dir ? `${dir}/` : '';
+
+  // Only files that end up as leaves need metadata from disk
+  const visible = inDirectory.filter(file => file.slice(prefix.length).split('/').length <= depth);
+  const metadata = new Map((await describeFiles(root, visible)).map(entry => [entry.path, entry]));
+
+  const build = (path: string, level: number): TreeNode => {
+    const below = filesInDirectory(inDirectory, path);
+    const node: TreeNode = {
+      name: path ? posix.basename(path) : '.',
+      path,
+      type: 'directory',
+      summary: summarizeDirectory(below, path)
+    };
+    if (level >= depth) {
+      return node;
+    }
+
+    const childPrefix = path ? `${path}/` : '';
+    const directories = new Set<string>();
+    const children: TreeNode[] = [];
+    for (const file of below) {
+      const rest = file.slice(childPrefix.length);
+      const slash = rest.indexOf('/');
+      if (slash !== -1) {
+        directories.add(childPrefix + rest.slice(0, slash));
+        continue;
+      }
+      const entry = metadata.get(file);
+      children.push({
+        name: rest,
+        path: file,
+        type: 'file',
+        size: entry?.size ?? null,
+        mtime: entry?.mtime ?? null,
+        language: entry?.language ?? languageForPath(file)
+      });
+    }
+
+    node.children = [
+      ...[...directories].sort().map(directory => build(directory, level + 1)),
+      ...children.sort((a, b) => a.name.localeCompare(b.name))
+    ];
+    return node;
+  };
+
+  return build(dir, 0);
+}
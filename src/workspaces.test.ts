@@ -0,0 +1,88 @@
+import { mkdtemp, mkdir, writeFile, realpath, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { readWorkspaceFile, workspaceFromStorage, findFolderForPath, parseWorkspaceUri, folderWorkspace } from './workspaces';
+
+// A platform.code-workspace with roots next to it, one given by URI, one nested and one that no longer exists
+let base: string;
+let configFile: string;
+
+beforeAll(async () => {
+  base = await realpath(await mkdtemp(join(tmpdir(), 'vscode-helper-workspaces-')));
+  configFile = join(base, 'platform', 'platform.code-workspace');
+  for (const dir of ['platform/web', 'platform/web/packages/ui', 'services/api']) {
+    await mkdir(join(base, dir), { recursive: true });
+  }
+  await writeFile(configFile, `{
+  // Roots are relative to this file unless given by URI
+  "folders": [
+    { "path": "web" },
+    { "path": "../services/api", "name": "api" },
+    { "uri": "${pathToFileURL(join(base, 'platform', 'web', 'packages', 'ui')).href}" },
+    { "path": "gone" },
+    { "uri": "vscode-remote://ssh-remote%2Bbox/srv/shared" },
+  ],
+  "settings": {}
+}`);
+});
+
+afterAll(async () => {
+  await rm(base, { recursive: true, force: true });
+});
+
+describe('readWorkspaceFile', () => {
+  it('reads the local roots of a .code-workspace file', async () => {
+    const workspace = await readWorkspaceFile(configFile);
+    expect(workspace).toMatchObject({ name: 'platform', path: join(base, 'platform', 'web'), configFile, remote: null });
+    expect(workspace.folders.map(({ name, path }) => ({ name, path }))).toEqual([
+      { name: 'web', path: join(base, 'platform', 'web') },
+      { name: 'api', path: join(base, 'services', 'api') },
+      { name: 'ui', path: join(base, 'platform', 'web', 'packages', 'ui') }
+    ]);
+  });
+});
+
+describe('workspaceFromStorage', () => {
+  it('reads workspace file entries', async () => {
+    const workspace = await workspaceFromStorage({ workspace: pathToFileURL(configFile).href });
+    expect(workspace?.folders).toHaveLength(3);
+  });
+
+  it('reads folder entries and skips folders that are gone', async () => {
+    expect(await workspaceFromStorage({ folder: pathToFileURL(join(base, 'services', 'api')).href })).toEqual(folderWorkspace(join(base, 'services', 'api')));
+    expect(await workspaceFromStorage({ folder: pathToFileURL(join(base, 'gone')).href })).toBeNull();
+    expect(await workspaceFromStorage({ workspace: pathToFileURL(join(base, 'gone.code-workspace')).href })).toBeNull();
+  });
+
+  it('keeps remote folders as remote paths', async () => {
+    const workspace = await workspaceFromStorage({ folder: 'vscode-remote://ssh-remote%2Bbuild-box/home/me/my%20proj' });
+    expect(workspace).toMatchObject({
+      name: 'my proj',
+      path: '/home/me/my proj',
+      configFile: null,
+      remote: { kind: 'ssh-remote', authority: 'ssh-remote+build-box', host: 'build-box' }
+    });
+    expect(workspace?.folders).toHaveLength(1);
+  });
+
+  it('reports remote workspace files without folders, since they cannot be read', async () => {
+    const workspace = await workspaceFromStorage({ workspace: 'vscode-remote://ssh-remote%2Bbox/home/me/platform.code-workspace' });
+    expect(workspace).toMatchObject({ name: 'platform', path: '/home/me', configFile: '/home/me/platform.code-workspace', folders: [] });
+  });
+
+  it('ignores other schemes', async () => {
+    expect(await workspaceFromStorage({ folder: 'vsls:/shared' })).toBeNull();
+    expect(parseWorkspaceUri('vscode-remote://ssh-remote%2Bbox/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('findFolderForPath', () => {
+  it('picks the deepest root containing the path', async () => {
+    const workspace = await readWorkspaceFile(configFile);
+    expect(findFolderForPath(workspace, join(base, 'platform', 'web', 'packages', 'ui', 'index.ts'))?.name).toBe('ui');
+    expect(findFolderForPath(workspace, join(base, 'platform', 'web', 'index.ts'))?.name).toBe('web');
+    expect(findFolderForPath(workspace, join(base, 'services', 'api'))?.name).toBe('api');
+    expect(findFolderForPath(workspace, join(base, 'services', 'api-old', 'x'))).toBeNull();
+  });
+});
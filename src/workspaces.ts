@@ -0,0 +1,203 @@
+import { readFile, access } from 'fs/promises';
+import { basename, dirname, isAbsolute, posix, relative, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseJsonc } from './jsonc.js';
+import { HelperError } from './errors.js';
+
+// Where a remote window runs, from the authority of a vscode-remote:// URI
+export interface RemoteAuthority {
+  // e.g. 'ssh-remote', 'wsl', 'dev-container', 'attached-container', 'codespaces', 'tunnel'
+  kind: string;
+  // As passed to `code --remote`, e.g. 'ssh-remote+build-box'
+  authority: string;
+  // Part after the '+', e.g. the SSH host or WSL distribution
+  host: string;
+}
+
+export interface WorkspaceFolder {
+  name: string;
+  // Local path, or the path on the remote machine for remote workspaces
+  path: string;
+  uri: string;
+}
+
+export interface Workspace {
+  name: string;
+  // First root folder, for callers that only deal with one root
+  path: string;
+  // The .code-workspace file of a multi-root workspace, null for a window opened on a folder
+  configFile: string | null;
+  // URI VSCode opened: the folder, or the workspace file
+  uri: string;
+  // Null for local workspaces; remote paths are not on this machine's filesystem
+  remote: RemoteAuthority | null;
+  folders: WorkspaceFolder[];
+}
+
+export class RemoteWorkspaceError extends HelperError {
+  constructor(public readonly workspace: Workspace) {
+    super(
+      `Workspace '${workspace.name}' is a remote workspace (${describeRemote(workspace.remote!)}); its files are not on the local filesystem`,
+      'remote_workspace',
+      { workspace: workspace.name, remote: workspace.remote }
+    );
+    this.name = 'RemoteWorkspaceError';
+  }
+}
+
+// The folders of a remote .code-workspace file are only listed in that file, on the remote machine
+export class RemoteMultiRootError extends HelperError {
+  constructor(public readonly workspace: Workspace) {
+    super(
+      `Workspace '${workspace.name}' is a multi-root workspace on ${describeRemote(workspace.remote!)}, which is not supported: its folders are listed in ${workspace.configFile} on the remote machine and cannot be read from here. Open one of its folders in a remote window instead`,
+      'remote_workspace',
+      { workspace: workspace.name, remote: workspace.remote, configFile: workspace.configFile }
+    );
+    this.name = 'RemoteMultiRootError';
+  }
+}
+
+// workspaceStorage/*/workspace.json holds either a folder URI or a .code-workspace URI
+export interface StorageEntry {
+  folder?: string;
+  workspace?: string;
+}
+
+export function fileUriToPath(uri: string): string | null {
+  if (!uri.startsWith('file://')) {
+    return null;
+  }
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return null;
+  }
+}
+
+export function parseRemoteAuthority(authority: string): RemoteAuthority {
+  const plus = authority.indexOf('+');
+  return plus === -1
+    ? { kind: authority, authority, host: '' }
+    : { kind: authority.slice(0, plus), authority, host: authority.slice(plus + 1) };
+}
+
+// Local path or remote location of a file:// or vscode-remote:// URI, percent-decoded; null for other schemes
+export function parseWorkspaceUri(uri: string): { path: string; remote: RemoteAuthority | null } | null {
+  const local = fileUriToPath(uri);
+  if (local) {
+    return { path: local, remote: null };
+  }
+
+  const match = uri.match(/^vscode-remote:\/\/([^/?#]+)([^?#]*)/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return {
+      path: decodeURIComponent(match[2]) || '/',
+      remote: parseRemoteAuthority(decodeURIComponent(match[1]))
+    };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+export function remoteUri(remote: RemoteAuthority, path: string): string {
+  return `vscode-remote://${encodeURIComponent(remote.authority)}${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// The label VSCode shows in the status bar and window title, e.g. "SSH: build-box"
+export function describeRemote(remote: RemoteAuthority): string {
+  switch (remote.kind) {
+    case 'ssh-remote':
+      return `SSH: ${remote.host}`;
+    case 'wsl':
+      return `WSL: ${remote.host}`;
+    case 'dev-container':
+    case 'attached-container':
+      // The host part is a hex-encoded container description, not meant for display
+      return 'Dev Container';
+    case 'codespaces':
+      return `Codespaces: ${remote.host}`;
+    case 'tunnel':
+      return `Tunnel: ${remote.host}`;
+    default:
+      return remote.authority;
+  }
+}
+
+export function folderWorkspace(path: string, name: string = basename(path)): Workspace {
+  const uri = pathToFileURL(path).href;
+  return { name, path, configFile: null, uri, remote: null, folders: [{ name, path, uri }] };
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(() => true, () => false);
+}
+
+// Folders of a .code-workspace file; relative folder paths are relative to the file itself
+export async function readWorkspaceFile(configFile: string): Promise<Workspace> {
+  const config = parseJsonc<{ folders?: Array<{ path?: string; uri?: string; name?: string }> }>(await readFile(configFile, 'utf8'));
+  const folders: WorkspaceFolder[] = [];
+  for (const folder of config.folders ?? []) {
+    const path = folder.path !== undefined
+      ? resolve(dirname(configFile), folder.path)
+      : folder.uri !== undefined ? fileUriToPath(folder.uri) : null;
+    // Remote folder URIs and folders that are gone cannot be used locally
+    if (path && await exists(path)) {
+      folders.push({ name: folder.name ?? basename(path), path, uri: pathToFileURL(path).href });
+    }
+  }
+
+  return {
+    name: basename(configFile).replace(/\.code-workspace$/, ''),
+    path: folders[0]?.path ?? dirname(configFile),
+    configFile,
+    uri: pathToFileURL(configFile).href,
+    remote: null,
+    folders
+  };
+}
+
+export async function workspaceFromStorage(entry: StorageEntry): Promise<Workspace | null> {
+  const uri = entry.folder ?? entry.workspace;
+  const location = uri ? parseWorkspaceUri(uri) : null;
+  if (!uri || !location) {
+    return null;
+  }
+
+  // Remote folders and workspace files cannot be checked or read from here, so a remote workspace file has no known folders
+  if (location.remote) {
+    const name = posix.basename(location.path).replace(/\.code-workspace$/, '') || location.remote.host;
+    if (entry.folder) {
+      return { name, path: location.path, configFile: null, uri, remote: location.remote, folders: [{ name, path: location.path, uri }] };
+    }
+    return { name, path: posix.dirname(location.path), configFile: location.path, uri, remote: location.remote, folders: [] };
+  }
+
+  if (entry.folder) {
+    return await exists(location.path) ? folderWorkspace(location.path) : null;
+  }
+  try {
+    const workspace = await readWorkspaceFile(location.path);
+    return workspace.folders.length > 0 ? workspace : null;
+  } catch {
+    // Workspace file deleted or unreadable
+    return null;
+  }
+}
+
+// The root folder that contains a path, preferring the deepest one for nested roots
+export function findFolderForPath(workspace: Workspace, path: string): WorkspaceFolder | null {
+  let best: WorkspaceFolder | null = null;
+  for (const folder of workspace.folders) {
+    // Remote paths are POSIX paths on the remote machine
+    const relativePath = workspace.remote ? posix.relative(folder.path, path) : relative(folder.path, path);
+    const inside = relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+    if (inside && (!best || folder.path.length > best.path.length)) {
+      best = folder;
+    }
+  }
+  return best;
+}